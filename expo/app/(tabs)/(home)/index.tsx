@@ -4,6 +4,7 @@ import {
   Text,
   StyleSheet,
   ScrollView,
+  FlatList,
   Pressable,
   Image,
   ActivityIndicator,
@@ -11,14 +12,16 @@ import {
   RefreshControl,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useQuery } from '@tanstack/react-query';
-import { Music, TrendingUp, Disc3, Headphones } from 'lucide-react-native';
+import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
+import { Music, TrendingUp, Disc3, Headphones, History } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import { colors } from '@/constants/colors';
 import { useMusicPlayer } from '@/providers/MusicPlayerProvider';
+import { usePlayHistory, HistoryEntry } from '@/providers/PlayHistoryProvider';
+import { useRegion } from '@/providers/RegionProvider';
 import {
-  getNewReleases,
+  getNewReleasesPage,
   getFeaturedPlaylists,
   getRecommendations,
   SpotifyTrack,
@@ -27,6 +30,12 @@ import {
 } from '@/services/spotify';
 import { getTopArtists, getLargestImage, LastFmArtist } from '@/services/lastfm';
 import MiniPlayer from '@/components/MiniPlayer';
+import { useQueueMenu } from '@/hooks/useQueueMenu';
+import { useHistoryReplay } from '@/hooks/useHistoryReplay';
+import { useDownloadActions } from '@/hooks/useDownloadActions';
+import { useOpenCollection } from '@/hooks/useOpenCollection';
+
+const RECENTLY_PLAYED_LIMIT = 12;
 
 const GREETING = (() => {
   const h = new Date().getHours();
@@ -35,12 +44,24 @@ const GREETING = (() => {
   return 'Good evening';
 })();
 
-function TrackRow({ track, index, onPress }: { track: SpotifyTrack; index: number; onPress: () => void }) {
-  const hasPreview = !!track.preview_url;
+function TrackRow({
+  track,
+  index,
+  isPlayable,
+  onPress,
+  onLongPress,
+}: {
+  track: SpotifyTrack;
+  index: number;
+  isPlayable: boolean;
+  onPress: () => void;
+  onLongPress: () => void;
+}) {
   return (
     <Pressable
-      style={({ pressed }) => [styles.trackRow, pressed && styles.trackRowPressed, !hasPreview && styles.trackRowDisabled]}
-      onPress={hasPreview ? onPress : undefined}
+      style={({ pressed }) => [styles.trackRow, pressed && styles.trackRowPressed, !isPlayable && styles.trackRowDisabled]}
+      onPress={isPlayable ? onPress : undefined}
+      onLongPress={isPlayable ? onLongPress : undefined}
       testID={`track-row-${index}`}
     >
       <Image
@@ -53,34 +74,54 @@ function TrackRow({ track, index, onPress }: { track: SpotifyTrack; index: numbe
           {track.artists.map((a) => a.name).join(', ')}
         </Text>
       </View>
-      {!hasPreview && (
+      {!isPlayable && (
         <View style={styles.noPreviewBadge}>
-          <Text style={styles.noPreviewText}>No preview</Text>
+          <Text style={styles.noPreviewText}>Unavailable</Text>
         </View>
       )}
     </Pressable>
   );
 }
 
-function AlbumCard({ album }: { album: SpotifyAlbum }) {
+function AlbumCard({ album, onPress, onLongPress }: { album: SpotifyAlbum; onPress: () => void; onLongPress: () => void }) {
   return (
-    <View style={styles.albumCard} testID={`album-card-${album.id}`}>
+    <Pressable style={styles.albumCard} onPress={onPress} onLongPress={onLongPress} testID={`album-card-${album.id}`}>
       <Image source={{ uri: album.images?.[0]?.url }} style={styles.albumArt} />
       <Text style={styles.albumName} numberOfLines={1}>{album.name}</Text>
       <Text style={styles.albumArtist} numberOfLines={1}>
         {album.artists.map((a) => a.name).join(', ')}
       </Text>
-    </View>
+    </Pressable>
+  );
+}
+
+function RecentCard({ entry, onPress }: { entry: HistoryEntry; onPress: () => void }) {
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.recentCard, pressed && styles.forYouItemPressed]}
+      onPress={onPress}
+      testID={`recent-card-${entry.track.id}`}
+    >
+      {entry.track.albumArt ? (
+        <Image source={{ uri: entry.track.albumArt }} style={styles.recentArt} />
+      ) : (
+        <View style={[styles.recentArt, styles.artistImgPlaceholder]}>
+          <Music size={24} color={colors.textMuted} />
+        </View>
+      )}
+      <Text style={styles.albumName} numberOfLines={1}>{entry.track.name}</Text>
+      <Text style={styles.albumArtist} numberOfLines={1}>{entry.track.artistName}</Text>
+    </Pressable>
   );
 }
 
-function PlaylistCard({ playlist }: { playlist: SpotifyPlaylist }) {
+function PlaylistCard({ playlist, onPress, onLongPress }: { playlist: SpotifyPlaylist; onPress: () => void; onLongPress: () => void }) {
   return (
-    <View style={styles.playlistCard} testID={`playlist-card-${playlist.id}`}>
+    <Pressable style={styles.playlistCard} onPress={onPress} onLongPress={onLongPress} testID={`playlist-card-${playlist.id}`}>
       <Image source={{ uri: playlist.images?.[0]?.url }} style={styles.playlistArt} />
       <Text style={styles.playlistName} numberOfLines={2}>{playlist.name}</Text>
       <Text style={styles.playlistOwner} numberOfLines={1}>{playlist.owner.display_name}</Text>
-    </View>
+    </Pressable>
   );
 }
 
@@ -111,27 +152,36 @@ function SectionHeader({ title, icon }: { title: string; icon: React.ReactNode }
 
 export default function HomeScreen() {
   const insets = useSafeAreaInsets();
-  const { playSpotifyTrack, currentTrack } = useMusicPlayer();
+  const { playSpotifyTrack, currentTrack, unplayableTrackIds } = useMusicPlayer();
+  const openQueueMenu = useQueueMenu();
+  const { openAlbumMenu, openPlaylistMenu } = useDownloadActions();
+  const { openAlbum, openPlaylist } = useOpenCollection();
+  const replayEntry = useHistoryReplay();
+  const { recentlyPlayed } = usePlayHistory();
+  const { market } = useRegion();
   const fadeAnim = useRef(new Animated.Value(0)).current;
 
   useEffect(() => {
     Animated.timing(fadeAnim, { toValue: 1, duration: 600, useNativeDriver: true }).start();
   }, [fadeAnim]);
 
-  const newReleasesQuery = useQuery({
-    queryKey: ['newReleases'],
-    queryFn: () => getNewReleases(15),
+  const newReleasesQuery = useInfiniteQuery({
+    queryKey: ['newReleases', market],
+    queryFn: ({ pageParam }) => getNewReleasesPage(pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.next ?? undefined,
     staleTime: 1000 * 60 * 10,
   });
+  const newReleases = newReleasesQuery.data?.pages.flatMap((page) => page.items) ?? [];
 
   const playlistsQuery = useQuery({
-    queryKey: ['featuredPlaylists'],
+    queryKey: ['featuredPlaylists', market],
     queryFn: () => getFeaturedPlaylists(15),
     staleTime: 1000 * 60 * 10,
   });
 
   const recommendationsQuery = useQuery({
-    queryKey: ['recommendations'],
+    queryKey: ['recommendations', market],
     queryFn: () => getRecommendations(['pop', 'hip-hop', 'r-n-b'], 25),
     staleTime: 1000 * 60 * 10,
   });
@@ -159,9 +209,9 @@ export default function HomeScreen() {
     void topArtistsQuery.refetch();
   }, [newReleasesQuery, playlistsQuery, recommendationsQuery, topArtistsQuery]);
 
-  const handleTrackPress = useCallback((track: SpotifyTrack, trackList: SpotifyTrack[]) => {
+  const handleTrackPress = useCallback((track: SpotifyTrack, trackList: SpotifyTrack[], section: string) => {
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    playSpotifyTrack(track, trackList);
+    playSpotifyTrack(track, trackList, { type: 'home', label: section });
   }, [playSpotifyTrack]);
 
   const recommendations = recommendationsQuery.data ?? [];
@@ -200,20 +250,37 @@ export default function HomeScreen() {
             />
           }
         >
+          {recentlyPlayed.length > 0 && (
+            <View style={styles.section}>
+              <SectionHeader title="Recently Played" icon={<History size={18} color={colors.accent} />} />
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
+                {recentlyPlayed.slice(0, RECENTLY_PLAYED_LIMIT).map((entry) => (
+                  <RecentCard
+                    key={entry.id}
+                    entry={entry}
+                    onPress={() => replayEntry(entry, { type: 'home', label: 'Recently Played' })}
+                  />
+                ))}
+              </ScrollView>
+            </View>
+          )}
+
           {recommendations.length > 0 && (
             <View style={styles.section}>
               <SectionHeader title="For You" icon={<TrendingUp size={18} color={colors.accent} />} />
               <View style={styles.forYouGrid}>
                 {recommendations.slice(0, 6).map((track) => {
-                  const hasPreview = !!track.preview_url;
+                  const isPlayable = !unplayableTrackIds.has(track.id);
                   return (
                     <Pressable
                       key={track.id}
                       style={({ pressed }) => [
                         styles.forYouItem,
-                        pressed && hasPreview && styles.forYouItemPressed,
+                        pressed && isPlayable && styles.forYouItemPressed,
+                        !isPlayable && styles.trackRowDisabled,
                       ]}
-                      onPress={hasPreview ? () => handleTrackPress(track, recommendations) : undefined}
+                      onPress={isPlayable ? () => handleTrackPress(track, recommendations, 'For You') : undefined}
+                      onLongPress={isPlayable ? () => openQueueMenu(track) : undefined}
                     >
                       <Image
                         source={{ uri: track.album.images?.[0]?.url }}
@@ -243,14 +310,30 @@ export default function HomeScreen() {
             </View>
           )}
 
-          {(newReleasesQuery.data ?? []).length > 0 && (
+          {newReleases.length > 0 && (
             <View style={styles.section}>
               <SectionHeader title="New Releases" icon={<Disc3 size={18} color={colors.coral} />} />
-              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
-                {(newReleasesQuery.data ?? []).map((album) => (
-                  <AlbumCard key={album.id} album={album} />
-                ))}
-              </ScrollView>
+              <FlatList
+                horizontal
+                data={newReleases}
+                keyExtractor={(album) => album.id}
+                renderItem={({ item }) => (
+                  <AlbumCard album={item} onPress={() => openAlbum(item)} onLongPress={() => openAlbumMenu(item)} />
+                )}
+                onEndReached={() => {
+                  if (newReleasesQuery.hasNextPage && !newReleasesQuery.isFetchingNextPage) {
+                    void newReleasesQuery.fetchNextPage();
+                  }
+                }}
+                onEndReachedThreshold={0.5}
+                ListFooterComponent={
+                  newReleasesQuery.isFetchingNextPage ? (
+                    <ActivityIndicator color={colors.accent} style={styles.horizontalLoading} />
+                  ) : null
+                }
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.horizontalList}
+              />
             </View>
           )}
 
@@ -259,7 +342,12 @@ export default function HomeScreen() {
               <SectionHeader title="Featured Playlists" icon={<Music size={18} color={colors.blue} />} />
               <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
                 {(playlistsQuery.data ?? []).map((pl) => (
-                  <PlaylistCard key={pl.id} playlist={pl} />
+                  <PlaylistCard
+                    key={pl.id}
+                    playlist={pl}
+                    onPress={() => openPlaylist(pl)}
+                    onLongPress={() => openPlaylistMenu(pl)}
+                  />
                 ))}
               </ScrollView>
             </View>
@@ -273,7 +361,9 @@ export default function HomeScreen() {
                   key={track.id}
                   track={track}
                   index={i}
-                  onPress={() => handleTrackPress(track, recommendations)}
+                  isPlayable={!unplayableTrackIds.has(track.id)}
+                  onPress={() => handleTrackPress(track, recommendations, 'Recommended Tracks')}
+                  onLongPress={() => openQueueMenu(track)}
                 />
               ))}
             </View>
@@ -342,6 +432,10 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     gap: 12,
   },
+  horizontalLoading: {
+    width: 60,
+    height: 150,
+  },
   forYouGrid: {
     paddingHorizontal: 20,
     flexDirection: 'row',
@@ -397,6 +491,16 @@ const styles = StyleSheet.create({
     fontSize: 11,
     color: colors.textSecondary,
   },
+  recentCard: {
+    width: 120,
+    gap: 6,
+  },
+  recentArt: {
+    width: 120,
+    height: 120,
+    borderRadius: 10,
+    backgroundColor: colors.surfaceLight,
+  },
   playlistCard: {
     width: 150,
     gap: 6,
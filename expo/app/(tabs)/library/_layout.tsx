@@ -5,6 +5,10 @@ export default function LibraryLayout() {
   return (
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="index" />
+      <Stack.Screen name="history" />
+      <Stack.Screen name="downloads" />
+      <Stack.Screen name="liked" />
+      <Stack.Screen name="region" />
     </Stack>
   );
 }
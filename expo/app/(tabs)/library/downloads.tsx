@@ -0,0 +1,389 @@
+import React, { useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  Image,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import {
+  ChevronLeft,
+  Download,
+  Pause,
+  Play,
+  RotateCcw,
+  CheckCircle2,
+  Trash2,
+  Music,
+} from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { useDownloads, DownloadProgress, CollectionSummary } from '@/providers/DownloadsProvider';
+import { DownloadItem, STORAGE_LIMIT_OPTIONS_BYTES, getOfflineArtUri } from '@/services/downloads';
+import { formatBytes } from '@/utils/format';
+
+const KIND_LABELS: Record<CollectionSummary['collection']['kind'], string> = {
+  track: 'Track',
+  album: 'Album',
+  playlist: 'Playlist',
+  liked: 'Liked Songs',
+};
+
+function statusText(item: DownloadItem, progress: DownloadProgress | undefined): string {
+  switch (item.status) {
+    case 'queued':
+      return 'Waiting…';
+    case 'downloading':
+      if (!progress || progress.bytesTotal <= 0) return 'Downloading…';
+      return `${formatBytes(progress.bytesWritten)} of ${formatBytes(progress.bytesTotal)}`;
+    case 'paused':
+      return 'Paused';
+    case 'failed':
+      return item.error ?? 'Download failed';
+    case 'done':
+      return formatBytes(item.bytesWritten);
+  }
+}
+
+function DownloadRow({
+  item,
+  progress,
+  onPause,
+  onResume,
+  onRetry,
+}: {
+  item: DownloadItem;
+  progress: DownloadProgress | undefined;
+  onPause: () => void;
+  onResume: () => void;
+  onRetry: () => void;
+}) {
+  const art = getOfflineArtUri(item.track.id) ?? item.track.albumArt;
+  const fraction = progress && progress.bytesTotal > 0 ? progress.bytesWritten / progress.bytesTotal : 0;
+
+  return (
+    <View style={styles.row} testID={`download-row-${item.track.id}`}>
+      {art ? (
+        <Image source={{ uri: art }} style={styles.rowArt} />
+      ) : (
+        <View style={[styles.rowArt, styles.rowArtPlaceholder]}>
+          <Music size={16} color={colors.textMuted} />
+        </View>
+      )}
+      <View style={styles.rowMeta}>
+        <Text style={styles.rowTitle} numberOfLines={1}>{item.track.name}</Text>
+        <Text
+          style={[styles.rowStatus, item.status === 'failed' && styles.rowStatusFailed]}
+          numberOfLines={1}
+        >
+          {item.track.artistName} · {statusText(item, progress)}
+        </Text>
+        {item.status === 'downloading' && (
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round(fraction * 100)}%` }]} />
+          </View>
+        )}
+      </View>
+      {(item.status === 'queued' || item.status === 'downloading') && (
+        <Pressable onPress={onPause} hitSlop={8} testID={`download-pause-${item.track.id}`}>
+          <Pause size={18} color={colors.textSecondary} />
+        </Pressable>
+      )}
+      {item.status === 'paused' && (
+        <Pressable onPress={onResume} hitSlop={8} testID={`download-resume-${item.track.id}`}>
+          <Play size={18} color={colors.textSecondary} />
+        </Pressable>
+      )}
+      {item.status === 'failed' && (
+        <Pressable onPress={onRetry} hitSlop={8} testID={`download-retry-${item.track.id}`}>
+          <RotateCcw size={18} color={colors.accent} />
+        </Pressable>
+      )}
+      {item.status === 'done' && <CheckCircle2 size={18} color={colors.accent} />}
+    </View>
+  );
+}
+
+export default function DownloadsScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const {
+    items,
+    collections,
+    progress,
+    usedBytes,
+    storageLimitBytes,
+    activeCount,
+    pauseDownload,
+    resumeDownload,
+    retryDownload,
+    pauseAll,
+    resumeAll,
+    removeCollection,
+    setStorageLimit,
+  } = useDownloads();
+
+  const sortedItems = useMemo(
+    () => Object.values(items).sort((a, b) => a.addedAt - b.addedAt),
+    [items],
+  );
+  const hasStopped = sortedItems.some((item) => item.status === 'paused' || item.status === 'failed');
+
+  const handleRemove = useCallback((summary: CollectionSummary) => {
+    Alert.alert('Remove download', `Delete ${summary.collection.name} from this device?`, [
+      { text: 'Remove', style: 'destructive', onPress: () => removeCollection(summary.collection.id) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [removeCollection]);
+
+  const limitFraction = storageLimitBytes ? Math.min(1, usedBytes / storageLimitBytes) : 0;
+
+  const header = (
+    <View style={styles.headerContent}>
+      <View style={styles.storageCard}>
+        <Text style={styles.storageText}>
+          {formatBytes(usedBytes)} used{storageLimitBytes ? ` of ${formatBytes(storageLimitBytes)}` : ''}
+        </Text>
+        {storageLimitBytes !== null && (
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round(limitFraction * 100)}%` }]} />
+          </View>
+        )}
+        <Text style={styles.storageLabel}>Storage limit</Text>
+        <View style={styles.chips}>
+          {[...STORAGE_LIMIT_OPTIONS_BYTES, null].map((bytes) => {
+            const isActive = storageLimitBytes === bytes;
+            return (
+              <Pressable
+                key={bytes ?? 'none'}
+                style={[styles.chip, isActive && styles.chipActive]}
+                onPress={() => setStorageLimit(bytes)}
+                testID={`downloads-limit-${bytes ?? 'none'}`}
+              >
+                <Text style={[styles.chipText, isActive && styles.chipTextActive]}>
+                  {bytes ? formatBytes(bytes) : 'No limit'}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      </View>
+
+      {collections.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Saved</Text>
+          {collections.map((summary) => (
+            <View key={summary.collection.id} style={styles.collectionRow} testID={`download-collection-${summary.collection.id}`}>
+              <View style={styles.rowMeta}>
+                <Text style={styles.rowTitle} numberOfLines={1}>{summary.collection.name}</Text>
+                <Text style={styles.rowStatus}>
+                  {KIND_LABELS[summary.collection.kind]} · {summary.done}/{summary.total} downloaded
+                  {summary.failed > 0 ? ` · ${summary.failed} failed` : ''}
+                </Text>
+              </View>
+              <Pressable
+                onPress={() => handleRemove(summary)}
+                hitSlop={8}
+                testID={`download-remove-${summary.collection.id}`}
+              >
+                <Trash2 size={18} color={colors.textSecondary} />
+              </Pressable>
+            </View>
+          ))}
+          <Text style={styles.sectionTitle}>Tracks</Text>
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} testID="downloads-back">
+          <ChevronLeft size={24} color={colors.text} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Downloads</Text>
+        {activeCount > 0 ? (
+          <Pressable onPress={pauseAll} hitSlop={8} testID="downloads-pause-all">
+            <Text style={styles.headerAction}>Pause all</Text>
+          </Pressable>
+        ) : hasStopped ? (
+          <Pressable onPress={resumeAll} hitSlop={8} testID="downloads-resume-all">
+            <Text style={styles.headerAction}>Resume all</Text>
+          </Pressable>
+        ) : null}
+      </View>
+
+      <FlatList
+        data={sortedItems}
+        keyExtractor={(item) => item.track.id}
+        renderItem={({ item }) => (
+          <DownloadRow
+            item={item}
+            progress={progress[item.track.id]}
+            onPause={() => void pauseDownload(item.track.id)}
+            onResume={() => resumeDownload(item.track.id)}
+            onRetry={() => retryDownload(item.track.id)}
+          />
+        )}
+        ListHeaderComponent={header}
+        contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + 100 }]}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Download size={40} color={colors.textMuted} />
+            <Text style={styles.emptyText}>
+              Long-press a track, album or playlist to save it for offline listening.
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700' as const,
+    color: colors.text,
+  },
+  headerAction: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: colors.accent,
+  },
+  list: {
+    padding: 20,
+  },
+  headerContent: {
+    gap: 12,
+    marginBottom: 12,
+  },
+  storageCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 10,
+  },
+  storageText: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  storageLabel: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+    color: colors.textMuted,
+    textTransform: 'uppercase',
+    marginTop: 4,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: colors.surfaceLight,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    backgroundColor: colors.accentBg,
+    borderColor: colors.accent,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  chipTextActive: {
+    color: colors.accent,
+    fontWeight: '600' as const,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700' as const,
+    color: colors.text,
+    marginTop: 8,
+  },
+  collectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  rowArt: {
+    width: 44,
+    height: 44,
+    borderRadius: 6,
+  },
+  rowArtPlaceholder: {
+    backgroundColor: colors.surfaceLight,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowMeta: {
+    flex: 1,
+    gap: 3,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  rowStatus: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  rowStatusFailed: {
+    color: colors.error,
+  },
+  progressTrack: {
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: colors.surfaceAccent,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 3,
+    backgroundColor: colors.accent,
+  },
+  empty: {
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 64,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
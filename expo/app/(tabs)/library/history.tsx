@@ -0,0 +1,100 @@
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { ChevronLeft, History } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { usePlayHistory } from '@/providers/PlayHistoryProvider';
+import { useHistoryReplay } from '@/hooks/useHistoryReplay';
+import HistoryRow from '@/components/HistoryRow';
+
+export default function HistoryScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { entries, clearHistory } = usePlayHistory();
+  const replayEntry = useHistoryReplay();
+
+  const handleClear = useCallback(() => {
+    Alert.alert('Clear history', 'Remove everything you have played from this device?', [
+      { text: 'Clear', style: 'destructive', onPress: clearHistory },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [clearHistory]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} testID="history-back">
+          <ChevronLeft size={24} color={colors.text} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Recently Played</Text>
+        {entries.length > 0 && (
+          <Pressable onPress={handleClear} hitSlop={8} testID="history-clear">
+            <Text style={styles.clearText}>Clear</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <FlatList
+        data={entries}
+        keyExtractor={(entry) => entry.id}
+        renderItem={({ item }) => (
+          <HistoryRow entry={item} onPress={() => replayEntry(item, { type: 'history' })} />
+        )}
+        contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + 100 }]}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <History size={40} color={colors.textMuted} />
+            <Text style={styles.emptyText}>Tracks you play will show up here.</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700' as const,
+    color: colors.text,
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: colors.accent,
+  },
+  list: {
+    padding: 20,
+  },
+  empty: {
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 64,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
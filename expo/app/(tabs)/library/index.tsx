@@ -1,4 +1,4 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -6,15 +6,122 @@ import {
   Pressable,
   Animated,
   ScrollView,
+  Image,
+  Alert,
+  ActivityIndicator,
+  Platform,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { FolderOpen, Video, Sparkles } from 'lucide-react-native';
+import { FolderOpen, Video, Sparkles, Music, Plus } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
 import { colors } from '@/constants/colors';
+import { useMusicPlayer } from '@/providers/MusicPlayerProvider';
+import { usePlayHistory } from '@/providers/PlayHistoryProvider';
+import { useSpotifyAuth } from '@/providers/SpotifyAuthProvider';
+import { useHistoryReplay } from '@/hooks/useHistoryReplay';
+import HistoryRow from '@/components/HistoryRow';
+import LastFmCard from '@/components/LastFmCard';
+import SpotifyCard from '@/components/SpotifyCard';
+import JamCard from '@/components/JamCard';
+import DownloadsCard from '@/components/DownloadsCard';
+import SpotifyLibrarySection from '@/components/SpotifyLibrarySection';
+import RegionCard from '@/components/RegionCard';
+import {
+  LocalTrack,
+  getLocalTracks,
+  importLocalAudio,
+  deleteLocalTrack,
+  getLocalCoverUri,
+} from '@/services/localLibrary';
+
+const HISTORY_PREVIEW_LIMIT = 3;
+
+function LocalTrackRow({
+  track,
+  isActive,
+  onPress,
+  onLongPress,
+}: {
+  track: LocalTrack;
+  isActive: boolean;
+  onPress: () => void;
+  onLongPress: () => void;
+}) {
+  const coverUri = getLocalCoverUri(track);
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.trackRow, pressed && styles.trackRowPressed]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      testID={`local-track-${track.id}`}
+    >
+      {coverUri ? (
+        <Image source={{ uri: coverUri }} style={styles.trackThumb} />
+      ) : (
+        <View style={[styles.trackThumb, styles.trackThumbPlaceholder]}>
+          <Music size={18} color={colors.textMuted} />
+        </View>
+      )}
+      <View style={styles.trackMeta}>
+        <Text style={[styles.trackName, isActive && styles.trackNameActive]} numberOfLines={1}>
+          {track.name}
+        </Text>
+        <Text style={styles.trackArtist} numberOfLines={1}>
+          {track.artistName} · {track.albumName}
+        </Text>
+      </View>
+    </Pressable>
+  );
+}
 
 export default function LibraryScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
+  const queryClient = useQueryClient();
+  const { playLocalTrack, currentTrack } = useMusicPlayer();
+  const { entries: historyEntries } = usePlayHistory();
+  const replayEntry = useHistoryReplay();
+  const { isConnected: isSpotifyConnected } = useSpotifyAuth();
+
+  const localTracksQuery = useQuery({
+    queryKey: ['localTracks'],
+    queryFn: getLocalTracks,
+  });
+  const localTracks = localTracksQuery.data ?? [];
+
+  const importMutation = useMutation({
+    mutationFn: importLocalAudio,
+    onSuccess: (imported) => {
+      if (imported.length > 0) void queryClient.invalidateQueries({ queryKey: ['localTracks'] });
+    },
+    onError: (err) => {
+      Alert.alert('Import failed', err instanceof Error ? err.message : 'Could not import audio files');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteLocalTrack,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['localTracks'] }),
+  });
+
+  const handleImport = useCallback(() => {
+    if (Platform.OS === 'web') {
+      Alert.alert('Not available', 'Importing audio files is only supported in the mobile app.');
+      return;
+    }
+    importMutation.mutate();
+  }, [importMutation]);
+
+  const handleTrackLongPress = useCallback((track: LocalTrack) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(track.name, 'Remove this track from your library?', [
+      { text: 'Remove', style: 'destructive', onPress: () => deleteMutation.mutate(track.id) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [deleteMutation]);
+
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.9)).current;
 
@@ -39,6 +146,19 @@ export default function LibraryScreen() {
       <View style={styles.header}>
         <FolderOpen size={24} color={colors.accent} />
         <Text style={styles.headerTitle}>Library</Text>
+        <Pressable
+          style={({ pressed }) => [styles.importBtn, pressed && styles.createBtnPressed]}
+          onPress={handleImport}
+          disabled={importMutation.isPending}
+          testID="import-audio"
+        >
+          {importMutation.isPending ? (
+            <ActivityIndicator size="small" color={colors.bg} />
+          ) : (
+            <Plus size={16} color={colors.bg} />
+          )}
+          <Text style={styles.importBtnText}>Import</Text>
+        </Pressable>
       </View>
 
       <ScrollView
@@ -46,6 +166,86 @@ export default function LibraryScreen() {
         contentContainerStyle={[styles.contentInner, { paddingBottom: insets.bottom + 100 }]}
         showsVerticalScrollIndicator={false}
       >
+        {historyEntries.length > 0 && (
+          <View style={styles.musicSection}>
+            <View style={styles.sectionHeaderRow}>
+              <Text style={styles.sectionTitle}>Recently Played</Text>
+              <Pressable onPress={() => router.push('/library/history')} hitSlop={8} testID="library-history-all">
+                <Text style={styles.seeAllText}>See all</Text>
+              </Pressable>
+            </View>
+            {historyEntries.slice(0, HISTORY_PREVIEW_LIMIT).map((entry) => (
+              <HistoryRow
+                key={entry.id}
+                entry={entry}
+                onPress={() => replayEntry(entry, { type: 'history' })}
+              />
+            ))}
+          </View>
+        )}
+
+        <View style={styles.musicSection}>
+          <Text style={styles.sectionTitle}>Your Music</Text>
+          {localTracksQuery.isLoading ? (
+            <ActivityIndicator color={colors.accent} style={styles.musicLoading} />
+          ) : localTracks.length === 0 ? (
+            <Pressable
+              style={({ pressed }) => [styles.musicEmpty, pressed && styles.trackRowPressed]}
+              onPress={handleImport}
+            >
+              <Music size={22} color={colors.textMuted} />
+              <Text style={styles.musicEmptyText}>
+                Import MP3, M4A, FLAC or WAV files from your device to play them here.
+              </Text>
+            </Pressable>
+          ) : (
+            localTracks.map((track) => (
+              <LocalTrackRow
+                key={track.id}
+                track={track}
+                isActive={currentTrack?.id === track.id}
+                onPress={() => playLocalTrack(track, localTracks, { type: 'library', label: 'Your Music' })}
+                onLongPress={() => handleTrackLongPress(track)}
+              />
+            ))
+          )}
+        </View>
+
+        {isSpotifyConnected && (
+          <View style={styles.musicSection}>
+            <Text style={styles.sectionTitle}>Your Spotify</Text>
+            <SpotifyLibrarySection />
+          </View>
+        )}
+
+        {Platform.OS !== 'web' && (
+          <View style={styles.musicSection}>
+            <Text style={styles.sectionTitle}>Offline</Text>
+            <DownloadsCard />
+          </View>
+        )}
+
+        <View style={styles.musicSection}>
+          <Text style={styles.sectionTitle}>Accounts</Text>
+          <SpotifyCard />
+        </View>
+
+        <View style={styles.musicSection}>
+          <Text style={styles.sectionTitle}>Region</Text>
+          <RegionCard />
+        </View>
+
+        <View style={styles.musicSection}>
+          <Text style={styles.sectionTitle}>Scrobbling</Text>
+          <LastFmCard />
+        </View>
+
+        <View style={styles.musicSection}>
+          <Text style={styles.sectionTitle}>Listen Together</Text>
+          <JamCard />
+        </View>
+
+        <Text style={styles.sectionTitle}>Videos</Text>
         <Animated.View
           style={[
             styles.emptyState,
@@ -106,10 +306,99 @@ const styles = StyleSheet.create({
     borderBottomColor: colors.border,
   },
   headerTitle: {
+    flex: 1,
     fontSize: 20,
     fontWeight: '700' as const,
     color: colors.text,
   },
+  importBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: colors.accent,
+    borderRadius: 20,
+  },
+  importBtnText: {
+    fontSize: 13,
+    fontWeight: '700' as const,
+    color: colors.bg,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700' as const,
+    color: colors.text,
+    marginBottom: 12,
+  },
+  sectionHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+  },
+  seeAllText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: colors.accent,
+  },
+  musicSection: {
+    marginBottom: 28,
+  },
+  musicLoading: {
+    paddingVertical: 20,
+  },
+  musicEmpty: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  musicEmptyText: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  trackRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  trackRowPressed: {
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  trackThumb: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+  },
+  trackThumbPlaceholder: {
+    backgroundColor: colors.surfaceLight,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  trackMeta: {
+    flex: 1,
+  },
+  trackName: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  trackNameActive: {
+    color: colors.accent,
+  },
+  trackArtist: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
   content: {
     flex: 1,
   },
@@ -118,7 +407,7 @@ const styles = StyleSheet.create({
   },
   emptyState: {
     alignItems: 'center',
-    paddingVertical: 48,
+    paddingVertical: 32,
     gap: 14,
   },
   emptyIconWrap: {
@@ -0,0 +1,132 @@
+import React, { useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  RefreshControl,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { ChevronLeft, Heart } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { useMusicPlayer } from '@/providers/MusicPlayerProvider';
+import { useSpotifyLibrary } from '@/hooks/useSpotifyLibrary';
+import { useQueueMenu } from '@/hooks/useQueueMenu';
+import { useDownloadActions } from '@/hooks/useDownloadActions';
+import SpotifyTrackRow from '@/components/SpotifyTrackRow';
+import { SpotifyTrack } from '@/services/spotify';
+import { formatRelativeTime } from '@/utils/format';
+
+export default function LikedSongsScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { library, isRefreshing, refresh } = useSpotifyLibrary();
+  const { playSpotifyTrack, currentTrack, unplayableTrackIds } = useMusicPlayer();
+  const openQueueMenu = useQueueMenu();
+  const { isSupported: canDownload, openLikedSongsMenu } = useDownloadActions();
+
+  const tracks = useMemo(() => library?.savedTracks.map((item) => item.track) ?? [], [library]);
+
+  const handlePress = useCallback((track: SpotifyTrack) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    playSpotifyTrack(track, tracks, { type: 'library', label: 'Liked Songs' });
+  }, [playSpotifyTrack, tracks]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} testID="liked-back">
+          <ChevronLeft size={24} color={colors.text} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Liked Songs</Text>
+        {canDownload && library && tracks.length > 0 && (
+          <Pressable
+            onPress={() => openLikedSongsMenu(library.userId, tracks)}
+            hitSlop={8}
+            testID="liked-download"
+          >
+            <Text style={styles.headerAction}>Offline</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <FlatList
+        data={tracks}
+        keyExtractor={(track) => track.id}
+        renderItem={({ item }) => (
+          <SpotifyTrackRow
+            track={item}
+            isActive={currentTrack?.id === item.id}
+            isPlayable={!unplayableTrackIds.has(item.id)}
+            onPress={() => handlePress(item)}
+            onLongPress={() => openQueueMenu(item)}
+          />
+        )}
+        refreshControl={
+          <RefreshControl refreshing={isRefreshing} onRefresh={() => void refresh()} tintColor={colors.accent} />
+        }
+        ListHeaderComponent={
+          library ? (
+            <Text style={styles.summary}>
+              {tracks.length} {tracks.length === 1 ? 'song' : 'songs'} · Last sync: {formatRelativeTime(library.refreshedAt)}
+            </Text>
+          ) : null
+        }
+        contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + 100 }]}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Heart size={40} color={colors.textMuted} />
+            <Text style={styles.emptyText}>Songs you like on Spotify will show up here.</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700' as const,
+    color: colors.text,
+  },
+  headerAction: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: colors.accent,
+  },
+  list: {
+    padding: 20,
+  },
+  summary: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  empty: {
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 64,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,188 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  TextInput,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Check, ChevronLeft, Search as SearchIcon } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { SPOTIFY_MARKETS, getMarketName } from '@/constants/markets';
+import { useRegion } from '@/providers/RegionProvider';
+
+function RegionRow({
+  title,
+  subtitle,
+  isSelected,
+  onPress,
+  testID,
+}: {
+  title: string;
+  subtitle?: string;
+  isSelected: boolean;
+  onPress: () => void;
+  testID: string;
+}) {
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.row, pressed && styles.rowPressed]}
+      onPress={onPress}
+      testID={testID}
+    >
+      <View style={styles.rowMeta}>
+        <Text style={[styles.rowTitle, isSelected && styles.rowTitleActive]}>{title}</Text>
+        {subtitle && <Text style={styles.rowSubtitle}>{subtitle}</Text>}
+      </View>
+      {isSelected && <Check size={18} color={colors.accent} />}
+    </Pressable>
+  );
+}
+
+export default function RegionScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { market, detectedMarket, isAutomatic, setMarket } = useRegion();
+  const [query, setQuery] = useState('');
+
+  const markets = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return SPOTIFY_MARKETS;
+    return SPOTIFY_MARKETS.filter((m) => m.name.toLowerCase().includes(q) || m.code.toLowerCase() === q);
+  }, [query]);
+
+  const choose = useCallback((code: string | null) => {
+    setMarket(code);
+    router.back();
+  }, [setMarket, router]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} testID="region-back">
+          <ChevronLeft size={24} color={colors.text} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Region</Text>
+      </View>
+
+      <View style={styles.searchBar}>
+        <SearchIcon size={16} color={colors.textMuted} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search countries"
+          placeholderTextColor={colors.textMuted}
+          value={query}
+          onChangeText={setQuery}
+          autoCorrect={false}
+          testID="region-search"
+        />
+      </View>
+
+      <FlatList
+        data={markets}
+        keyExtractor={(m) => m.code}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={
+          query.trim() ? null : (
+            <RegionRow
+              title="Automatic"
+              subtitle={`Use this device’s region (${getMarketName(detectedMarket)})`}
+              isSelected={isAutomatic}
+              onPress={() => choose(null)}
+              testID="region-automatic"
+            />
+          )
+        }
+        renderItem={({ item }) => (
+          <RegionRow
+            title={item.name}
+            isSelected={!isAutomatic && item.code === market}
+            onPress={() => choose(item.code)}
+            testID={`region-${item.code}`}
+          />
+        )}
+        contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + 100 }]}
+        ListEmptyComponent={<Text style={styles.emptyText}>Spotify isn’t available in a country by that name.</Text>}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700' as const,
+    color: colors.text,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 14,
+    paddingHorizontal: 12,
+    height: 40,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text,
+    height: 40,
+  },
+  list: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  rowPressed: {
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  rowMeta: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  rowTitleActive: {
+    color: colors.accent,
+    fontWeight: '600' as const,
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 40,
+  },
+});
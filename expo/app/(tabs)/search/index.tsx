@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -9,21 +9,30 @@ import {
   Image,
   ActivityIndicator,
   Keyboard,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
 import { Search as SearchIcon, X, Music2, User, Disc, ListMusic } from 'lucide-react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import { colors } from '@/constants/colors';
 import { useMusicPlayer } from '@/providers/MusicPlayerProvider';
+import { useRegion } from '@/providers/RegionProvider';
 import {
   search as spotifySearch,
-  getCategories,
+  searchTracksPage,
+  getCategoriesPage,
   SpotifyTrack,
   SpotifyCategory,
 } from '@/services/spotify';
 import MiniPlayer from '@/components/MiniPlayer';
+import { useQueueMenu } from '@/hooks/useQueueMenu';
+import { useOpenCollection } from '@/hooks/useOpenCollection';
+
+// How close to the bottom (in points) scrolling gets before the next page loads.
+const LOAD_MORE_DISTANCE = 400;
 
 const GENRE_COLORS: string[] = [
   '#E13300', '#1DB954', '#8400E7', '#E8115B',
@@ -46,7 +55,10 @@ function CategoryCard({ category, index }: { category: SpotifyCategory; index: n
 
 export default function SearchScreen() {
   const insets = useSafeAreaInsets();
-  const { playSpotifyTrack, currentTrack } = useMusicPlayer();
+  const { playSpotifyTrack, currentTrack, unplayableTrackIds } = useMusicPlayer();
+  const openQueueMenu = useQueueMenu();
+  const { market } = useRegion();
+  const { openAlbum, openPlaylist } = useOpenCollection();
   const [query, setQuery] = useState('');
   const [debouncedQuery, setDebouncedQuery] = useState('');
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -66,26 +78,51 @@ export default function SearchScreen() {
     Keyboard.dismiss();
   }, []);
 
-  const categoriesQuery = useQuery({
-    queryKey: ['categories'],
-    queryFn: () => getCategories(20),
+  const categoriesQuery = useInfiniteQuery({
+    queryKey: ['categories', market],
+    queryFn: ({ pageParam }) => getCategoriesPage(pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.next ?? undefined,
     staleTime: 1000 * 60 * 30,
   });
+  const categories = categoriesQuery.data?.pages.flatMap((page) => page.items) ?? [];
 
+  // Artists, albums and playlists show a first page side by side; songs scroll on through every page.
   const searchQuery = useQuery({
-    queryKey: ['search', debouncedQuery],
-    queryFn: () => spotifySearch(debouncedQuery),
+    queryKey: ['search', debouncedQuery, market],
+    queryFn: () => spotifySearch(debouncedQuery, ['artist', 'album', 'playlist']),
+    enabled: debouncedQuery.length >= 2,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const tracksQuery = useInfiniteQuery({
+    queryKey: ['searchTracks', debouncedQuery, market],
+    queryFn: ({ pageParam }) => searchTracksPage(debouncedQuery, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.next ?? undefined,
     enabled: debouncedQuery.length >= 2,
     staleTime: 1000 * 60 * 5,
   });
+  const tracks = useMemo(
+    () => tracksQuery.data?.pages.flatMap((page) => page.items) ?? [],
+    [tracksQuery.data],
+  );
 
   const handleTrackPress = useCallback((track: SpotifyTrack) => {
     void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    playSpotifyTrack(track, searchQuery.data?.tracks ?? []);
-  }, [playSpotifyTrack, searchQuery.data]);
+    playSpotifyTrack(track, tracks, { type: 'search', label: debouncedQuery });
+  }, [playSpotifyTrack, tracks, debouncedQuery]);
 
-  const hasResults = debouncedQuery.length >= 2 && searchQuery.data;
+  const hasResults = debouncedQuery.length >= 2 && (searchQuery.data || tracksQuery.data);
   const results = searchQuery.data;
+  const isSearching = debouncedQuery.length >= 2 && (searchQuery.isLoading || tracksQuery.isLoading);
+
+  const handleScroll = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = event.nativeEvent;
+    if (layoutMeasurement.height + contentOffset.y < contentSize.height - LOAD_MORE_DISTANCE) return;
+    const list = hasResults ? tracksQuery : categoriesQuery;
+    if (list.hasNextPage && !list.isFetchingNextPage) void list.fetchNextPage();
+  }, [hasResults, tracksQuery, categoriesQuery]);
 
   return (
     <View style={styles.container}>
@@ -119,8 +156,10 @@ export default function SearchScreen() {
         contentContainerStyle={{ paddingBottom: currentTrack ? 100 : insets.bottom + 20 }}
         showsVerticalScrollIndicator={false}
         keyboardShouldPersistTaps="handled"
+        onScroll={handleScroll}
+        scrollEventThrottle={200}
       >
-        {searchQuery.isLoading && debouncedQuery.length >= 2 && (
+        {isSearching && (
           <View style={styles.loadingWrap}>
             <ActivityIndicator color={colors.accent} />
           </View>
@@ -128,30 +167,6 @@ export default function SearchScreen() {
 
         {hasResults && (
           <>
-            {(results?.tracks ?? []).length > 0 && (
-              <View style={styles.resultSection}>
-                <View style={styles.resultHeader}>
-                  <Music2 size={16} color={colors.accent} />
-                  <Text style={styles.resultSectionTitle}>Songs</Text>
-                </View>
-                {(results?.tracks ?? []).map((track) => (
-                  <Pressable
-                    key={track.id}
-                    style={({ pressed }) => [styles.trackRow, pressed && !!track.preview_url && styles.trackRowPressed]}
-                    onPress={track.preview_url ? () => handleTrackPress(track) : undefined}
-                  >
-                    <Image source={{ uri: track.album.images?.[0]?.url }} style={styles.trackThumb} />
-                    <View style={styles.trackMeta}>
-                      <Text style={styles.trackName} numberOfLines={1}>{track.name}</Text>
-                      <Text style={styles.trackArtistName} numberOfLines={1}>
-                        {track.artists.map((a) => a.name).join(', ')}
-                      </Text>
-                    </View>
-                  </Pressable>
-                ))}
-              </View>
-            )}
-
             {(results?.artists ?? []).length > 0 && (
               <View style={styles.resultSection}>
                 <View style={styles.resultHeader}>
@@ -186,13 +201,18 @@ export default function SearchScreen() {
                 </View>
                 <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
                   {(results?.albums ?? []).map((album) => (
-                    <View key={album.id} style={styles.albumResultCard}>
+                    <Pressable
+                      key={album.id}
+                      style={styles.albumResultCard}
+                      onPress={() => openAlbum(album)}
+                      testID={`search-album-${album.id}`}
+                    >
                       <Image source={{ uri: album.images?.[0]?.url }} style={styles.albumResultArt} />
                       <Text style={styles.albumResultName} numberOfLines={1}>{album.name}</Text>
                       <Text style={styles.albumResultArtist} numberOfLines={1}>
                         {album.artists.map((a) => a.name).join(', ')}
                       </Text>
-                    </View>
+                    </Pressable>
                   ))}
                 </ScrollView>
               </View>
@@ -206,28 +226,72 @@ export default function SearchScreen() {
                 </View>
                 <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
                   {(results?.playlists ?? []).map((pl) => (
-                    <View key={pl.id} style={styles.albumResultCard}>
+                    <Pressable
+                      key={pl.id}
+                      style={styles.albumResultCard}
+                      onPress={() => openPlaylist(pl)}
+                      testID={`search-playlist-${pl.id}`}
+                    >
                       <Image source={{ uri: pl.images?.[0]?.url }} style={styles.albumResultArt} />
                       <Text style={styles.albumResultName} numberOfLines={2}>{pl.name}</Text>
                       <Text style={styles.albumResultArtist} numberOfLines={1}>
                         {pl.owner.display_name}
                       </Text>
-                    </View>
+                    </Pressable>
                   ))}
                 </ScrollView>
               </View>
             )}
+
+            {tracks.length > 0 && (
+              <View style={styles.resultSection}>
+                <View style={styles.resultHeader}>
+                  <Music2 size={16} color={colors.accent} />
+                  <Text style={styles.resultSectionTitle}>Songs</Text>
+                </View>
+                {tracks.map((track, i) => {
+                  const isPlayable = !unplayableTrackIds.has(track.id);
+                  return (
+                  <Pressable
+                    // Spotify can repeat a track across pages.
+                    key={`${track.id}-${i}`}
+                    style={({ pressed }) => [
+                      styles.trackRow,
+                      pressed && isPlayable && styles.trackRowPressed,
+                      !isPlayable && styles.trackRowDisabled,
+                    ]}
+                    onPress={isPlayable ? () => handleTrackPress(track) : undefined}
+                    onLongPress={isPlayable ? () => openQueueMenu(track) : undefined}
+                  >
+                    <Image source={{ uri: track.album.images?.[0]?.url }} style={styles.trackThumb} />
+                    <View style={styles.trackMeta}>
+                      <Text style={styles.trackName} numberOfLines={1}>{track.name}</Text>
+                      <Text style={styles.trackArtistName} numberOfLines={1}>
+                        {track.artists.map((a) => a.name).join(', ')}
+                      </Text>
+                    </View>
+                  </Pressable>
+                  );
+                })}
+                {tracksQuery.isFetchingNextPage && (
+                  <ActivityIndicator color={colors.accent} style={styles.loadingMore} />
+                )}
+              </View>
+            )}
           </>
         )}
 
-        {!hasResults && !searchQuery.isLoading && (
+        {!hasResults && !isSearching && (
           <View style={styles.browseSection}>
             <Text style={styles.browseTitle}>Browse All</Text>
             <View style={styles.categoriesGrid}>
-              {(categoriesQuery.data ?? []).map((cat, i) => (
+              {categories.map((cat, i) => (
                 <CategoryCard key={cat.id} category={cat} index={i} />
               ))}
             </View>
+            {categoriesQuery.isFetchingNextPage && (
+              <ActivityIndicator color={colors.accent} style={styles.loadingMore} />
+            )}
           </View>
         )}
       </ScrollView>
@@ -275,6 +339,9 @@ const styles = StyleSheet.create({
     paddingVertical: 40,
     alignItems: 'center',
   },
+  loadingMore: {
+    paddingVertical: 16,
+  },
   resultSection: {
     marginBottom: 24,
   },
@@ -300,6 +367,9 @@ const styles = StyleSheet.create({
   trackRowPressed: {
     backgroundColor: 'rgba(255,255,255,0.04)',
   },
+  trackRowDisabled: {
+    opacity: 0.5,
+  },
   trackThumb: {
     width: 48,
     height: 48,
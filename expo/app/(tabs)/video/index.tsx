@@ -29,7 +29,7 @@ import { useVideoPlayer, VideoView } from 'expo-video';
 import { useMutation } from '@tanstack/react-query';
 import { File, Directory, Paths } from 'expo-file-system';
 import { colors } from '@/constants/colors';
-import { LTX_API_KEY } from '@/constants/api';
+import { apiFetch } from '@/services/api';
 import { useSubscription } from '@/providers/SubscriptionProvider';
 import Paywall from '@/components/Paywall';
 
@@ -50,17 +50,12 @@ async function generateVideo(
 ): Promise<GenerationResult> {
   console.log('Starting generation:', { mode, prompt, duration, resolution });
 
-  if (!LTX_API_KEY) {
-    throw new Error('LTX API key is not configured');
-  }
-
   if (!prompt || !prompt.trim()) {
     throw new Error('Prompt is required');
   }
 
-  const endpoint = mode === 'text-to-video'
-    ? 'https://api.ltx.video/v1/text-to-video'
-    : 'https://api.ltx.video/v1/image-to-video';
+  // The API route adds the LTX key; it never ships with the app.
+  const endpoint = `/api/ltx/${mode}`;
 
   const body: Record<string, unknown> = {
     prompt: prompt.trim(),
@@ -77,10 +72,9 @@ async function generateVideo(
   const requestBody = JSON.stringify(body);
   console.log('Request body:', requestBody);
 
-  const response = await fetch(endpoint, {
+  const response = await apiFetch(endpoint, {
     method: 'POST',
     headers: {
-      'Authorization': `Bearer ${LTX_API_KEY}`,
       'Content-Type': 'application/json',
       'Accept': 'application/octet-stream',
     },
@@ -209,10 +203,6 @@ export default function VideoGenerationScreen() {
       Alert.alert('Missing Prompt', 'Please enter a description for your video');
       return;
     }
-    if (!LTX_API_KEY) {
-      Alert.alert('API Key Required', 'Please configure your LTX API key');
-      return;
-    }
     if (mode === 'image-to-video' && !selectedImage) {
       Alert.alert('Missing Image', 'Please select an image first');
       return;
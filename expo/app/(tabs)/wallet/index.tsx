@@ -13,6 +13,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import { canOpenURL, openURL } from 'expo-linking';
+import { useQuery } from '@tanstack/react-query';
 import {
   Wallet,
   LogOut,
@@ -123,7 +124,8 @@ export default function WalletScreen() {
     }
   }, [user, tokenSymbol, tokenAmount]);
 
-  const configured = isXummConfigured();
+  const configQuery = useQuery({ queryKey: ['xumm-configured'], queryFn: isXummConfigured });
+  const configured = configQuery.data ?? true;
 
   return (
     <View style={styles.container}>
@@ -180,7 +182,7 @@ export default function WalletScreen() {
 
             {!configured && (
               <Text style={styles.configNote}>
-                Xumm API key not configured. Add EXPO_PUBLIC_XUMM_API_KEY to your environment.
+                Xumm is not configured on the server. Set XUMM_API_KEY and XUMM_API_SECRET there.
               </Text>
             )}
           </View>
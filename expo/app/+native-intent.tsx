@@ -1,6 +1,13 @@
+// Jam invites (myapp://jam?code=...) open the jam screen; every other link,
+// including the Spotify sign-in redirect that Android also delivers to the app,
+// lands on home.
+const JAM_LINK = /^(?:[a-z][a-z0-9+.-]*:\/\/)?\/?jam\/?(\?.*)?$/i;
+
 export function redirectSystemPath({
   path,
   initial,
 }: { path: string; initial: boolean }) {
+  const jam = path.match(JAM_LINK);
+  if (jam) return `/jam${jam[1] ?? ''}`;
   return '/';
-}
\ No newline at end of file
+}
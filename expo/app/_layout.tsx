@@ -6,16 +6,47 @@ import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { StatusBar } from "expo-status-bar";
 import { SubscriptionProvider } from "@/providers/SubscriptionProvider";
 import { MusicPlayerProvider } from "@/providers/MusicPlayerProvider";
+import { PlayHistoryProvider } from "@/providers/PlayHistoryProvider";
+import { LastFmProvider } from "@/providers/LastFmProvider";
+import { SpotifyAuthProvider } from "@/providers/SpotifyAuthProvider";
+import { JamProvider } from "@/providers/JamProvider";
+import { DownloadsProvider } from "@/providers/DownloadsProvider";
 import { XummProvider } from "@/providers/XummProvider";
+import { RegionProvider } from "@/providers/RegionProvider";
+import { SpotifyApiError } from "@/services/spotify";
 
 void SplashScreen.preventAutoHideAsync();
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // The Spotify client already retries with backoff; retrying its failures again would multiply requests.
+      retry: (failureCount, error) => !(error instanceof SpotifyApiError) && failureCount < 3,
+    },
+  },
+});
 
 function RootLayoutNav() {
   return (
     <Stack screenOptions={{ headerBackTitle: "Back" }}>
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+      <Stack.Screen
+        name="player"
+        options={{
+          headerShown: false,
+          presentation: "fullScreenModal",
+          animation: "slide_from_bottom",
+        }}
+      />
+      <Stack.Screen
+        name="jam"
+        options={{
+          headerShown: false,
+          presentation: "modal",
+        }}
+      />
+      <Stack.Screen name="collection/[kind]/[id]" options={{ headerShown: false }} />
+      <Stack.Screen name="spotify-auth" options={{ headerShown: false }} />
     </Stack>
   );
 }
@@ -28,14 +59,26 @@ export default function RootLayout() {
   return (
     <QueryClientProvider client={queryClient}>
       <SubscriptionProvider>
-        <MusicPlayerProvider>
-          <XummProvider>
-            <GestureHandlerRootView>
-              <StatusBar style="light" />
-              <RootLayoutNav />
-            </GestureHandlerRootView>
-          </XummProvider>
-        </MusicPlayerProvider>
+        <SpotifyAuthProvider>
+          <PlayHistoryProvider>
+            <LastFmProvider>
+              <DownloadsProvider>
+                <MusicPlayerProvider>
+                  <JamProvider>
+                    <XummProvider>
+                      <RegionProvider>
+                        <GestureHandlerRootView>
+                          <StatusBar style="light" />
+                          <RootLayoutNav />
+                        </GestureHandlerRootView>
+                      </RegionProvider>
+                    </XummProvider>
+                  </JamProvider>
+                </MusicPlayerProvider>
+              </DownloadsProvider>
+            </LastFmProvider>
+          </PlayHistoryProvider>
+        </SpotifyAuthProvider>
       </SubscriptionProvider>
     </QueryClientProvider>
   );
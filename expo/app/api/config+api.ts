@@ -0,0 +1,14 @@
+import { getServerSecret } from '@/server/http';
+import { isLastFmConfigured } from '@/server/lastfm';
+import { isSpotifyConfigured } from '@/server/spotifyToken';
+import { isXummConfigured } from '@/server/xumm';
+
+/** Which proxied services have credentials on this server, so the app can explain what's missing. */
+export function GET(): Response {
+  return Response.json({
+    spotify: isSpotifyConfigured(),
+    ltx: getServerSecret('LTX_API_KEY') !== null,
+    xumm: isXummConfigured(),
+    lastfm: isLastFmConfigured(),
+  });
+}
@@ -0,0 +1,41 @@
+import { jsonError, rateLimited } from '@/server/http';
+import { callLastFm, isLastFmConfigured } from '@/server/lastfm';
+
+// The signed calls the app makes, and how Last.fm expects each to be sent.
+// Anything else is refused so the app's secret can't sign arbitrary methods.
+const ALLOWED_METHODS = new Map<string, 'GET' | 'POST'>([
+  ['auth.getToken', 'GET'],
+  ['auth.getSession', 'GET'],
+  ['track.updateNowPlaying', 'POST'],
+  ['track.scrobble', 'POST'],
+]);
+
+// Parameters the server sets itself; a client can't override them.
+const RESERVED_PARAMS = ['method', 'api_key', 'api_sig', 'format', 'callback'];
+
+/** Signs and forwards a Last.fm auth or scrobbling call with the server's secret. */
+export async function POST(request: Request): Promise<Response> {
+  const limited = rateLimited(request, 'lastfm');
+  if (limited) return limited;
+  if (!isLastFmConfigured()) return jsonError(503, 'Last.fm is not configured on the server');
+
+  const method = new URL(request.url).pathname.split('/').pop() ?? '';
+  const httpMethod = ALLOWED_METHODS.get(method);
+  if (!httpMethod) return jsonError(404, 'Unknown Last.fm method');
+
+  const body = await request.json().catch(() => null) as Record<string, unknown> | null;
+  if (!body || typeof body !== 'object') return jsonError(400, 'Expected a JSON object of parameters');
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (RESERVED_PARAMS.includes(key)) continue;
+    if (typeof value !== 'string') return jsonError(400, `Parameter ${key} must be a string`);
+    params[key] = value;
+  }
+
+  try {
+    return await callLastFm(method, params, httpMethod);
+  } catch (err) {
+    console.error('Last.fm proxy error:', err);
+    return jsonError(502, 'Could not reach Last.fm');
+  }
+}
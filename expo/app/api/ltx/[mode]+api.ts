@@ -0,0 +1,64 @@
+import { getServerSecret, jsonError, rateLimited } from '@/server/http';
+
+const LTX_API_BASE = 'https://api.ltx.video/v1';
+const MODES = ['text-to-video', 'image-to-video'];
+const MAX_PROMPT_LENGTH = 2000;
+
+interface GenerationRequest {
+  prompt: string;
+  model: string;
+  duration: number;
+  resolution: string;
+  fps: number;
+  image_url?: string;
+}
+
+function parseGenerationRequest(body: unknown, mode: string): GenerationRequest | null {
+  if (!body || typeof body !== 'object') return null;
+  const { prompt, model, duration, resolution, fps, image_url } = body as Record<string, unknown>;
+  if (typeof prompt !== 'string' || !prompt.trim() || prompt.length > MAX_PROMPT_LENGTH) return null;
+  if (typeof model !== 'string' || typeof resolution !== 'string') return null;
+  if (typeof duration !== 'number' || typeof fps !== 'number') return null;
+  if (mode === 'image-to-video' && typeof image_url !== 'string') return null;
+  return {
+    prompt: prompt.trim(),
+    model,
+    duration,
+    resolution,
+    fps,
+    ...(typeof image_url === 'string' ? { image_url } : {}),
+  };
+}
+
+/** Forwards a video generation request to LTX with the server's key and streams the result back. */
+export async function POST(request: Request): Promise<Response> {
+  const limited = rateLimited(request, 'ltx');
+  if (limited) return limited;
+  const apiKey = getServerSecret('LTX_API_KEY');
+  if (!apiKey) return jsonError(503, 'Video generation is not configured on the server');
+
+  const mode = new URL(request.url).pathname.split('/').pop() ?? '';
+  if (!MODES.includes(mode)) return jsonError(404, 'Unknown generation mode');
+
+  const body = parseGenerationRequest(await request.json().catch(() => null), mode);
+  if (!body) return jsonError(400, 'Invalid generation request');
+
+  try {
+    const response = await fetch(`${LTX_API_BASE}/${mode}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+        'Accept': request.headers.get('accept') ?? 'application/octet-stream',
+      },
+      body: JSON.stringify(body),
+    });
+    return new Response(response.body, {
+      status: response.status,
+      headers: { 'Content-Type': response.headers.get('content-type') ?? 'application/octet-stream' },
+    });
+  } catch (err) {
+    console.error('LTX proxy error:', err);
+    return jsonError(502, 'Could not reach the video service');
+  }
+}
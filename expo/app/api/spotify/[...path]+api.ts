@@ -0,0 +1,49 @@
+import { jsonError, rateLimited } from '@/server/http';
+import { clearSpotifyAppToken, getSpotifyAppToken, isSpotifyConfigured } from '@/server/spotifyToken';
+
+const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
+
+// Only the public catalogue the app browses; nothing tied to a user account.
+const ALLOWED_ENDPOINTS = [
+  /^search$/,
+  /^browse\/(new-releases|featured-playlists|categories)$/,
+  /^albums\/\w+(\/tracks)?$/,
+  /^artists\/\w+(\/top-tracks)?$/,
+  /^playlists\/\w+\/tracks$/,
+  /^recommendations$/,
+];
+
+/** Proxies Spotify catalogue reads with the server's app token. */
+export async function GET(request: Request): Promise<Response> {
+  const limited = rateLimited(request, 'spotify');
+  if (limited) return limited;
+  if (!isSpotifyConfigured()) return jsonError(503, 'Spotify is not configured on the server');
+
+  const url = new URL(request.url);
+  const endpoint = url.pathname.replace(/^\/api\/spotify\//, '');
+  if (!ALLOWED_ENDPOINTS.some((pattern) => pattern.test(endpoint))) {
+    return jsonError(404, 'Unknown Spotify endpoint');
+  }
+
+  const callSpotify = (token: string) => fetch(`${SPOTIFY_API_BASE}/${endpoint}${url.search}`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+
+  try {
+    let response = await callSpotify(await getSpotifyAppToken());
+    if (response.status === 401) {
+      // Revoked or expired early; one fresh token is worth a retry.
+      clearSpotifyAppToken();
+      response = await callSpotify(await getSpotifyAppToken());
+    }
+    const headers: Record<string, string> = {
+      'Content-Type': response.headers.get('content-type') ?? 'application/json',
+    };
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter) headers['Retry-After'] = retryAfter;
+    return new Response(response.body, { status: response.status, headers });
+  } catch (err) {
+    console.error('Spotify proxy error:', err);
+    return jsonError(502, 'Could not reach Spotify');
+  }
+}
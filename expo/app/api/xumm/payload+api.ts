@@ -0,0 +1,26 @@
+import { jsonError, rateLimited } from '@/server/http';
+import { callXumm, isXummConfigured } from '@/server/xumm';
+
+// The transactions the app asks users to sign; anything else is refused so the
+// app's key can't be used to create arbitrary payloads.
+const ALLOWED_TRANSACTION_TYPES = ['SignIn', 'NFTokenMint', 'Payment'];
+
+/** Creates a Xumm sign request. */
+export async function POST(request: Request): Promise<Response> {
+  const limited = rateLimited(request, 'xumm');
+  if (limited) return limited;
+  if (!isXummConfigured()) return jsonError(503, 'Xumm is not configured on the server');
+
+  const body = await request.json().catch(() => null) as { txjson?: { TransactionType?: unknown } } | null;
+  const type = body?.txjson?.TransactionType;
+  if (typeof type !== 'string' || !ALLOWED_TRANSACTION_TYPES.includes(type)) {
+    return jsonError(400, 'Unsupported transaction type');
+  }
+
+  try {
+    return await callXumm('/payload', { method: 'POST', body: JSON.stringify(body) });
+  } catch (err) {
+    console.error('Xumm proxy error:', err);
+    return jsonError(502, 'Could not reach Xumm');
+  }
+}
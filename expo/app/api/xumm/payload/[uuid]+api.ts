@@ -0,0 +1,30 @@
+import { jsonError, rateLimited } from '@/server/http';
+import { callXumm, isXummConfigured } from '@/server/xumm';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function relay(request: Request, method: 'GET' | 'DELETE'): Promise<Response> {
+  const limited = rateLimited(request, 'xumm');
+  if (limited) return limited;
+  if (!isXummConfigured()) return jsonError(503, 'Xumm is not configured on the server');
+
+  const uuid = new URL(request.url).pathname.split('/').pop() ?? '';
+  if (!UUID_PATTERN.test(uuid)) return jsonError(400, 'Invalid payload id');
+
+  try {
+    return await callXumm(`/payload/${uuid}`, { method });
+  } catch (err) {
+    console.error('Xumm proxy error:', err);
+    return jsonError(502, 'Could not reach Xumm');
+  }
+}
+
+/** Fetches a sign request's status. */
+export function GET(request: Request): Promise<Response> {
+  return relay(request, 'GET');
+}
+
+/** Cancels a sign request. */
+export function DELETE(request: Request): Promise<Response> {
+  return relay(request, 'DELETE');
+}
@@ -0,0 +1,261 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { ChevronLeft, ListMusic, Play } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { useMusicPlayer } from '@/providers/MusicPlayerProvider';
+import { PlayContext } from '@/providers/PlayHistoryProvider';
+import { useRegion } from '@/providers/RegionProvider';
+import { useQueueMenu } from '@/hooks/useQueueMenu';
+import SpotifyTrackRow from '@/components/SpotifyTrackRow';
+import MiniPlayer from '@/components/MiniPlayer';
+import {
+  SpotifyTrack,
+  getAlbumTracks,
+  getAllPlaylistTracks,
+  getPlaylistTracksPage,
+} from '@/services/spotify';
+
+export default function CollectionScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const params = useLocalSearchParams<{
+    kind: 'album' | 'playlist';
+    id: string;
+    name?: string;
+    image?: string;
+    subtitle?: string;
+  }>();
+  const isAlbum = params.kind === 'album';
+  const { playSpotifyTrack, currentTrack, unplayableTrackIds } = useMusicPlayer();
+  const openQueueMenu = useQueueMenu();
+  const { market } = useRegion();
+  const [isStarting, setIsStarting] = useState(false);
+
+  // Albums come back whole from one request; playlists can run to thousands of tracks, so they page.
+  const albumQuery = useQuery({
+    queryKey: ['albumTracks', params.id, market],
+    queryFn: () => getAlbumTracks(params.id),
+    enabled: isAlbum,
+    staleTime: 1000 * 60 * 30,
+  });
+
+  const playlistQuery = useInfiniteQuery({
+    queryKey: ['playlistTracks', params.id, market],
+    queryFn: ({ pageParam }) => getPlaylistTracksPage(params.id, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.next ?? undefined,
+    enabled: !isAlbum,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const tracks = useMemo(
+    () => (isAlbum ? albumQuery.data?.tracks : playlistQuery.data?.pages.flatMap((page) => page.items)) ?? [],
+    [isAlbum, albumQuery.data, playlistQuery.data],
+  );
+  const total = isAlbum ? tracks.length : playlistQuery.data?.pages[0]?.total ?? 0;
+  const isLoading = isAlbum ? albumQuery.isLoading : playlistQuery.isLoading;
+  const error = isAlbum ? albumQuery.error : playlistQuery.error;
+  const name = params.name || albumQuery.data?.album.name || '';
+  const image = params.image || albumQuery.data?.album.images?.[0]?.url;
+  const context = useMemo<PlayContext>(() => ({ type: isAlbum ? 'album' : 'playlist', label: name }), [isAlbum, name]);
+
+  const handleTrackPress = useCallback((track: SpotifyTrack) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    playSpotifyTrack(track, tracks, context);
+  }, [playSpotifyTrack, tracks, context]);
+
+  const handlePlay = useCallback(async () => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    let queue = tracks;
+    if (!isAlbum && playlistQuery.hasNextPage) {
+      // Queue the whole playlist, not just the pages scrolled through so far.
+      setIsStarting(true);
+      try {
+        queue = await getAllPlaylistTracks(params.id);
+      } catch (err) {
+        console.error('Failed to load playlist to play:', err);
+        Alert.alert('Playback failed', `Couldn't load ${name}.`);
+        return;
+      } finally {
+        setIsStarting(false);
+      }
+    }
+    const playable = queue.filter((t) => !unplayableTrackIds.has(t.id));
+    if (playable.length > 0) playSpotifyTrack(playable[0], playable, context);
+  }, [tracks, isAlbum, playlistQuery.hasNextPage, params.id, name, unplayableTrackIds, playSpotifyTrack, context]);
+
+  const handleEndReached = useCallback(() => {
+    if (!isAlbum && playlistQuery.hasNextPage && !playlistQuery.isFetchingNextPage) {
+      void playlistQuery.fetchNextPage();
+    }
+  }, [isAlbum, playlistQuery]);
+
+  const header = (
+    <View style={styles.hero}>
+      {image ? (
+        <Image source={{ uri: image }} style={styles.heroArt} />
+      ) : (
+        <View style={[styles.heroArt, styles.heroArtPlaceholder]}>
+          <ListMusic size={40} color={colors.textMuted} />
+        </View>
+      )}
+      <Text style={styles.heroName} numberOfLines={2}>{name}</Text>
+      {!!params.subtitle && <Text style={styles.heroSubtitle} numberOfLines={1}>{params.subtitle}</Text>}
+      <View style={styles.heroActions}>
+        <Text style={styles.heroCount}>
+          {total > 0 ? `${total} ${total === 1 ? 'song' : 'songs'}` : ''}
+        </Text>
+        <Pressable
+          style={({ pressed }) => [styles.playBtn, pressed && styles.playBtnPressed]}
+          onPress={() => void handlePlay()}
+          disabled={tracks.length === 0 || isStarting}
+          testID="collection-play"
+        >
+          {isStarting ? (
+            <ActivityIndicator size="small" color={colors.bg} />
+          ) : (
+            <Play size={20} color={colors.bg} fill={colors.bg} />
+          )}
+        </Pressable>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <Pressable onPress={() => router.back()} hitSlop={12} testID="collection-back">
+          <ChevronLeft size={24} color={colors.text} />
+        </Pressable>
+        <Text style={styles.headerTitle} numberOfLines={1}>{name}</Text>
+      </View>
+
+      <FlatList
+        data={tracks}
+        keyExtractor={(track, index) => `${track.id}-${index}`}
+        renderItem={({ item }) => (
+          <SpotifyTrackRow
+            track={item}
+            isActive={currentTrack?.id === item.id}
+            isPlayable={!unplayableTrackIds.has(item.id)}
+            onPress={() => handleTrackPress(item)}
+            onLongPress={() => openQueueMenu(item)}
+          />
+        )}
+        ListHeaderComponent={header}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          playlistQuery.isFetchingNextPage ? <ActivityIndicator color={colors.accent} style={styles.footer} /> : null
+        }
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator color={colors.accent} style={styles.footer} />
+          ) : (
+            <Text style={styles.emptyText}>
+              {error ? "Couldn't load these tracks." : 'No tracks here yet.'}
+            </Text>
+          )
+        }
+        contentContainerStyle={[styles.list, { paddingBottom: insets.bottom + 100 }]}
+      />
+
+      <MiniPlayer />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700' as const,
+    color: colors.text,
+  },
+  list: {
+    padding: 20,
+  },
+  hero: {
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 16,
+  },
+  heroArt: {
+    width: 200,
+    height: 200,
+    borderRadius: 12,
+    backgroundColor: colors.surfaceLight,
+    marginBottom: 8,
+  },
+  heroArtPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  heroName: {
+    fontSize: 22,
+    fontWeight: '800' as const,
+    color: colors.text,
+    textAlign: 'center',
+  },
+  heroSubtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  heroActions: {
+    alignSelf: 'stretch',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  heroCount: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  playBtn: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: colors.accent,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playBtnPressed: {
+    opacity: 0.85,
+  },
+  footer: {
+    paddingVertical: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 40,
+  },
+});
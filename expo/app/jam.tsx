@@ -0,0 +1,508 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Image,
+  ActivityIndicator,
+  Share,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { createURL } from 'expo-linking';
+import { ChevronDown, Crown, Share2, SkipForward, Play, Pause, X, Users } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { useJam } from '@/providers/JamProvider';
+import { useMusicPlayer } from '@/providers/MusicPlayerProvider';
+import { JAM_CODE_LENGTH, JamQueueItem, getCurrentJamItem, isJamCode } from '@/services/jamProtocol';
+
+function JamQueueRow({
+  item,
+  isCurrent,
+  addedBy,
+  onPress,
+  onRemove,
+}: {
+  item: JamQueueItem;
+  isCurrent: boolean;
+  addedBy: string;
+  onPress?: () => void;
+  onRemove?: () => void;
+}) {
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.queueRow, pressed && onPress && styles.pressed]}
+      onPress={onPress}
+      disabled={!onPress}
+      testID={`jam-queue-${item.id}`}
+    >
+      {item.track.albumArt ? (
+        <Image source={{ uri: item.track.albumArt }} style={styles.queueThumb} />
+      ) : (
+        <View style={styles.queueThumb} />
+      )}
+      <View style={styles.queueMeta}>
+        <Text style={[styles.queueName, isCurrent && styles.queueNameActive]} numberOfLines={1}>
+          {item.track.name}
+        </Text>
+        <Text style={styles.queueDetail} numberOfLines={1}>
+          {item.track.artistName} · added by {addedBy}
+        </Text>
+      </View>
+      {onRemove && (
+        <Pressable onPress={onRemove} hitSlop={8} style={styles.rowBtn} testID={`jam-remove-${item.id}`}>
+          <X size={18} color={colors.textSecondary} />
+        </Pressable>
+      )}
+    </Pressable>
+  );
+}
+
+export default function JamScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ code?: string }>();
+  const {
+    room,
+    memberId,
+    isHost,
+    status,
+    error,
+    displayName,
+    skipVotesNeeded,
+    createJam,
+    joinJam,
+    leaveJam,
+    voteSkip,
+    playIndex,
+    removeItem,
+    clearError,
+  } = useJam();
+  const { togglePlayPause, skipNext } = useMusicPlayer();
+  const [name, setName] = useState(displayName);
+  const [code, setCode] = useState(typeof params.code === 'string' ? params.code.toUpperCase() : '');
+
+  // The stored name loads after first render.
+  useEffect(() => {
+    setName((prev) => prev || displayName);
+  }, [displayName]);
+
+  const dismiss = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/');
+    }
+  }, [router]);
+
+  const shareInvite = useCallback(() => {
+    if (!room) return;
+    const link = createURL('jam', { queryParams: { code: room.code } });
+    Share.share({ message: `Join my jam on FMEO JAMs with code ${room.code}: ${link}` })
+      .catch((err) => console.warn('Share failed:', err));
+  }, [room]);
+
+  const isConnecting = status === 'connecting' || (status === 'reconnecting' && !room);
+  const canJoin = isJamCode(code) && !isConnecting;
+
+  const memberName = (id: string) => room?.members.find((m) => m.id === id)?.name ?? 'Someone who left';
+  const currentItem = room ? getCurrentJamItem(room) : null;
+  const hasVoted = !!room && !!memberId && room.skipVotes.includes(memberId);
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 8 }]}>
+        <Pressable onPress={dismiss} hitSlop={12} style={styles.headerBtn} testID="jam-dismiss">
+          <ChevronDown size={26} color={colors.text} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Jam</Text>
+        <View style={styles.headerBtn} />
+      </View>
+
+      <ScrollView
+        style={styles.scroll}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 24 }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        {error && (
+          <Pressable onPress={clearError} style={styles.errorBanner} testID="jam-error">
+            <Text style={styles.errorText}>{error}</Text>
+          </Pressable>
+        )}
+
+        {!room ? (
+          <>
+            <Text style={styles.intro}>
+              Everyone in a jam hears the same queue at the same moment. The host controls playback;
+              anyone can add tracks and vote to skip.
+            </Text>
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Your name</Text>
+              <TextInput
+                style={styles.input}
+                value={name}
+                onChangeText={setName}
+                placeholder="How others see you"
+                placeholderTextColor={colors.textMuted}
+                maxLength={40}
+                testID="jam-name-input"
+              />
+            </View>
+
+            <Pressable
+              style={({ pressed }) => [styles.primaryBtn, pressed && styles.pressed, isConnecting && styles.disabled]}
+              onPress={() => createJam(name)}
+              disabled={isConnecting}
+              testID="jam-create"
+            >
+              {isConnecting ? (
+                <ActivityIndicator color={colors.bg} />
+              ) : (
+                <Text style={styles.primaryBtnText}>Start a jam</Text>
+              )}
+            </Pressable>
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Or join with a code</Text>
+              <View style={styles.joinRow}>
+                <TextInput
+                  style={[styles.input, styles.codeInput]}
+                  value={code}
+                  onChangeText={(text) => setCode(text.toUpperCase())}
+                  placeholder={'X'.repeat(JAM_CODE_LENGTH)}
+                  placeholderTextColor={colors.textMuted}
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                  maxLength={JAM_CODE_LENGTH}
+                  testID="jam-code-input"
+                />
+                <Pressable
+                  style={({ pressed }) => [styles.secondaryBtn, pressed && styles.pressed, !canJoin && styles.disabled]}
+                  onPress={() => joinJam(code, name)}
+                  disabled={!canJoin}
+                  testID="jam-join"
+                >
+                  <Text style={styles.secondaryBtnText}>Join</Text>
+                </Pressable>
+              </View>
+            </View>
+          </>
+        ) : (
+          <>
+            <View style={styles.codeCard}>
+              <View style={styles.codeMeta}>
+                <Text style={styles.label}>Jam code</Text>
+                <Text style={styles.code} selectable>{room.code}</Text>
+                {status === 'reconnecting' && <Text style={styles.hint}>Reconnecting…</Text>}
+              </View>
+              <Pressable onPress={shareInvite} hitSlop={8} style={styles.shareBtn} testID="jam-share">
+                <Share2 size={18} color={colors.text} />
+                <Text style={styles.shareText}>Invite</Text>
+              </Pressable>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Now playing</Text>
+              {currentItem ? (
+                <JamQueueRow item={currentItem} isCurrent addedBy={memberName(currentItem.addedBy)} />
+              ) : (
+                <Text style={styles.hint}>
+                  Nothing yet. Play a track from Search or your Library and it joins the jam queue.
+                </Text>
+              )}
+              <View style={styles.controls}>
+                {isHost ? (
+                  <>
+                    <Pressable
+                      style={({ pressed }) => [styles.controlBtn, pressed && styles.pressed]}
+                      onPress={togglePlayPause}
+                      testID="jam-play-pause"
+                    >
+                      {room.playback.isPlaying ? (
+                        <Pause size={20} color={colors.bg} fill={colors.bg} />
+                      ) : (
+                        <Play size={20} color={colors.bg} fill={colors.bg} />
+                      )}
+                    </Pressable>
+                    <Pressable
+                      style={({ pressed }) => [styles.secondaryBtn, pressed && styles.pressed]}
+                      onPress={skipNext}
+                      testID="jam-skip"
+                    >
+                      <SkipForward size={16} color={colors.text} />
+                      <Text style={styles.secondaryBtnText}>Skip</Text>
+                    </Pressable>
+                  </>
+                ) : currentItem ? (
+                  <Pressable
+                    style={({ pressed }) => [styles.secondaryBtn, pressed && styles.pressed, hasVoted && styles.disabled]}
+                    onPress={voteSkip}
+                    disabled={hasVoted}
+                    testID="jam-vote-skip"
+                  >
+                    <SkipForward size={16} color={colors.text} />
+                    <Text style={styles.secondaryBtnText}>
+                      {hasVoted ? 'Voted' : 'Vote to skip'} · {room.skipVotes.length}/{skipVotesNeeded}
+                    </Text>
+                  </Pressable>
+                ) : null}
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Queue</Text>
+              {room.queue.length === 0 ? (
+                <Text style={styles.hint}>The queue is empty.</Text>
+              ) : (
+                room.queue.map((item, index) => {
+                  const isCurrent = index === room.playback.index;
+                  return (
+                    <JamQueueRow
+                      key={item.id}
+                      item={item}
+                      isCurrent={isCurrent}
+                      addedBy={memberName(item.addedBy)}
+                      onPress={isHost ? () => playIndex(index) : undefined}
+                      onRemove={isHost && !isCurrent ? () => removeItem(item.id) : undefined}
+                    />
+                  );
+                })
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.label}>Listening · {room.members.length}</Text>
+              {room.members.map((member) => (
+                <View key={member.id} style={styles.memberRow}>
+                  {member.id === room.hostId ? (
+                    <Crown size={16} color={colors.accent} />
+                  ) : (
+                    <Users size={16} color={colors.textMuted} />
+                  )}
+                  <Text style={styles.memberName}>
+                    {member.name}{member.id === memberId ? ' (you)' : ''}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            <Pressable onPress={leaveJam} hitSlop={8} style={styles.leaveBtn} testID="jam-leave">
+              <Text style={styles.leaveText}>Leave jam</Text>
+            </Pressable>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  headerBtn: {
+    width: 36,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '700' as const,
+    color: colors.text,
+  },
+  scroll: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingTop: 8,
+    gap: 24,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  section: {
+    gap: 10,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '600' as const,
+    color: colors.textSecondary,
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.textMuted,
+    lineHeight: 18,
+  },
+  input: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: colors.text,
+  },
+  joinRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  codeInput: {
+    flex: 1,
+    letterSpacing: 4,
+    fontWeight: '600' as const,
+  },
+  primaryBtn: {
+    backgroundColor: colors.accent,
+    borderRadius: 24,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  primaryBtnText: {
+    fontSize: 15,
+    fontWeight: '700' as const,
+    color: colors.bg,
+  },
+  secondaryBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: colors.surfaceLight,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  secondaryBtnText: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  pressed: {
+    opacity: 0.85,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  errorBanner: {
+    backgroundColor: colors.accentBg,
+    borderRadius: 12,
+    padding: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: colors.error,
+    lineHeight: 18,
+  },
+  codeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 16,
+  },
+  codeMeta: {
+    flex: 1,
+    gap: 4,
+  },
+  code: {
+    fontSize: 28,
+    fontWeight: '700' as const,
+    color: colors.text,
+    letterSpacing: 6,
+  },
+  shareBtn: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  shareText: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  controlBtn: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.accent,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  queueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 12,
+  },
+  queueThumb: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+    backgroundColor: colors.surfaceLight,
+  },
+  queueMeta: {
+    flex: 1,
+    gap: 2,
+  },
+  queueName: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  queueNameActive: {
+    color: colors.accent,
+  },
+  queueDetail: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  rowBtn: {
+    width: 32,
+    height: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  memberName: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  leaveBtn: {
+    alignSelf: 'center',
+    paddingVertical: 8,
+  },
+  leaveText: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: colors.error,
+  },
+});
@@ -0,0 +1,867 @@
+import React, { useRef, useEffect, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Image,
+  ScrollView,
+  Animated,
+  Alert,
+  Platform,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { LinearGradient } from 'expo-linear-gradient';
+import * as Haptics from 'expo-haptics';
+import {
+  ChevronDown,
+  Play,
+  Pause,
+  SkipForward,
+  SkipBack,
+  Music,
+  Shuffle,
+  Repeat,
+  Repeat1,
+  ChevronUp,
+  X,
+  Moon,
+  SlidersHorizontal,
+  MicVocal,
+  Users,
+  Radio,
+} from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import {
+  useMusicPlayer,
+  PlayerTrack,
+  CROSSFADE_OPTIONS_MS,
+  PLAYBACK_RATE_OPTIONS,
+} from '@/providers/MusicPlayerProvider';
+import ProgressScrubber from '@/components/ProgressScrubber';
+import VolumeSlider from '@/components/VolumeSlider';
+import AudioVisualizer from '@/components/AudioVisualizer';
+import EqualizerPanel from '@/components/EqualizerPanel';
+import LyricsView from '@/components/LyricsView';
+import { useJam } from '@/providers/JamProvider';
+import { useDownloads } from '@/providers/DownloadsProvider';
+import { getOfflineArtUri } from '@/services/downloads';
+import { getLyrics, importLyricsFile } from '@/services/lyrics';
+import { formatTime } from '@/utils/format';
+import { SleepTimerOption, SLEEP_TIMER_MINUTES } from '@/utils/sleepTimer';
+import { SavedLoop } from '@/utils/abLoop';
+
+const SWIPE_SKIP_DISTANCE = 80;
+const SWIPE_DISMISS_DISTANCE = 120;
+const UP_NEXT_LIMIT = 20;
+
+const SLEEP_OPTIONS: { label: string; value: SleepTimerOption }[] = [
+  ...SLEEP_TIMER_MINUTES.map((minutes) => ({ label: `${minutes}m`, value: minutes })),
+  { label: 'End of track', value: 'endOfTrack' },
+  { label: 'End of queue', value: 'endOfQueue' },
+];
+
+function QueueRow({
+  track,
+  canMoveUp,
+  onMoveUp,
+  onRemove,
+}: {
+  track: PlayerTrack;
+  canMoveUp: boolean;
+  onMoveUp: () => void;
+  onRemove: () => void;
+}) {
+  return (
+    <View style={styles.upNextRow}>
+      {track.albumArt ? (
+        <Image source={{ uri: track.albumArt }} style={styles.upNextThumb} />
+      ) : (
+        <View style={[styles.upNextThumb, styles.albumArtPlaceholder]} />
+      )}
+      <View style={styles.upNextMeta}>
+        <Text style={styles.upNextName} numberOfLines={1}>{track.name}</Text>
+        <View style={styles.upNextArtistRow}>
+          {track.context?.type === 'autoplay' && <Radio size={12} color={colors.accent} />}
+          <Text style={styles.upNextArtist} numberOfLines={1}>{track.artistName}</Text>
+        </View>
+      </View>
+      <Pressable
+        onPress={canMoveUp ? onMoveUp : undefined}
+        hitSlop={8}
+        style={[styles.rowBtn, !canMoveUp && styles.rowBtnDisabled]}
+      >
+        <ChevronUp size={18} color={colors.textSecondary} />
+      </Pressable>
+      <Pressable onPress={onRemove} hitSlop={8} style={styles.rowBtn}>
+        <X size={18} color={colors.textSecondary} />
+      </Pressable>
+    </View>
+  );
+}
+
+export default function NowPlayingScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { width } = useWindowDimensions();
+  const { room: jamRoom } = useJam();
+  const downloads = useDownloads();
+  const {
+    currentTrack,
+    isPlaying,
+    position,
+    duration,
+    queue,
+    queueIndex,
+    userQueue,
+    shuffleEnabled,
+    repeatMode,
+    crossfadeMs,
+    playbackRate,
+    volume,
+    normalizeVolume,
+    autoplay,
+    isAutoplayLoading,
+    sleepTimer,
+    sleepRemainingMs,
+    abLoop,
+    savedLoops,
+    equalizerSupported,
+    visualizerSupported,
+    eqGainsDb,
+    eqPreset,
+    togglePlayPause,
+    skipNext,
+    skipPrevious,
+    seekTo,
+    toggleShuffle,
+    cycleRepeatMode,
+    moveQueueItem,
+    removeQueueItem,
+    clearUpcoming,
+    setCrossfadeDuration,
+    setPlaybackRate,
+    setVolume,
+    setNormalizeVolume,
+    setAutoplay,
+    setEqPreset,
+    setEqBandGain,
+    readVisualizerData,
+    startSleepTimer,
+    cancelSleepTimer,
+    setLoopStart,
+    setLoopEnd,
+    clearLoop,
+    saveCurrentLoop,
+    applySavedLoop,
+    removeSavedLoop,
+  } = useMusicPlayer();
+
+  const queryClient = useQueryClient();
+  const lyricsQuery = useQuery({
+    queryKey: ['lyrics', currentTrack?.id],
+    queryFn: () => getLyrics(currentTrack!),
+    enabled: !!currentTrack,
+  });
+
+  const importLyricsMutation = useMutation({
+    mutationFn: importLyricsFile,
+    onSuccess: (imported, trackId) => {
+      if (imported) void queryClient.invalidateQueries({ queryKey: ['lyrics', trackId] });
+    },
+    onError: (err) => {
+      Alert.alert('Import failed', err instanceof Error ? err.message : 'Could not import lyrics');
+    },
+  });
+
+  const translateX = useRef(new Animated.Value(0)).current;
+  const translateY = useRef(new Animated.Value(0)).current;
+  const artSize = Math.min(width - 48, 360);
+
+  const upNext = useMemo(
+    () => queue.slice(queueIndex + 1, queueIndex + 1 + UP_NEXT_LIMIT),
+    [queue, queueIndex]
+  );
+  const hasUpcoming = userQueue.length > 0 || upNext.length > 0;
+  const firstAutoplayIndex = upNext.findIndex((t) => t.context?.type === 'autoplay');
+
+  const downloadItem = currentTrack ? downloads.items[currentTrack.id] : undefined;
+  const canDownload = downloads.isSupported && currentTrack?.source?.kind !== 'file' && currentTrack?.source?.kind !== 'hls';
+  const downloadLabel = !downloadItem ? 'Download' : {
+    queued: 'Downloading…',
+    downloading: 'Downloading…',
+    paused: 'Resume',
+    failed: 'Retry',
+    done: 'Saved',
+  }[downloadItem.status];
+
+  const handleSavedLoopLongPress = useCallback((loop: SavedLoop) => {
+    Alert.alert(loop.name, 'Delete this saved loop?', [
+      { text: 'Delete', style: 'destructive', onPress: () => removeSavedLoop(loop.id) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [removeSavedLoop]);
+
+  const handleDownloadPress = useCallback(() => {
+    if (!currentTrack) return;
+    if (!downloadItem) {
+      downloads.downloadTrack(currentTrack);
+    } else if (downloadItem.status === 'paused') {
+      downloads.resumeDownload(currentTrack.id);
+    } else if (downloadItem.status === 'failed') {
+      downloads.retryDownload(currentTrack.id);
+    } else if (downloadItem.status !== 'done') {
+      void downloads.pauseDownload(currentTrack.id);
+    }
+  }, [currentTrack, downloadItem, downloads]);
+
+  useEffect(() => {
+    if (!currentTrack && router.canGoBack()) {
+      router.back();
+    }
+  }, [currentTrack, router]);
+
+  const dismiss = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/');
+    }
+  }, [router]);
+
+  const resetArt = useCallback(() => {
+    Animated.parallel([
+      Animated.spring(translateX, { toValue: 0, tension: 80, friction: 12, useNativeDriver: true }),
+      Animated.spring(translateY, { toValue: 0, tension: 80, friction: 12, useNativeDriver: true }),
+    ]).start();
+  }, [translateX, translateY]);
+
+  const handleSwipeEnd = useCallback((dx: number, dy: number) => {
+    if (dy > SWIPE_DISMISS_DISTANCE && Math.abs(dy) > Math.abs(dx)) {
+      dismiss();
+      return;
+    }
+    if (Math.abs(dx) > SWIPE_SKIP_DISTANCE) {
+      void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      if (dx < 0) {
+        skipNext();
+      } else {
+        skipPrevious();
+      }
+    }
+  }, [dismiss, skipNext, skipPrevious]);
+
+  const swipeGesture = useMemo(() => {
+    return Gesture.Pan()
+      .runOnJS(true)
+      .activeOffsetX([-15, 15])
+      .activeOffsetY([-15, 15])
+      .onUpdate((e) => {
+        if (Math.abs(e.translationX) > Math.abs(e.translationY)) {
+          translateX.setValue(e.translationX);
+        } else if (e.translationY > 0) {
+          translateY.setValue(e.translationY);
+        }
+      })
+      .onEnd((e) => handleSwipeEnd(e.translationX, e.translationY))
+      .onFinalize(resetArt);
+  }, [translateX, translateY, handleSwipeEnd, resetArt]);
+
+  if (!currentTrack) {
+    return (
+      <View style={[styles.container, styles.emptyContainer]}>
+        <Music size={40} color={colors.textMuted} />
+        <Text style={styles.emptyText}>Nothing is playing</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient colors={['#2A0A0D', '#121212', '#0A0A0A']} style={StyleSheet.absoluteFillObject} />
+
+      <View style={[styles.header, { paddingTop: insets.top + 8 }]}>
+        <Pressable onPress={dismiss} hitSlop={12} style={styles.headerBtn} testID="now-playing-dismiss">
+          <ChevronDown size={26} color={colors.text} />
+        </Pressable>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerLabel}>{jamRoom ? `Jam · ${jamRoom.code}` : 'Now Playing'}</Text>
+          <Text style={styles.headerAlbum} numberOfLines={1}>{currentTrack.albumName}</Text>
+        </View>
+        <Pressable onPress={() => router.push('/jam')} hitSlop={12} style={styles.headerBtn} testID="now-playing-jam">
+          <Users size={22} color={jamRoom ? colors.accent : colors.text} />
+        </Pressable>
+      </View>
+
+      <ScrollView
+        style={styles.scroll}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 24 }]}
+        showsVerticalScrollIndicator={false}
+      >
+        <GestureDetector gesture={swipeGesture}>
+          <Animated.View
+            style={[
+              styles.artWrap,
+              { transform: [{ translateX }, { translateY }] },
+            ]}
+          >
+            {currentTrack.albumArt ? (
+              <Image
+                source={{ uri: getOfflineArtUri(currentTrack.id) ?? currentTrack.albumArt }}
+                style={[styles.albumArt, { width: artSize, height: artSize }]}
+              />
+            ) : (
+              <View style={[styles.albumArt, styles.albumArtPlaceholder, { width: artSize, height: artSize }]}>
+                <Music size={64} color={colors.textMuted} />
+              </View>
+            )}
+          </Animated.View>
+        </GestureDetector>
+
+        <View style={styles.trackInfo}>
+          <Text style={styles.trackName} numberOfLines={2}>{currentTrack.name}</Text>
+          <Text style={styles.artistName} numberOfLines={1}>{currentTrack.artistName}</Text>
+        </View>
+
+        {visualizerSupported && (
+          <AudioVisualizer isPlaying={isPlaying} readData={readVisualizerData} />
+        )}
+
+        <ProgressScrubber position={position} duration={duration} onSeek={seekTo} loop={abLoop} />
+
+        <View style={styles.controls}>
+          <Pressable onPress={toggleShuffle} hitSlop={12} style={styles.modeBtn} testID="now-playing-shuffle">
+            <Shuffle size={20} color={shuffleEnabled ? colors.accent : colors.textSecondary} />
+          </Pressable>
+          <Pressable onPress={skipPrevious} hitSlop={12} style={styles.controlBtn} testID="now-playing-previous">
+            <SkipBack size={30} color={colors.text} fill={colors.text} />
+          </Pressable>
+          <Pressable onPress={togglePlayPause} style={styles.playBtn} testID="now-playing-toggle">
+            {isPlaying ? (
+              <Pause size={30} color={colors.bg} fill={colors.bg} />
+            ) : (
+              <Play size={30} color={colors.bg} fill={colors.bg} />
+            )}
+          </Pressable>
+          <Pressable onPress={skipNext} hitSlop={12} style={styles.controlBtn} testID="now-playing-next">
+            <SkipForward size={30} color={colors.text} fill={colors.text} />
+          </Pressable>
+          <Pressable onPress={cycleRepeatMode} hitSlop={12} style={styles.modeBtn} testID="now-playing-repeat">
+            {repeatMode === 'one' ? (
+              <Repeat1 size={20} color={colors.accent} />
+            ) : (
+              <Repeat size={20} color={repeatMode === 'all' ? colors.accent : colors.textSecondary} />
+            )}
+          </Pressable>
+        </View>
+
+        <VolumeSlider value={volume} onChange={setVolume} />
+
+        <View style={styles.lyricsSection}>
+          <View style={styles.settingRow}>
+            <View style={styles.sleepLabel}>
+              <MicVocal size={14} color={colors.textSecondary} />
+              <Text style={styles.settingLabel}>Lyrics</Text>
+            </View>
+            {Platform.OS !== 'web' && (
+              <Pressable
+                onPress={() => importLyricsMutation.mutate(currentTrack.id)}
+                disabled={importLyricsMutation.isPending}
+                hitSlop={8}
+                testID="now-playing-import-lyrics"
+              >
+                <Text style={styles.clearText}>{lyricsQuery.data ? 'Replace' : 'Add .lrc'}</Text>
+              </Pressable>
+            )}
+          </View>
+          {lyricsQuery.isLoading ? (
+            <ActivityIndicator color={colors.accent} />
+          ) : lyricsQuery.data ? (
+            <LyricsView lyrics={lyricsQuery.data} positionMs={position} onSeek={seekTo} />
+          ) : (
+            <Text style={styles.lyricsEmpty}>No lyrics for this track.</Text>
+          )}
+        </View>
+
+        <View style={styles.settingRow}>
+          <Text style={styles.settingLabel}>Speed</Text>
+          <View style={styles.settingOptions}>
+            {PLAYBACK_RATE_OPTIONS.map((rate) => (
+              <Pressable
+                key={rate}
+                style={[styles.settingChip, playbackRate === rate && styles.settingChipActive]}
+                onPress={() => setPlaybackRate(rate)}
+                testID={`now-playing-rate-${rate}`}
+              >
+                <Text style={[styles.settingChipText, playbackRate === rate && styles.settingChipTextActive]}>
+                  {rate}x
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+
+        {!jamRoom && (
+          <View style={styles.settingRow}>
+            <Text style={styles.settingLabel}>A-B Loop</Text>
+            <View style={styles.settingOptions}>
+              <Pressable
+                style={[styles.settingChip, abLoop && styles.settingChipActive]}
+                onPress={() => setLoopStart()}
+                testID="now-playing-loop-start"
+              >
+                <Text style={[styles.settingChipText, abLoop && styles.settingChipTextActive]}>
+                  {abLoop ? `A ${formatTime(abLoop.startMs)}` : 'Set A'}
+                </Text>
+              </Pressable>
+              <Pressable
+                style={[styles.settingChip, abLoop?.endMs != null && styles.settingChipActive]}
+                onPress={() => setLoopEnd()}
+                testID="now-playing-loop-end"
+              >
+                <Text style={[styles.settingChipText, abLoop?.endMs != null && styles.settingChipTextActive]}>
+                  {abLoop?.endMs != null ? `B ${formatTime(abLoop.endMs)}` : 'Set B'}
+                </Text>
+              </Pressable>
+              {abLoop?.endMs != null && (
+                <Pressable style={styles.settingChip} onPress={() => saveCurrentLoop()} testID="now-playing-loop-save">
+                  <Text style={styles.settingChipText}>Save</Text>
+                </Pressable>
+              )}
+              {abLoop && (
+                <Pressable onPress={clearLoop} hitSlop={8} style={styles.loopClear} testID="now-playing-loop-clear">
+                  <X size={16} color={colors.textSecondary} />
+                </Pressable>
+              )}
+            </View>
+          </View>
+        )}
+
+        {!jamRoom && savedLoops.length > 0 && (
+          <View style={styles.savedLoops}>
+            {savedLoops.map((loop) => {
+              const isActive = abLoop?.startMs === loop.startMs && abLoop?.endMs === loop.endMs;
+              return (
+                <Pressable
+                  key={loop.id}
+                  style={[styles.settingChip, isActive && styles.settingChipActive]}
+                  onPress={() => applySavedLoop(loop)}
+                  onLongPress={() => handleSavedLoopLongPress(loop)}
+                  testID={`now-playing-saved-loop-${loop.id}`}
+                >
+                  <Text style={[styles.settingChipText, isActive && styles.settingChipTextActive]}>{loop.name}</Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        )}
+
+        <View style={styles.settingRow}>
+          <Text style={styles.settingLabel}>Normalize Volume</Text>
+          <Pressable
+            style={[styles.settingChip, normalizeVolume && styles.settingChipActive]}
+            onPress={() => setNormalizeVolume(!normalizeVolume)}
+            testID="now-playing-normalize"
+          >
+            <Text style={[styles.settingChipText, normalizeVolume && styles.settingChipTextActive]}>
+              {normalizeVolume ? 'On' : 'Off'}
+            </Text>
+          </Pressable>
+        </View>
+
+        <View style={styles.settingRow}>
+          <Text style={styles.settingLabel}>Autoplay</Text>
+          <Pressable
+            style={[styles.settingChip, autoplay && styles.settingChipActive]}
+            onPress={() => setAutoplay(!autoplay)}
+            testID="now-playing-autoplay"
+          >
+            <Text style={[styles.settingChipText, autoplay && styles.settingChipTextActive]}>
+              {autoplay ? 'On' : 'Off'}
+            </Text>
+          </Pressable>
+        </View>
+
+        {canDownload && (
+          <View style={styles.settingRow}>
+            <Text style={styles.settingLabel}>Offline</Text>
+            <Pressable
+              style={[styles.settingChip, downloadItem?.status === 'done' && styles.settingChipActive]}
+              onPress={handleDownloadPress}
+              disabled={downloadItem?.status === 'done'}
+              testID="now-playing-download"
+            >
+              <Text style={[styles.settingChipText, downloadItem?.status === 'done' && styles.settingChipTextActive]}>
+                {downloadLabel}
+              </Text>
+            </Pressable>
+          </View>
+        )}
+
+        <View style={styles.settingRow}>
+          <Text style={styles.settingLabel}>Crossfade</Text>
+          <View style={styles.settingOptions}>
+            {CROSSFADE_OPTIONS_MS.map((ms) => (
+              <Pressable
+                key={ms}
+                style={[styles.settingChip, crossfadeMs === ms && styles.settingChipActive]}
+                onPress={() => setCrossfadeDuration(ms)}
+              >
+                <Text style={[styles.settingChipText, crossfadeMs === ms && styles.settingChipTextActive]}>
+                  {ms === 0 ? 'Off' : `${ms / 1000}s`}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+
+        {equalizerSupported && (
+          <View style={styles.equalizerSection}>
+            <View style={styles.sleepLabel}>
+              <SlidersHorizontal size={14} color={colors.textSecondary} />
+              <Text style={styles.settingLabel}>Equalizer</Text>
+            </View>
+            <EqualizerPanel
+              gainsDb={eqGainsDb}
+              preset={eqPreset}
+              onSelectPreset={setEqPreset}
+              onChangeBand={setEqBandGain}
+            />
+          </View>
+        )}
+
+        <View style={styles.sleepSection}>
+          <View style={styles.settingRow}>
+            <View style={styles.sleepLabel}>
+              <Moon size={14} color={sleepTimer ? colors.accent : colors.textSecondary} />
+              <Text style={styles.settingLabel}>Sleep Timer</Text>
+            </View>
+            {sleepTimer && (
+              <Pressable onPress={cancelSleepTimer} hitSlop={8} testID="now-playing-sleep-cancel">
+                <Text style={styles.sleepCountdown}>
+                  {sleepTimer.mode === 'minutes'
+                    ? `Stops in ${formatTime(sleepRemainingMs ?? 0)}`
+                    : sleepTimer.mode === 'endOfTrack'
+                      ? 'Stops after this track'
+                      : `Stops after queue · ${formatTime(sleepRemainingMs ?? 0)}`}
+                  {'  ·  Cancel'}
+                </Text>
+              </Pressable>
+            )}
+          </View>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.settingOptions}>
+            {SLEEP_OPTIONS.map((option) => {
+              const isActive = sleepTimer?.mode === 'minutes'
+                ? sleepTimer.minutes === option.value
+                : sleepTimer?.mode === option.value;
+              return (
+                <Pressable
+                  key={option.label}
+                  style={[styles.settingChip, isActive && styles.settingChipActive]}
+                  onPress={() => startSleepTimer(option.value)}
+                  testID={`now-playing-sleep-${option.value}`}
+                >
+                  <Text style={[styles.settingChipText, isActive && styles.settingChipTextActive]}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </ScrollView>
+        </View>
+
+        {(hasUpcoming || isAutoplayLoading) && (
+          <View style={styles.upNextSection}>
+            <View style={styles.upNextHeader}>
+              <Text style={styles.upNextTitle}>Up Next</Text>
+              <Pressable onPress={clearUpcoming} hitSlop={8} testID="now-playing-clear-queue">
+                <Text style={styles.clearText}>Clear</Text>
+              </Pressable>
+            </View>
+
+            {userQueue.length > 0 && (
+              <Text style={styles.upNextSubtitle}>Next in Queue</Text>
+            )}
+            {userQueue.map((track, i) => (
+              <QueueRow
+                key={`user-${track.id}-${i}`}
+                track={track}
+                canMoveUp={i > 0}
+                onMoveUp={() => moveQueueItem('user', i, i - 1)}
+                onRemove={() => removeQueueItem('user', i)}
+              />
+            ))}
+
+            {upNext.length > 0 && firstAutoplayIndex !== 0 && userQueue.length > 0 && (
+              <Text style={styles.upNextSubtitle}>Next From List</Text>
+            )}
+            {upNext.map((track, i) => {
+              const index = queueIndex + 1 + i;
+              return (
+                <React.Fragment key={`context-${track.id}-${index}`}>
+                  {i === firstAutoplayIndex && (
+                    <Text style={styles.upNextSubtitle}>Autoplay · Similar Music</Text>
+                  )}
+                  <QueueRow
+                    track={track}
+                    canMoveUp={i > 0}
+                    onMoveUp={() => moveQueueItem('context', index, index - 1)}
+                    onRemove={() => removeQueueItem('context', index)}
+                  />
+                </React.Fragment>
+              );
+            })}
+            {isAutoplayLoading && (
+              <Text style={styles.autoplayHint}>Finding more music like this…</Text>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  headerBtn: {
+    width: 36,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 2,
+  },
+  headerLabel: {
+    fontSize: 11,
+    fontWeight: '600' as const,
+    color: colors.textSecondary,
+    letterSpacing: 1,
+    textTransform: 'uppercase',
+  },
+  headerAlbum: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  scroll: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    gap: 24,
+  },
+  artWrap: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  albumArt: {
+    borderRadius: 12,
+    backgroundColor: colors.surfaceLight,
+  },
+  albumArtPlaceholder: {
+    backgroundColor: colors.surfaceAccent,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  trackInfo: {
+    gap: 4,
+  },
+  trackName: {
+    fontSize: 22,
+    fontWeight: '800' as const,
+    color: colors.text,
+    letterSpacing: -0.4,
+  },
+  artistName: {
+    fontSize: 15,
+    color: colors.textSecondary,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  modeBtn: {
+    width: 36,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  controlBtn: {
+    width: 48,
+    height: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playBtn: {
+    width: 68,
+    height: 68,
+    borderRadius: 34,
+    backgroundColor: colors.text,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  settingLabel: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: colors.textSecondary,
+  },
+  settingOptions: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  loopClear: {
+    justifyContent: 'center',
+    paddingHorizontal: 2,
+  },
+  savedLoops: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: 6,
+  },
+  settingChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.06)',
+  },
+  settingChipActive: {
+    backgroundColor: colors.accent,
+  },
+  settingChipText: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+    color: colors.textSecondary,
+  },
+  settingChipTextActive: {
+    color: colors.text,
+  },
+  lyricsSection: {
+    gap: 10,
+  },
+  lyricsEmpty: {
+    fontSize: 13,
+    color: colors.textMuted,
+  },
+  equalizerSection: {
+    gap: 10,
+  },
+  sleepSection: {
+    gap: 10,
+  },
+  sleepLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  sleepCountdown: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+    color: colors.accent,
+    fontVariant: ['tabular-nums'],
+  },
+  upNextSection: {
+    gap: 4,
+  },
+  upNextHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  upNextTitle: {
+    fontSize: 16,
+    fontWeight: '700' as const,
+    color: colors.text,
+  },
+  upNextSubtitle: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+    color: colors.textSecondary,
+    marginTop: 8,
+    marginBottom: 2,
+  },
+  clearText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: colors.accent,
+  },
+  rowBtn: {
+    width: 30,
+    height: 30,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rowBtnDisabled: {
+    opacity: 0.3,
+  },
+  upNextRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 12,
+  },
+  upNextThumb: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+    backgroundColor: colors.surfaceLight,
+  },
+  upNextMeta: {
+    flex: 1,
+    gap: 2,
+  },
+  upNextName: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  upNextArtistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  upNextArtist: {
+    flexShrink: 1,
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  autoplayHint: {
+    fontSize: 13,
+    color: colors.textMuted,
+    paddingVertical: 6,
+  },
+});
@@ -0,0 +1,30 @@
+import React from 'react';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { Redirect } from 'expo-router';
+import * as WebBrowser from 'expo-web-browser';
+import { colors } from '@/constants/colors';
+
+// On web the Spotify redirect loads this page in the sign-in popup; this hands
+// the result back to the opener and closes it. Native auth sessions catch the
+// redirect before it gets here.
+const completion = WebBrowser.maybeCompleteAuthSession();
+
+export default function SpotifyAuthRedirect() {
+  if (completion.type === 'success') {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator color={colors.accent} />
+      </View>
+    );
+  }
+  return <Redirect href="/" />;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.bg,
+  },
+});
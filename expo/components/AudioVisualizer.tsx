@@ -0,0 +1,113 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { colors } from '@/constants/colors';
+
+const BAR_COUNT = 32;
+const FRAME_INTERVAL_MS = 33;
+// Matches the analyser's fftSize of 256: 128 frequency bins, 256 waveform samples.
+const SPECTRUM_BINS = 128;
+const WAVEFORM_SAMPLES = 256;
+// The top of the spectrum is mostly empty for music, so bars cover the lower three quarters.
+const SPECTRUM_RANGE = 0.75;
+
+type VisualizerMode = 'spectrum' | 'waveform';
+
+interface AudioVisualizerProps {
+  isPlaying: boolean;
+  readData: (spectrum: Uint8Array, waveform: Uint8Array) => boolean;
+}
+
+function spectrumBars(spectrum: Uint8Array): number[] {
+  const binsPerBar = Math.max(1, Math.floor((SPECTRUM_BINS * SPECTRUM_RANGE) / BAR_COUNT));
+  return Array.from({ length: BAR_COUNT }, (_, bar) => {
+    let sum = 0;
+    for (let i = 0; i < binsPerBar; i++) sum += spectrum[bar * binsPerBar + i];
+    return sum / binsPerBar / 255;
+  });
+}
+
+function waveformBars(waveform: Uint8Array): number[] {
+  const step = WAVEFORM_SAMPLES / BAR_COUNT;
+  // Signed offsets from silence (128), so bars can extend above or below the midline.
+  return Array.from({ length: BAR_COUNT }, (_, bar) => (waveform[Math.floor(bar * step)] - 128) / 128);
+}
+
+export default function AudioVisualizer({ isPlaying, readData }: AudioVisualizerProps) {
+  const [mode, setMode] = useState<VisualizerMode>('spectrum');
+  const [bars, setBars] = useState<number[]>(() => new Array(BAR_COUNT).fill(0));
+  const buffersRef = useRef({
+    spectrum: new Uint8Array(SPECTRUM_BINS),
+    waveform: new Uint8Array(WAVEFORM_SAMPLES),
+  });
+
+  useEffect(() => {
+    if (!isPlaying) {
+      setBars(new Array(BAR_COUNT).fill(0));
+      return;
+    }
+    let frame = 0;
+    let lastDraw = 0;
+    const draw = (time: number) => {
+      frame = requestAnimationFrame(draw);
+      if (time - lastDraw < FRAME_INTERVAL_MS) return;
+      lastDraw = time;
+      const { spectrum, waveform } = buffersRef.current;
+      if (!readData(spectrum, waveform)) return;
+      setBars(mode === 'spectrum' ? spectrumBars(spectrum) : waveformBars(waveform));
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, mode, readData]);
+
+  return (
+    <Pressable
+      style={styles.container}
+      onPress={() => setMode((m) => (m === 'spectrum' ? 'waveform' : 'spectrum'))}
+      testID="audio-visualizer"
+    >
+      <View style={[styles.bars, mode === 'waveform' && styles.barsCentered]}>
+        {bars.map((value, i) => (
+          <View
+            key={i}
+            style={[
+              styles.bar,
+              mode === 'spectrum'
+                ? { height: `${Math.max(2, value * 100)}%` as any }
+                : {
+                    height: `${Math.max(2, Math.abs(value) * 50)}%` as any,
+                    transform: [{ translateY: value > 0 ? '-50%' : '50%' }] as any,
+                  },
+            ]}
+          />
+        ))}
+      </View>
+      <Text style={styles.modeLabel}>{mode === 'spectrum' ? 'Spectrum' : 'Waveform'}</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  bars: {
+    height: 56,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 3,
+  },
+  barsCentered: {
+    alignItems: 'center',
+  },
+  bar: {
+    flex: 1,
+    borderRadius: 2,
+    backgroundColor: colors.accent,
+  },
+  modeLabel: {
+    fontSize: 11,
+    fontWeight: '600' as const,
+    color: colors.textMuted,
+    textAlign: 'center',
+  },
+});
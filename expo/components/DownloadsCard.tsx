@@ -0,0 +1,82 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Download } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { useDownloads } from '@/providers/DownloadsProvider';
+import { formatBytes } from '@/utils/format';
+
+export default function DownloadsCard() {
+  const router = useRouter();
+  const { items, activeCount, usedBytes } = useDownloads();
+
+  const doneCount = Object.values(items).filter((item) => item.status === 'done').length;
+  let description: string;
+  if (activeCount > 0) {
+    description = `Downloading ${activeCount} ${activeCount === 1 ? 'track' : 'tracks'}…`;
+  } else if (doneCount > 0) {
+    description = `${doneCount} ${doneCount === 1 ? 'track' : 'tracks'} · ${formatBytes(usedBytes)}`;
+  } else {
+    description = 'Long-press a track, album or playlist to save it for offline listening.';
+  }
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.card, pressed && styles.cardPressed]}
+      onPress={() => router.push('/library/downloads')}
+      testID="downloads-card"
+    >
+      <View style={styles.iconWrap}>
+        <Download size={18} color={colors.accent} />
+      </View>
+      <View style={styles.meta}>
+        <Text style={styles.title}>Downloads</Text>
+        <Text style={styles.description}>{description}</Text>
+      </View>
+      <Text style={styles.action}>Manage</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardPressed: {
+    opacity: 0.85,
+  },
+  iconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: colors.accentBg,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  meta: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  description: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  action: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: colors.accent,
+  },
+});
@@ -0,0 +1,171 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, Pressable, ScrollView, LayoutChangeEvent } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { colors } from '@/constants/colors';
+import { EQ_BANDS, EQ_PRESETS, EQ_MAX_GAIN_DB, EqPresetName, clampEqGain } from '@/utils/equalizer';
+
+interface EqualizerPanelProps {
+  gainsDb: number[];
+  preset: EqPresetName | null;
+  onSelectPreset: (name: EqPresetName) => void;
+  onChangeBand: (bandIndex: number, gainDb: number) => void;
+}
+
+function BandSlider({
+  label,
+  value,
+  onChange,
+  testID,
+}: {
+  label: string;
+  value: number;
+  onChange: (gainDb: number) => void;
+  testID: string;
+}) {
+  const [trackHeight, setTrackHeight] = useState(0);
+  const [dragValue, setDragValue] = useState<number | null>(null);
+
+  const displayValue = dragValue ?? value;
+  // 0 at the top (+max dB), 1 at the bottom (-max dB).
+  const fraction = (EQ_MAX_GAIN_DB - displayValue) / (EQ_MAX_GAIN_DB * 2);
+
+  const handleLayout = useCallback((e: LayoutChangeEvent) => {
+    setTrackHeight(e.nativeEvent.layout.height);
+  }, []);
+
+  const valueFromY = useCallback((y: number) => {
+    if (trackHeight <= 0) return value;
+    const ratio = Math.min(1, Math.max(0, y / trackHeight));
+    return clampEqGain(EQ_MAX_GAIN_DB - ratio * EQ_MAX_GAIN_DB * 2);
+  }, [trackHeight, value]);
+
+  const gesture = useMemo(() => {
+    return Gesture.Pan()
+      .runOnJS(true)
+      .minDistance(0)
+      .onBegin((e) => setDragValue(valueFromY(e.y)))
+      .onUpdate((e) => setDragValue(valueFromY(e.y)))
+      .onEnd((e) => onChange(valueFromY(e.y)))
+      .onFinalize(() => setDragValue(null));
+  }, [valueFromY, onChange]);
+
+  return (
+    <View style={styles.band}>
+      <Text style={styles.bandValue}>{displayValue > 0 ? `+${displayValue}` : displayValue}</Text>
+      <GestureDetector gesture={gesture}>
+        <View style={styles.bandHitArea} onLayout={handleLayout} testID={testID}>
+          <View style={styles.bandTrack} />
+          <View style={styles.bandMidline} />
+          <View style={[styles.bandThumb, { top: fraction * trackHeight - 6 }]} />
+        </View>
+      </GestureDetector>
+      <Text style={styles.bandLabel}>{label}</Text>
+    </View>
+  );
+}
+
+export default function EqualizerPanel({ gainsDb, preset, onSelectPreset, onChangeBand }: EqualizerPanelProps) {
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.presets}>
+        {EQ_PRESETS.map((p) => (
+          <Pressable
+            key={p.name}
+            style={[styles.presetChip, preset === p.name && styles.presetChipActive]}
+            onPress={() => onSelectPreset(p.name)}
+            testID={`eq-preset-${p.name}`}
+          >
+            <Text style={[styles.presetText, preset === p.name && styles.presetTextActive]}>{p.label}</Text>
+          </Pressable>
+        ))}
+        {preset === null && (
+          <View style={[styles.presetChip, styles.presetChipActive]}>
+            <Text style={[styles.presetText, styles.presetTextActive]}>Custom</Text>
+          </View>
+        )}
+      </ScrollView>
+      <View style={styles.bands}>
+        {EQ_BANDS.map((band, i) => (
+          <BandSlider
+            key={band.frequency}
+            label={band.label}
+            value={gainsDb[i] ?? 0}
+            onChange={(gainDb) => onChangeBand(i, gainDb)}
+            testID={`eq-band-${band.frequency}`}
+          />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 14,
+  },
+  presets: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  presetChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.06)',
+  },
+  presetChipActive: {
+    backgroundColor: colors.accent,
+  },
+  presetText: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+    color: colors.textSecondary,
+  },
+  presetTextActive: {
+    color: colors.text,
+  },
+  bands: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  band: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 6,
+  },
+  bandValue: {
+    fontSize: 11,
+    fontWeight: '600' as const,
+    color: colors.textSecondary,
+    fontVariant: ['tabular-nums'],
+  },
+  bandHitArea: {
+    width: 36,
+    height: 120,
+    alignItems: 'center',
+  },
+  bandTrack: {
+    width: 4,
+    height: '100%',
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  bandMidline: {
+    position: 'absolute',
+    top: '50%',
+    width: 14,
+    height: 1,
+    backgroundColor: colors.textMuted,
+  },
+  bandThumb: {
+    position: 'absolute',
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: colors.text,
+  },
+  bandLabel: {
+    fontSize: 11,
+    color: colors.textMuted,
+  },
+});
@@ -0,0 +1,95 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable, Image } from 'react-native';
+import { Music } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { HistoryEntry, PlayContext } from '@/providers/PlayHistoryProvider';
+import { formatRelativeTime, formatTime } from '@/utils/format';
+
+const CONTEXT_LABELS: Record<PlayContext['type'], string> = {
+  home: 'Home',
+  search: 'Search',
+  album: 'Album',
+  playlist: 'Playlist',
+  library: 'Library',
+  history: 'History',
+  queue: 'Queue',
+  jam: 'Jam',
+  autoplay: 'Autoplay',
+};
+
+function describeContext(context: PlayContext | null): string | null {
+  if (!context) return null;
+  const base = CONTEXT_LABELS[context.type];
+  if (!context.label) return base;
+  return context.type === 'search' ? `${base} “${context.label}”` : `${base} · ${context.label}`;
+}
+
+export default function HistoryRow({ entry, onPress }: { entry: HistoryEntry; onPress: () => void }) {
+  const details = [
+    formatRelativeTime(entry.startedAt),
+    describeContext(entry.context),
+    entry.completed ? 'Finished' : entry.listenedMs > 0 ? `Listened ${formatTime(entry.listenedMs)}` : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.row, pressed && styles.rowPressed]}
+      onPress={onPress}
+      testID={`history-row-${entry.id}`}
+    >
+      {entry.track.albumArt ? (
+        <Image source={{ uri: entry.track.albumArt }} style={styles.thumb} />
+      ) : (
+        <View style={[styles.thumb, styles.thumbPlaceholder]}>
+          <Music size={18} color={colors.textMuted} />
+        </View>
+      )}
+      <View style={styles.meta}>
+        <Text style={styles.name} numberOfLines={1}>{entry.track.name}</Text>
+        <Text style={styles.artist} numberOfLines={1}>{entry.track.artistName}</Text>
+        <Text style={styles.details} numberOfLines={1}>{details}</Text>
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  rowPressed: {
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  thumb: {
+    width: 52,
+    height: 52,
+    borderRadius: 8,
+  },
+  thumbPlaceholder: {
+    backgroundColor: colors.surfaceLight,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  meta: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  artist: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  details: {
+    fontSize: 11,
+    color: colors.textMuted,
+    marginTop: 3,
+  },
+});
@@ -0,0 +1,80 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Users } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { useJam } from '@/providers/JamProvider';
+
+export default function JamCard() {
+  const router = useRouter();
+  const { room, isHost } = useJam();
+
+  let description: string;
+  if (room) {
+    const others = room.members.length - 1;
+    description = `${isHost ? 'Hosting' : 'In'} jam ${room.code}` +
+      (others > 0 ? ` with ${others} ${others === 1 ? 'other' : 'others'}` : ' · waiting for friends');
+  } else {
+    description = 'Play the same queue in sync with friends.';
+  }
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.card, pressed && styles.cardPressed]}
+      onPress={() => router.push('/jam')}
+      testID="jam-card"
+    >
+      <View style={styles.iconWrap}>
+        <Users size={18} color={colors.accent} />
+      </View>
+      <View style={styles.meta}>
+        <Text style={styles.title}>Jam</Text>
+        <Text style={styles.description}>{description}</Text>
+      </View>
+      <Text style={styles.action}>{room ? 'Open' : 'Start or join'}</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardPressed: {
+    opacity: 0.85,
+  },
+  iconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: colors.accentBg,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  meta: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  description: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  action: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: colors.accent,
+  },
+});
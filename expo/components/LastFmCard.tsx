@@ -0,0 +1,143 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable, ActivityIndicator } from 'react-native';
+import { Radio } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { useLastFm } from '@/providers/LastFmProvider';
+
+export default function LastFmCard() {
+  const {
+    session,
+    authState,
+    authError,
+    pendingScrobbles,
+    connect,
+    completeAuth,
+    signOut,
+  } = useLastFm();
+
+  let description: string;
+  if (session) {
+    description = pendingScrobbles > 0
+      ? `Scrobbling as ${session.name} · ${pendingScrobbles} waiting to send`
+      : `Scrobbling as ${session.name}`;
+  } else if (authState === 'awaitingApproval') {
+    description = 'Waiting for you to approve access on last.fm.';
+  } else {
+    description = 'Connect your account to scrobble what you play.';
+  }
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.row}>
+        <View style={styles.iconWrap}>
+          <Radio size={18} color={colors.accent} />
+        </View>
+        <View style={styles.meta}>
+          <Text style={styles.title}>Last.fm</Text>
+          <Text style={styles.description}>{description}</Text>
+        </View>
+        {authState === 'authorizing' ? (
+          <ActivityIndicator color={colors.accent} />
+        ) : session ? (
+          <Pressable onPress={signOut} hitSlop={8} testID="lastfm-disconnect">
+            <Text style={styles.secondaryText}>Disconnect</Text>
+          </Pressable>
+        ) : authState === 'awaitingApproval' ? (
+          <Pressable
+            style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}
+            onPress={completeAuth}
+            testID="lastfm-finish"
+          >
+            <Text style={styles.buttonText}>Finish connecting</Text>
+          </Pressable>
+        ) : (
+          <Pressable
+            style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}
+            onPress={connect}
+            testID="lastfm-connect"
+          >
+            <Text style={styles.buttonText}>Connect</Text>
+          </Pressable>
+        )}
+      </View>
+      {/* Last.fm only counts tracks longer than 30 seconds, which no preview is. */}
+      <Text style={styles.note}>Only songs from Your Music are scrobbled, not 30-second previews.</Text>
+      {authError && <Text style={styles.errorText}>{authError}</Text>}
+      {authState === 'awaitingApproval' && (
+        <Pressable onPress={signOut} hitSlop={8} style={styles.cancel}>
+          <Text style={styles.secondaryText}>Cancel</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  iconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: colors.accentBg,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  meta: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  description: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: colors.accent,
+    borderRadius: 20,
+  },
+  note: {
+    fontSize: 12,
+    color: colors.textMuted,
+    lineHeight: 16,
+  },
+  buttonPressed: {
+    opacity: 0.85,
+  },
+  buttonText: {
+    fontSize: 13,
+    fontWeight: '700' as const,
+    color: colors.bg,
+  },
+  secondaryText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: colors.accent,
+  },
+  errorText: {
+    fontSize: 12,
+    color: colors.error,
+    lineHeight: 17,
+  },
+  cancel: {
+    alignSelf: 'flex-start',
+  },
+});
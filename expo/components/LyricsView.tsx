@@ -0,0 +1,112 @@
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { Text, StyleSheet, Pressable, ScrollView, LayoutChangeEvent } from 'react-native';
+import { colors } from '@/constants/colors';
+import { ParsedLyrics, LyricLine, findActiveLineIndex } from '@/utils/lrc';
+
+// After the user scrolls by hand, leave the view where they put it for a while.
+const AUTOSCROLL_PAUSE_MS = 4000;
+
+interface LyricsViewProps {
+  lyrics: ParsedLyrics;
+  positionMs: number;
+  onSeek: (positionMs: number) => void;
+}
+
+function LineText({ line, isActive, positionMs }: { line: LyricLine; isActive: boolean; positionMs: number }) {
+  if (!line.text) {
+    return <Text style={[styles.line, isActive && styles.lineActive]}>♪</Text>;
+  }
+  if (!isActive || !line.words) {
+    return <Text style={[styles.line, isActive && styles.lineActive]}>{line.text}</Text>;
+  }
+  return (
+    <Text style={styles.line}>
+      {line.words.map((word, i) => (
+        <Text key={i} style={word.timeMs <= positionMs ? styles.lineActive : styles.wordUpcoming}>
+          {word.text}
+        </Text>
+      ))}
+    </Text>
+  );
+}
+
+export default function LyricsView({ lyrics, positionMs, onSeek }: LyricsViewProps) {
+  const scrollRef = useRef<ScrollView>(null);
+  const lineOffsetsRef = useRef<number[]>([]);
+  const userScrolledAtRef = useRef(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  const activeIndex = lyrics.synced ? findActiveLineIndex(lyrics.lines, positionMs) : -1;
+
+  useEffect(() => {
+    lineOffsetsRef.current = [];
+    scrollRef.current?.scrollTo({ y: 0, animated: false });
+  }, [lyrics]);
+
+  useEffect(() => {
+    if (activeIndex < 0 || Date.now() - userScrolledAtRef.current < AUTOSCROLL_PAUSE_MS) return;
+    const y = lineOffsetsRef.current[activeIndex];
+    if (y === undefined) return;
+    // Keep the active line a third of the way down so upcoming lines stay visible.
+    scrollRef.current?.scrollTo({ y: Math.max(0, y - viewportHeight / 3), animated: true });
+  }, [activeIndex, viewportHeight]);
+
+  const handleLayout = useCallback((e: LayoutChangeEvent) => {
+    setViewportHeight(e.nativeEvent.layout.height);
+  }, []);
+
+  return (
+    <ScrollView
+      ref={scrollRef}
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      onLayout={handleLayout}
+      onScrollBeginDrag={() => { userScrolledAtRef.current = Date.now(); }}
+      nestedScrollEnabled
+      showsVerticalScrollIndicator={false}
+      testID="lyrics-view"
+    >
+      {lyrics.lines.map((line, i) => (
+        <Pressable
+          key={`${line.timeMs}-${i}`}
+          onPress={lyrics.synced ? () => {
+            userScrolledAtRef.current = 0;
+            onSeek(line.timeMs);
+          } : undefined}
+          disabled={!lyrics.synced}
+          onLayout={(e) => { lineOffsetsRef.current[i] = e.nativeEvent.layout.y; }}
+          style={[styles.lineWrap, lyrics.synced && i < activeIndex && styles.linePast]}
+        >
+          <LineText line={line} isActive={i === activeIndex} positionMs={positionMs} />
+        </Pressable>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: 300,
+  },
+  content: {
+    paddingVertical: 12,
+  },
+  lineWrap: {
+    paddingVertical: 6,
+  },
+  linePast: {
+    opacity: 0.6,
+  },
+  line: {
+    fontSize: 20,
+    fontWeight: '700' as const,
+    color: colors.textMuted,
+    lineHeight: 28,
+  },
+  lineActive: {
+    color: colors.text,
+  },
+  wordUpcoming: {
+    color: colors.textSecondary,
+  },
+});
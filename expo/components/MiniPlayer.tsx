@@ -1,4 +1,4 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo, useCallback } from 'react';
 import {
   View,
   Text,
@@ -6,8 +6,11 @@ import {
   Pressable,
   Animated,
   Image,
+  ActivityIndicator,
 } from 'react-native';
-import { Play, Pause, SkipForward, SkipBack } from 'lucide-react-native';
+import { useRouter } from 'expo-router';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { Play, Pause, SkipForward, SkipBack, RotateCcw } from 'lucide-react-native';
 import { useMusicPlayer } from '@/providers/MusicPlayerProvider';
 import { colors } from '@/constants/colors';
 
@@ -15,6 +18,8 @@ export default function MiniPlayer() {
   const {
     currentTrack,
     isPlaying,
+    playbackState,
+    playbackError,
     position,
     duration,
     togglePlayPause,
@@ -22,8 +27,10 @@ export default function MiniPlayer() {
     skipPrevious,
   } = useMusicPlayer();
 
+  const router = useRouter();
   const slideAnim = useRef(new Animated.Value(80)).current;
   const progressWidth = duration > 0 ? (position / duration) * 100 : 0;
+  const trackError = playbackError && playbackError.trackId === currentTrack?.id ? playbackError.message : null;
 
   useEffect(() => {
     if (currentTrack) {
@@ -38,45 +45,72 @@ export default function MiniPlayer() {
     }
   }, [currentTrack, slideAnim]);
 
+  const openNowPlaying = useCallback(() => {
+    router.push('/player');
+  }, [router]);
+
+  const swipeUpGesture = useMemo(() => {
+    return Gesture.Pan()
+      .runOnJS(true)
+      .activeOffsetY([-20, 20])
+      .onEnd((e) => {
+        if (e.translationY < -40 || e.velocityY < -500) {
+          openNowPlaying();
+        }
+      });
+  }, [openNowPlaying]);
+
   if (!currentTrack) return null;
 
   return (
-    <Animated.View style={[styles.container, { transform: [{ translateY: slideAnim }] }]}>
-      <View style={[styles.progressBar, { width: `${progressWidth}%` as any }]} />
-      <View style={styles.content}>
-        <View style={styles.trackInfo}>
-          {currentTrack.albumArt ? (
-            <Image source={{ uri: currentTrack.albumArt }} style={styles.albumArt} />
-          ) : (
-            <View style={[styles.albumArt, styles.albumArtPlaceholder]} />
-          )}
-          <View style={styles.textWrap}>
-            <Text style={styles.trackName} numberOfLines={1}>
-              {currentTrack.name}
-            </Text>
-            <Text style={styles.artistName} numberOfLines={1}>
-              {currentTrack.artistName}
-            </Text>
-          </View>
-        </View>
-
-        <View style={styles.controls}>
-          <Pressable onPress={skipPrevious} hitSlop={8} style={styles.controlBtn}>
-            <SkipBack size={18} color={colors.text} fill={colors.text} />
-          </Pressable>
-          <Pressable onPress={togglePlayPause} style={styles.playBtn}>
-            {isPlaying ? (
-              <Pause size={18} color={colors.bg} fill={colors.bg} />
+    <GestureDetector gesture={swipeUpGesture}>
+      <Animated.View style={[styles.container, { transform: [{ translateY: slideAnim }] }]}>
+        <View style={[styles.progressBar, { width: `${progressWidth}%` as any }]} />
+        <View style={styles.content}>
+          <Pressable style={styles.trackInfo} onPress={openNowPlaying} testID="mini-player-open">
+            {currentTrack.albumArt ? (
+              <Image source={{ uri: currentTrack.albumArt }} style={styles.albumArt} />
             ) : (
-              <Play size={18} color={colors.bg} fill={colors.bg} />
+              <View style={[styles.albumArt, styles.albumArtPlaceholder]} />
             )}
+            <View style={styles.textWrap}>
+              <Text style={styles.trackName} numberOfLines={1}>
+                {currentTrack.name}
+              </Text>
+              {trackError ? (
+                <Text style={styles.errorText} numberOfLines={1}>
+                  Couldn&apos;t play this track
+                </Text>
+              ) : (
+                <Text style={styles.artistName} numberOfLines={1}>
+                  {currentTrack.artistName}
+                </Text>
+              )}
+            </View>
           </Pressable>
-          <Pressable onPress={skipNext} hitSlop={8} style={styles.controlBtn}>
-            <SkipForward size={18} color={colors.text} fill={colors.text} />
-          </Pressable>
+
+          <View style={styles.controls}>
+            <Pressable onPress={skipPrevious} hitSlop={8} style={styles.controlBtn}>
+              <SkipBack size={18} color={colors.text} fill={colors.text} />
+            </Pressable>
+            <Pressable onPress={togglePlayPause} style={styles.playBtn} testID="mini-player-toggle">
+              {playbackState === 'loading' ? (
+                <ActivityIndicator size="small" color={colors.bg} />
+              ) : trackError ? (
+                <RotateCcw size={16} color={colors.bg} />
+              ) : isPlaying ? (
+                <Pause size={18} color={colors.bg} fill={colors.bg} />
+              ) : (
+                <Play size={18} color={colors.bg} fill={colors.bg} />
+              )}
+            </Pressable>
+            <Pressable onPress={skipNext} hitSlop={8} style={styles.controlBtn}>
+              <SkipForward size={18} color={colors.text} fill={colors.text} />
+            </Pressable>
+          </View>
         </View>
-      </View>
-    </Animated.View>
+      </Animated.View>
+    </GestureDetector>
   );
 }
 
@@ -132,6 +166,10 @@ const styles = StyleSheet.create({
     fontSize: 11,
     color: colors.textSecondary,
   },
+  errorText: {
+    fontSize: 11,
+    color: colors.error,
+  },
   controls: {
     flexDirection: 'row',
     alignItems: 'center',
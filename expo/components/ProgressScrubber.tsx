@@ -0,0 +1,131 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { colors } from '@/constants/colors';
+import { formatTime } from '@/utils/format';
+import { ABLoop } from '@/utils/abLoop';
+
+interface ProgressScrubberProps {
+  position: number;
+  duration: number;
+  onSeek: (positionMs: number) => void;
+  /** Highlighted on the track; a lone start marker until the end point is set. */
+  loop?: ABLoop | null;
+}
+
+export default function ProgressScrubber({ position, duration, onSeek, loop }: ProgressScrubberProps) {
+  const [trackWidth, setTrackWidth] = useState(0);
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+
+  const displayPosition = scrubPosition ?? position;
+  const progress = duration > 0 ? Math.min(1, displayPosition / duration) : 0;
+  const loopStart = loop && duration > 0 ? Math.min(1, loop.startMs / duration) : null;
+  const loopEnd = loop?.endMs != null && duration > 0 ? Math.min(1, loop.endMs / duration) : null;
+
+  const handleLayout = useCallback((e: LayoutChangeEvent) => {
+    setTrackWidth(e.nativeEvent.layout.width);
+  }, []);
+
+  const positionFromX = useCallback((x: number) => {
+    if (trackWidth <= 0 || duration <= 0) return 0;
+    const ratio = Math.min(1, Math.max(0, x / trackWidth));
+    return Math.round(ratio * duration);
+  }, [trackWidth, duration]);
+
+  const gesture = useMemo(() => {
+    return Gesture.Pan()
+      .runOnJS(true)
+      .minDistance(0)
+      .onBegin((e) => setScrubPosition(positionFromX(e.x)))
+      .onUpdate((e) => setScrubPosition(positionFromX(e.x)))
+      .onEnd((e) => onSeek(positionFromX(e.x)))
+      .onFinalize(() => setScrubPosition(null));
+  }, [positionFromX, onSeek]);
+
+  return (
+    <View style={styles.container}>
+      <GestureDetector gesture={gesture}>
+        <View style={styles.hitArea} onLayout={handleLayout} testID="progress-scrubber">
+          <View style={styles.track}>
+            <View style={[styles.fill, { width: `${progress * 100}%` as any }]} />
+          </View>
+          {loopStart !== null && loopEnd !== null && (
+            <View
+              pointerEvents="none"
+              style={[styles.loopRegion, { left: loopStart * trackWidth, width: (loopEnd - loopStart) * trackWidth }]}
+              testID="progress-loop-region"
+            />
+          )}
+          {loopStart !== null && loopEnd === null && (
+            <View pointerEvents="none" style={[styles.loopMarker, { left: loopStart * trackWidth - 1 }]} />
+          )}
+          <View
+            style={[
+              styles.thumb,
+              scrubPosition !== null && styles.thumbActive,
+              { left: progress * trackWidth - 7 },
+            ]}
+          />
+        </View>
+      </GestureDetector>
+      <View style={styles.timeRow}>
+        <Text style={styles.timeText}>{formatTime(displayPosition)}</Text>
+        <Text style={styles.timeText}>-{formatTime(duration - displayPosition)}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  hitArea: {
+    height: 28,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 4,
+    backgroundColor: colors.accent,
+  },
+  loopRegion: {
+    position: 'absolute',
+    height: 10,
+    borderRadius: 3,
+    backgroundColor: colors.accentBg,
+    borderWidth: 1,
+    borderColor: colors.accent,
+  },
+  loopMarker: {
+    position: 'absolute',
+    width: 2,
+    height: 12,
+    borderRadius: 1,
+    backgroundColor: colors.accent,
+  },
+  thumb: {
+    position: 'absolute',
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    backgroundColor: colors.text,
+  },
+  thumbActive: {
+    transform: [{ scale: 1.3 }],
+  },
+  timeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  timeText: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    fontVariant: ['tabular-nums'],
+  },
+});
@@ -0,0 +1,74 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Globe } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { getMarketName } from '@/constants/markets';
+import { useRegion } from '@/providers/RegionProvider';
+
+export default function RegionCard() {
+  const router = useRouter();
+  const { market, isAutomatic } = useRegion();
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.card, pressed && styles.cardPressed]}
+      onPress={() => router.push('/library/region')}
+      testID="region-card"
+    >
+      <View style={styles.iconWrap}>
+        <Globe size={18} color={colors.accent} />
+      </View>
+      <View style={styles.meta}>
+        <Text style={styles.title}>{getMarketName(market)}</Text>
+        <Text style={styles.description}>
+          {isAutomatic ? 'From this device’s region. ' : ''}Sets which songs, previews and releases you see.
+        </Text>
+      </View>
+      <Text style={styles.action}>Change</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardPressed: {
+    opacity: 0.85,
+  },
+  iconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: colors.accentBg,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  meta: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  description: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  action: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: colors.accent,
+  },
+});
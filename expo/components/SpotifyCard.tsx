@@ -0,0 +1,119 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable, ActivityIndicator, Image } from 'react-native';
+import { Music } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { useSpotifyAuth } from '@/providers/SpotifyAuthProvider';
+
+export default function SpotifyCard() {
+  const { authState, authError, profile, connect, disconnect } = useSpotifyAuth();
+
+  let description: string;
+  if (authState === 'signedIn') {
+    description = profile?.display_name ? `Connected as ${profile.display_name}` : 'Connected';
+  } else {
+    description = 'Connect your account for your saved tracks and playlists.';
+  }
+
+  const avatar = profile?.images?.[0]?.url;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.row}>
+        {avatar ? (
+          <Image source={{ uri: avatar }} style={styles.avatar} />
+        ) : (
+          <View style={styles.iconWrap}>
+            <Music size={18} color={colors.accent} />
+          </View>
+        )}
+        <View style={styles.meta}>
+          <Text style={styles.title}>Spotify</Text>
+          <Text style={styles.description}>{description}</Text>
+        </View>
+        {authState === 'loading' || authState === 'authorizing' ? (
+          <ActivityIndicator color={colors.accent} />
+        ) : authState === 'signedIn' ? (
+          <Pressable onPress={disconnect} hitSlop={8} testID="spotify-disconnect">
+            <Text style={styles.secondaryText}>Disconnect</Text>
+          </Pressable>
+        ) : (
+          <Pressable
+            style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}
+            onPress={connect}
+            testID="spotify-connect"
+          >
+            <Text style={styles.buttonText}>Connect</Text>
+          </Pressable>
+        )}
+      </View>
+      {authError && <Text style={styles.errorText}>{authError}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  iconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: colors.accentBg,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+  },
+  meta: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  description: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: colors.accent,
+    borderRadius: 20,
+  },
+  buttonPressed: {
+    opacity: 0.85,
+  },
+  buttonText: {
+    fontSize: 13,
+    fontWeight: '700' as const,
+    color: colors.bg,
+  },
+  secondaryText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: colors.accent,
+  },
+  errorText: {
+    fontSize: 12,
+    color: colors.error,
+    lineHeight: 17,
+  },
+});
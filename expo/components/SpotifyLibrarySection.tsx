@@ -0,0 +1,317 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { Heart, Play, User } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { useMusicPlayer } from '@/providers/MusicPlayerProvider';
+import { PlayContext } from '@/providers/PlayHistoryProvider';
+import { useSpotifyLibrary } from '@/hooks/useSpotifyLibrary';
+import { useQueueMenu } from '@/hooks/useQueueMenu';
+import { useDownloadActions } from '@/hooks/useDownloadActions';
+import { useOpenCollection } from '@/hooks/useOpenCollection';
+import SpotifyTrackRow from '@/components/SpotifyTrackRow';
+import { SpotifyArtist, SpotifyTrack, getArtistTopTracks } from '@/services/spotify';
+
+const LIKED_PREVIEW_LIMIT = 5;
+const LIKED_CONTEXT: PlayContext = { type: 'library', label: 'Liked Songs' };
+
+/** The connected user's Spotify library, shown in the Library tab. */
+export default function SpotifyLibrarySection() {
+  const router = useRouter();
+  const { library, isLoading, error, refresh } = useSpotifyLibrary();
+  const { playSpotifyTrack, currentTrack, unplayableTrackIds } = useMusicPlayer();
+  const openQueueMenu = useQueueMenu();
+  const { openAlbumMenu, openPlaylistMenu, openLikedSongsMenu } = useDownloadActions();
+  const { openAlbum, openPlaylist } = useOpenCollection();
+  const [loadingArtistId, setLoadingArtistId] = useState<string | null>(null);
+
+  const likedTracks = useMemo(() => library?.savedTracks.map((item) => item.track) ?? [], [library]);
+
+  const playTrack = useCallback((track: SpotifyTrack) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    playSpotifyTrack(track, likedTracks, LIKED_CONTEXT);
+  }, [playSpotifyTrack, likedTracks]);
+
+  /** Plays an artist's top tracks; followed artists have no track list of their own. */
+  const playArtist = useCallback(async (artist: SpotifyArtist) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setLoadingArtistId(artist.id);
+    try {
+      const tracks = (await getArtistTopTracks(artist.id)).filter((t) => !unplayableTrackIds.has(t.id));
+      if (tracks.length === 0) {
+        Alert.alert('Nothing to play', `${artist.name} has no playable tracks.`);
+        return;
+      }
+      playSpotifyTrack(tracks[0], tracks, { type: 'library', label: artist.name });
+    } catch (err) {
+      console.error('Failed to load artist tracks:', err);
+      Alert.alert('Playback failed', `Couldn't load ${artist.name}.`);
+    } finally {
+      setLoadingArtistId(null);
+    }
+  }, [playSpotifyTrack, unplayableTrackIds]);
+
+  if (!library) {
+    // Until the profile arrives there is no user to load a library for.
+    if (isLoading || !error) return <ActivityIndicator color={colors.accent} style={styles.loading} />;
+    return (
+      <Pressable
+        style={({ pressed }) => [styles.messageCard, pressed && styles.pressed]}
+        onPress={() => void refresh()}
+        testID="spotify-library-retry"
+      >
+        <Text style={styles.messageText}>
+          Couldn&apos;t load your Spotify library. Tap to try again.
+        </Text>
+      </Pressable>
+    );
+  }
+
+  const { savedAlbums, playlists, artists } = library;
+  const firstPlayable = likedTracks.find((t) => !unplayableTrackIds.has(t.id));
+
+  return (
+    <View style={styles.container}>
+      <Pressable
+        style={({ pressed }) => [styles.likedCard, pressed && styles.pressed]}
+        onPress={() => router.push('/library/liked')}
+        onLongPress={likedTracks.length > 0 ? () => openLikedSongsMenu(library.userId, likedTracks) : undefined}
+        testID="spotify-liked-songs"
+      >
+        <View style={styles.likedIcon}>
+          <Heart size={18} color={colors.accent} fill={colors.accent} />
+        </View>
+        <View style={styles.likedMeta}>
+          <Text style={styles.likedTitle}>Liked Songs</Text>
+          <Text style={styles.likedCount}>
+            {likedTracks.length} {likedTracks.length === 1 ? 'song' : 'songs'}
+          </Text>
+        </View>
+        {firstPlayable && (
+          <Pressable
+            style={styles.playBtn}
+            onPress={() => playTrack(firstPlayable)}
+            hitSlop={8}
+            testID="spotify-liked-play"
+          >
+            <Play size={16} color={colors.bg} fill={colors.bg} />
+          </Pressable>
+        )}
+      </Pressable>
+
+      {likedTracks.slice(0, LIKED_PREVIEW_LIMIT).map((track) => (
+        <SpotifyTrackRow
+          key={track.id}
+          track={track}
+          isActive={currentTrack?.id === track.id}
+          isPlayable={!unplayableTrackIds.has(track.id)}
+          onPress={() => playTrack(track)}
+          onLongPress={() => openQueueMenu(track)}
+        />
+      ))}
+
+      {playlists.length > 0 && (
+        <>
+          <Text style={styles.subTitle}>Playlists</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
+            {playlists.map((playlist) => (
+              <Pressable
+                key={playlist.id}
+                style={styles.card}
+                onPress={() => openPlaylist(playlist)}
+                onLongPress={() => openPlaylistMenu(playlist)}
+                testID={`spotify-playlist-${playlist.id}`}
+              >
+                <Image source={{ uri: playlist.images?.[0]?.url }} style={styles.cardArt} />
+                <Text style={styles.cardName} numberOfLines={1}>{playlist.name}</Text>
+                <Text style={styles.cardSub} numberOfLines={1}>{playlist.owner.display_name}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        </>
+      )}
+
+      {savedAlbums.length > 0 && (
+        <>
+          <Text style={styles.subTitle}>Albums</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
+            {savedAlbums.map(({ album }) => (
+              <Pressable
+                key={album.id}
+                style={styles.card}
+                onPress={() => openAlbum(album)}
+                onLongPress={() => openAlbumMenu(album)}
+                testID={`spotify-album-${album.id}`}
+              >
+                <Image source={{ uri: album.images?.[0]?.url }} style={styles.cardArt} />
+                <Text style={styles.cardName} numberOfLines={1}>{album.name}</Text>
+                <Text style={styles.cardSub} numberOfLines={1}>
+                  {album.artists.map((a) => a.name).join(', ')}
+                </Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        </>
+      )}
+
+      {artists.length > 0 && (
+        <>
+          <Text style={styles.subTitle}>Artists</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
+            {artists.map((artist) => (
+              <Pressable
+                key={artist.id}
+                style={styles.artist}
+                onPress={() => void playArtist(artist)}
+                testID={`spotify-artist-${artist.id}`}
+              >
+                <View>
+                  {artist.images?.[0]?.url ? (
+                    <Image source={{ uri: artist.images[0].url }} style={styles.artistImg} />
+                  ) : (
+                    <View style={[styles.artistImg, styles.artistPlaceholder]}>
+                      <User size={22} color={colors.textMuted} />
+                    </View>
+                  )}
+                  {loadingArtistId === artist.id && (
+                    <ActivityIndicator color={colors.text} style={styles.artistLoading} />
+                  )}
+                </View>
+                <Text style={styles.artistName} numberOfLines={1}>{artist.name}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 4,
+  },
+  loading: {
+    paddingVertical: 20,
+  },
+  pressed: {
+    opacity: 0.85,
+  },
+  messageCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  messageText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  likedCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginBottom: 4,
+  },
+  likedIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: colors.accentBg,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  likedMeta: {
+    flex: 1,
+    gap: 2,
+  },
+  likedTitle: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  likedCount: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  playBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    backgroundColor: colors.accent,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  subTitle: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: colors.textSecondary,
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  horizontalList: {
+    gap: 12,
+  },
+  card: {
+    width: 130,
+    gap: 6,
+  },
+  cardArt: {
+    width: 130,
+    height: 130,
+    borderRadius: 10,
+    backgroundColor: colors.surfaceLight,
+  },
+  cardName: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  cardSub: {
+    fontSize: 11,
+    color: colors.textSecondary,
+  },
+  artist: {
+    alignItems: 'center',
+    width: 80,
+    gap: 6,
+  },
+  artistImg: {
+    width: 68,
+    height: 68,
+    borderRadius: 34,
+    backgroundColor: colors.surfaceLight,
+  },
+  artistPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  artistLoading: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    borderRadius: 34,
+  },
+  artistName: {
+    fontSize: 11,
+    fontWeight: '500' as const,
+    color: colors.textSecondary,
+    textAlign: 'center' as const,
+  },
+});
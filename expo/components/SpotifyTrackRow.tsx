@@ -0,0 +1,91 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable, Image } from 'react-native';
+import { Music } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+import { SpotifyTrack } from '@/services/spotify';
+
+export default function SpotifyTrackRow({
+  track,
+  isActive,
+  isPlayable,
+  onPress,
+  onLongPress,
+}: {
+  track: SpotifyTrack;
+  isActive: boolean;
+  isPlayable: boolean;
+  onPress: () => void;
+  onLongPress: () => void;
+}) {
+  const art = track.album.images?.[0]?.url;
+  return (
+    <Pressable
+      style={({ pressed }) => [
+        styles.row,
+        pressed && isPlayable && styles.rowPressed,
+        !isPlayable && styles.rowDisabled,
+      ]}
+      onPress={isPlayable ? onPress : undefined}
+      onLongPress={isPlayable ? onLongPress : undefined}
+      testID={`spotify-track-${track.id}`}
+    >
+      {art ? (
+        <Image source={{ uri: art }} style={styles.thumb} />
+      ) : (
+        <View style={[styles.thumb, styles.thumbPlaceholder]}>
+          <Music size={18} color={colors.textMuted} />
+        </View>
+      )}
+      <View style={styles.meta}>
+        <Text style={[styles.name, isActive && styles.nameActive]} numberOfLines={1}>
+          {track.name}
+        </Text>
+        <Text style={styles.artist} numberOfLines={1}>
+          {track.artists.map((a) => a.name).join(', ')} · {track.album.name}
+        </Text>
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  rowPressed: {
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  rowDisabled: {
+    opacity: 0.5,
+  },
+  thumb: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+  },
+  thumbPlaceholder: {
+    backgroundColor: colors.surfaceLight,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  meta: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: colors.text,
+  },
+  nameActive: {
+    color: colors.accent,
+  },
+  artist: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
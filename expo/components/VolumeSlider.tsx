@@ -0,0 +1,82 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { Volume, Volume1, Volume2 } from 'lucide-react-native';
+import { colors } from '@/constants/colors';
+
+interface VolumeSliderProps {
+  value: number;
+  onChange: (value: number) => void;
+}
+
+export default function VolumeSlider({ value, onChange }: VolumeSliderProps) {
+  const [trackWidth, setTrackWidth] = useState(0);
+  const [dragValue, setDragValue] = useState<number | null>(null);
+
+  const displayValue = dragValue ?? value;
+
+  const handleLayout = useCallback((e: LayoutChangeEvent) => {
+    setTrackWidth(e.nativeEvent.layout.width);
+  }, []);
+
+  const valueFromX = useCallback((x: number) => {
+    if (trackWidth <= 0) return value;
+    return Math.round(Math.min(1, Math.max(0, x / trackWidth)) * 100) / 100;
+  }, [trackWidth, value]);
+
+  const gesture = useMemo(() => {
+    return Gesture.Pan()
+      .runOnJS(true)
+      .minDistance(0)
+      .onBegin((e) => setDragValue(valueFromX(e.x)))
+      .onUpdate((e) => setDragValue(valueFromX(e.x)))
+      .onEnd((e) => onChange(valueFromX(e.x)))
+      .onFinalize(() => setDragValue(null));
+  }, [valueFromX, onChange]);
+
+  const Icon = displayValue === 0 ? Volume : displayValue < 0.5 ? Volume1 : Volume2;
+
+  return (
+    <View style={styles.container}>
+      <Icon size={16} color={colors.textSecondary} />
+      <GestureDetector gesture={gesture}>
+        <View style={styles.hitArea} onLayout={handleLayout} testID="volume-slider">
+          <View style={styles.track}>
+            <View style={[styles.fill, { width: `${displayValue * 100}%` as any }]} />
+          </View>
+          <View style={[styles.thumb, { left: displayValue * trackWidth - 6 }]} />
+        </View>
+      </GestureDetector>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  hitArea: {
+    flex: 1,
+    height: 28,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 4,
+    backgroundColor: colors.text,
+  },
+  thumb: {
+    position: 'absolute',
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: colors.text,
+  },
+});
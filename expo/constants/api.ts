@@ -1,7 +1,7 @@
-export const LTX_API_KEY = process.env.EXPO_PUBLIC_LTX_API_KEY || '';
 export const WEBSITE_URL = 'https://synthesis.serapiscode.com/?usrtv=MzEz';
 
 export const SPOTIFY_CLIENT_ID = process.env.EXPO_PUBLIC_SPOTIFY_CLIENT_ID || '';
-export const SPOTIFY_CLIENT_SECRET = process.env.EXPO_PUBLIC_SPOTIFY_CLIENT_SECRET || '';
 export const LASTFM_API_KEY = process.env.EXPO_PUBLIC_LASTFM_API_KEY || '';
-export const XUMM_API_KEY = process.env.EXPO_PUBLIC_XUMM_API_KEY || '';
+export const JAM_SERVER_URL = process.env.EXPO_PUBLIC_JAM_SERVER_URL || 'ws://localhost:8787';
+/** Where the app's API routes are served; empty uses the expo-router origin. */
+export const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || '';
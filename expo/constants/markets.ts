@@ -0,0 +1,199 @@
+export interface SpotifyMarket {
+  /** ISO 3166-1 alpha-2 country code, as Spotify's `market` parameter takes it. */
+  code: string;
+  name: string;
+}
+
+/** Countries where Spotify is available, from its `/markets` endpoint. */
+export const SPOTIFY_MARKETS: SpotifyMarket[] = [
+  { code: 'AD', name: 'Andorra' },
+  { code: 'AE', name: 'United Arab Emirates' },
+  { code: 'AG', name: 'Antigua and Barbuda' },
+  { code: 'AL', name: 'Albania' },
+  { code: 'AM', name: 'Armenia' },
+  { code: 'AO', name: 'Angola' },
+  { code: 'AR', name: 'Argentina' },
+  { code: 'AT', name: 'Austria' },
+  { code: 'AU', name: 'Australia' },
+  { code: 'AZ', name: 'Azerbaijan' },
+  { code: 'BA', name: 'Bosnia and Herzegovina' },
+  { code: 'BB', name: 'Barbados' },
+  { code: 'BD', name: 'Bangladesh' },
+  { code: 'BE', name: 'Belgium' },
+  { code: 'BF', name: 'Burkina Faso' },
+  { code: 'BG', name: 'Bulgaria' },
+  { code: 'BH', name: 'Bahrain' },
+  { code: 'BI', name: 'Burundi' },
+  { code: 'BJ', name: 'Benin' },
+  { code: 'BN', name: 'Brunei' },
+  { code: 'BO', name: 'Bolivia' },
+  { code: 'BR', name: 'Brazil' },
+  { code: 'BS', name: 'Bahamas' },
+  { code: 'BT', name: 'Bhutan' },
+  { code: 'BW', name: 'Botswana' },
+  { code: 'BZ', name: 'Belize' },
+  { code: 'CA', name: 'Canada' },
+  { code: 'CD', name: 'DR Congo' },
+  { code: 'CG', name: 'Republic of the Congo' },
+  { code: 'CH', name: 'Switzerland' },
+  { code: 'CI', name: 'Côte d’Ivoire' },
+  { code: 'CL', name: 'Chile' },
+  { code: 'CM', name: 'Cameroon' },
+  { code: 'CO', name: 'Colombia' },
+  { code: 'CR', name: 'Costa Rica' },
+  { code: 'CV', name: 'Cape Verde' },
+  { code: 'CW', name: 'Curaçao' },
+  { code: 'CY', name: 'Cyprus' },
+  { code: 'CZ', name: 'Czechia' },
+  { code: 'DE', name: 'Germany' },
+  { code: 'DJ', name: 'Djibouti' },
+  { code: 'DK', name: 'Denmark' },
+  { code: 'DM', name: 'Dominica' },
+  { code: 'DO', name: 'Dominican Republic' },
+  { code: 'DZ', name: 'Algeria' },
+  { code: 'EC', name: 'Ecuador' },
+  { code: 'EE', name: 'Estonia' },
+  { code: 'EG', name: 'Egypt' },
+  { code: 'ES', name: 'Spain' },
+  { code: 'ET', name: 'Ethiopia' },
+  { code: 'FI', name: 'Finland' },
+  { code: 'FJ', name: 'Fiji' },
+  { code: 'FM', name: 'Micronesia' },
+  { code: 'FR', name: 'France' },
+  { code: 'GA', name: 'Gabon' },
+  { code: 'GB', name: 'United Kingdom' },
+  { code: 'GD', name: 'Grenada' },
+  { code: 'GE', name: 'Georgia' },
+  { code: 'GH', name: 'Ghana' },
+  { code: 'GM', name: 'Gambia' },
+  { code: 'GN', name: 'Guinea' },
+  { code: 'GQ', name: 'Equatorial Guinea' },
+  { code: 'GR', name: 'Greece' },
+  { code: 'GT', name: 'Guatemala' },
+  { code: 'GW', name: 'Guinea-Bissau' },
+  { code: 'GY', name: 'Guyana' },
+  { code: 'HK', name: 'Hong Kong' },
+  { code: 'HN', name: 'Honduras' },
+  { code: 'HR', name: 'Croatia' },
+  { code: 'HT', name: 'Haiti' },
+  { code: 'HU', name: 'Hungary' },
+  { code: 'ID', name: 'Indonesia' },
+  { code: 'IE', name: 'Ireland' },
+  { code: 'IL', name: 'Israel' },
+  { code: 'IN', name: 'India' },
+  { code: 'IQ', name: 'Iraq' },
+  { code: 'IS', name: 'Iceland' },
+  { code: 'IT', name: 'Italy' },
+  { code: 'JM', name: 'Jamaica' },
+  { code: 'JO', name: 'Jordan' },
+  { code: 'JP', name: 'Japan' },
+  { code: 'KE', name: 'Kenya' },
+  { code: 'KG', name: 'Kyrgyzstan' },
+  { code: 'KH', name: 'Cambodia' },
+  { code: 'KI', name: 'Kiribati' },
+  { code: 'KM', name: 'Comoros' },
+  { code: 'KN', name: 'Saint Kitts and Nevis' },
+  { code: 'KR', name: 'South Korea' },
+  { code: 'KW', name: 'Kuwait' },
+  { code: 'KZ', name: 'Kazakhstan' },
+  { code: 'LA', name: 'Laos' },
+  { code: 'LB', name: 'Lebanon' },
+  { code: 'LC', name: 'Saint Lucia' },
+  { code: 'LI', name: 'Liechtenstein' },
+  { code: 'LK', name: 'Sri Lanka' },
+  { code: 'LR', name: 'Liberia' },
+  { code: 'LS', name: 'Lesotho' },
+  { code: 'LT', name: 'Lithuania' },
+  { code: 'LU', name: 'Luxembourg' },
+  { code: 'LV', name: 'Latvia' },
+  { code: 'LY', name: 'Libya' },
+  { code: 'MA', name: 'Morocco' },
+  { code: 'MC', name: 'Monaco' },
+  { code: 'MD', name: 'Moldova' },
+  { code: 'ME', name: 'Montenegro' },
+  { code: 'MG', name: 'Madagascar' },
+  { code: 'MH', name: 'Marshall Islands' },
+  { code: 'MK', name: 'North Macedonia' },
+  { code: 'ML', name: 'Mali' },
+  { code: 'MN', name: 'Mongolia' },
+  { code: 'MO', name: 'Macao' },
+  { code: 'MR', name: 'Mauritania' },
+  { code: 'MT', name: 'Malta' },
+  { code: 'MU', name: 'Mauritius' },
+  { code: 'MV', name: 'Maldives' },
+  { code: 'MW', name: 'Malawi' },
+  { code: 'MX', name: 'Mexico' },
+  { code: 'MY', name: 'Malaysia' },
+  { code: 'MZ', name: 'Mozambique' },
+  { code: 'NA', name: 'Namibia' },
+  { code: 'NE', name: 'Niger' },
+  { code: 'NG', name: 'Nigeria' },
+  { code: 'NI', name: 'Nicaragua' },
+  { code: 'NL', name: 'Netherlands' },
+  { code: 'NO', name: 'Norway' },
+  { code: 'NP', name: 'Nepal' },
+  { code: 'NR', name: 'Nauru' },
+  { code: 'NZ', name: 'New Zealand' },
+  { code: 'OM', name: 'Oman' },
+  { code: 'PA', name: 'Panama' },
+  { code: 'PE', name: 'Peru' },
+  { code: 'PG', name: 'Papua New Guinea' },
+  { code: 'PH', name: 'Philippines' },
+  { code: 'PK', name: 'Pakistan' },
+  { code: 'PL', name: 'Poland' },
+  { code: 'PR', name: 'Puerto Rico' },
+  { code: 'PS', name: 'Palestine' },
+  { code: 'PT', name: 'Portugal' },
+  { code: 'PW', name: 'Palau' },
+  { code: 'PY', name: 'Paraguay' },
+  { code: 'QA', name: 'Qatar' },
+  { code: 'RO', name: 'Romania' },
+  { code: 'RS', name: 'Serbia' },
+  { code: 'RW', name: 'Rwanda' },
+  { code: 'SA', name: 'Saudi Arabia' },
+  { code: 'SB', name: 'Solomon Islands' },
+  { code: 'SC', name: 'Seychelles' },
+  { code: 'SE', name: 'Sweden' },
+  { code: 'SG', name: 'Singapore' },
+  { code: 'SI', name: 'Slovenia' },
+  { code: 'SK', name: 'Slovakia' },
+  { code: 'SL', name: 'Sierra Leone' },
+  { code: 'SM', name: 'San Marino' },
+  { code: 'SN', name: 'Senegal' },
+  { code: 'SR', name: 'Suriname' },
+  { code: 'ST', name: 'São Tomé and Príncipe' },
+  { code: 'SV', name: 'El Salvador' },
+  { code: 'SZ', name: 'Eswatini' },
+  { code: 'TD', name: 'Chad' },
+  { code: 'TG', name: 'Togo' },
+  { code: 'TH', name: 'Thailand' },
+  { code: 'TJ', name: 'Tajikistan' },
+  { code: 'TL', name: 'Timor-Leste' },
+  { code: 'TN', name: 'Tunisia' },
+  { code: 'TO', name: 'Tonga' },
+  { code: 'TR', name: 'Türkiye' },
+  { code: 'TT', name: 'Trinidad and Tobago' },
+  { code: 'TV', name: 'Tuvalu' },
+  { code: 'TW', name: 'Taiwan' },
+  { code: 'TZ', name: 'Tanzania' },
+  { code: 'UA', name: 'Ukraine' },
+  { code: 'UG', name: 'Uganda' },
+  { code: 'US', name: 'United States' },
+  { code: 'UY', name: 'Uruguay' },
+  { code: 'UZ', name: 'Uzbekistan' },
+  { code: 'VC', name: 'Saint Vincent and the Grenadines' },
+  { code: 'VE', name: 'Venezuela' },
+  { code: 'VN', name: 'Vietnam' },
+  { code: 'VU', name: 'Vanuatu' },
+  { code: 'WS', name: 'Samoa' },
+  { code: 'XK', name: 'Kosovo' },
+  { code: 'ZA', name: 'South Africa' },
+  { code: 'ZM', name: 'Zambia' },
+  { code: 'ZW', name: 'Zimbabwe' },
+];
+
+export const DEFAULT_MARKET = 'US';
+
+export function getMarketName(code: string): string {
+  return SPOTIFY_MARKETS.find((m) => m.code === code)?.name ?? code;
+}
@@ -0,0 +1,85 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useDownloads } from '@/providers/DownloadsProvider';
+import { spotifyTrackToPlayerTrack } from '@/providers/MusicPlayerProvider';
+import { getDownloadCollectionKey } from '@/services/downloads';
+import {
+  SpotifyTrack,
+  SpotifyAlbum,
+  SpotifyPlaylist,
+  getAlbumTracks,
+  getAllPlaylistTracks,
+} from '@/services/spotify';
+
+/**
+ * useDownloadActions — queues Spotify tracks, albums, playlists and Liked
+ * Songs for offline playback, and offers a download menu for each collection.
+ */
+export function useDownloadActions() {
+  const { isSupported, collections, downloadCollection, downloadTrack, removeCollection } = useDownloads();
+
+  const downloadSpotifyTrack = useCallback((track: SpotifyTrack) => {
+    downloadTrack(spotifyTrackToPlayerTrack(track));
+  }, [downloadTrack]);
+
+  const downloadAlbum = useCallback(async (album: SpotifyAlbum) => {
+    try {
+      const { tracks } = await getAlbumTracks(album.id);
+      downloadCollection('album', album.id, album.name, tracks.map(spotifyTrackToPlayerTrack));
+    } catch (err) {
+      console.error('Failed to load album for download:', err);
+      Alert.alert('Download failed', `Couldn't load the tracks on ${album.name}.`);
+    }
+  }, [downloadCollection]);
+
+  const downloadPlaylist = useCallback(async (playlist: SpotifyPlaylist) => {
+    try {
+      const tracks = await getAllPlaylistTracks(playlist.id);
+      downloadCollection('playlist', playlist.id, playlist.name, tracks.map(spotifyTrackToPlayerTrack));
+    } catch (err) {
+      console.error('Failed to load playlist for download:', err);
+      Alert.alert('Download failed', `Couldn't load the tracks in ${playlist.name}.`);
+    }
+  }, [downloadCollection]);
+
+  const openCollectionMenu = useCallback((
+    title: string,
+    key: string,
+    download: () => Promise<void>,
+  ) => {
+    if (!isSupported) return;
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const isSaved = collections.some((c) => c.collection.id === key);
+    Alert.alert(title, undefined, [
+      isSaved
+        ? { text: 'Remove Download', style: 'destructive', onPress: () => removeCollection(key) }
+        : { text: 'Download', onPress: () => void download() },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [isSupported, collections, removeCollection]);
+
+  const openAlbumMenu = useCallback((album: SpotifyAlbum) => {
+    openCollectionMenu(album.name, getDownloadCollectionKey('album', album.id), () => downloadAlbum(album));
+  }, [openCollectionMenu, downloadAlbum]);
+
+  const openPlaylistMenu = useCallback((playlist: SpotifyPlaylist) => {
+    openCollectionMenu(playlist.name, getDownloadCollectionKey('playlist', playlist.id), () => downloadPlaylist(playlist));
+  }, [openCollectionMenu, downloadPlaylist]);
+
+  const openLikedSongsMenu = useCallback((userId: string, tracks: SpotifyTrack[]) => {
+    openCollectionMenu('Liked Songs', getDownloadCollectionKey('liked', userId), async () => {
+      downloadCollection('liked', userId, 'Liked Songs', tracks.map(spotifyTrackToPlayerTrack));
+    });
+  }, [openCollectionMenu, downloadCollection]);
+
+  return {
+    isSupported,
+    downloadSpotifyTrack,
+    downloadAlbum,
+    downloadPlaylist,
+    openAlbumMenu,
+    openPlaylistMenu,
+    openLikedSongsMenu,
+  };
+}
@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+import * as Haptics from 'expo-haptics';
+import { useMusicPlayer } from '@/providers/MusicPlayerProvider';
+import { HistoryEntry, PlayContext } from '@/providers/PlayHistoryProvider';
+
+/**
+ * useHistoryReplay — returns a handler that plays a history entry again,
+ * through `playSpotifyTrack` for Spotify tracks and `playTrack` otherwise.
+ */
+export function useHistoryReplay() {
+  const { playSpotifyTrack, playTrack } = useMusicPlayer();
+
+  return useCallback((entry: HistoryEntry, context: PlayContext) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (entry.spotifyTrack) {
+      playSpotifyTrack(entry.spotifyTrack, undefined, context);
+    } else {
+      void playTrack({ ...entry.track, context });
+    }
+  }, [playSpotifyTrack, playTrack]);
+}
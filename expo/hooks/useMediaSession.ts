@@ -0,0 +1,64 @@
+import { useState, useEffect, useRef } from 'react';
+import { createMediaSession } from '@/services/mediaSession';
+import { RemoteCommand } from '@/services/mediaSessionTypes';
+import { PlayerTrack } from '@/providers/MusicPlayerProvider';
+
+// Position reports further than this from where the OS would extrapolate are treated as seeks.
+const SEEK_DRIFT_MS = 1500;
+
+interface MediaSessionOptions {
+  currentTrack: PlayerTrack | null;
+  isPlaying: boolean;
+  positionMs: number;
+  durationMs: number;
+  rate: number;
+  onCommand: (command: RemoteCommand) => void;
+}
+
+/**
+ * useMediaSession — mirrors the player into the OS media controls (lock
+ * screen, notification, browser media keys) and forwards their commands to
+ * `onCommand`. Position is only republished on play/pause, rate changes and
+ * seeks, since the OS advances it on its own in between.
+ */
+export function useMediaSession({
+  currentTrack,
+  isPlaying,
+  positionMs,
+  durationMs,
+  rate,
+  onCommand,
+}: MediaSessionOptions) {
+  const commandRef = useRef(onCommand);
+  commandRef.current = onCommand;
+  const [session] = useState(() => createMediaSession((command) => commandRef.current(command)));
+  const publishedRef = useRef<{ positionMs: number; at: number; isPlaying: boolean; rate: number } | null>(null);
+
+  useEffect(() => () => session.dispose(), [session]);
+
+  // Local files don't know their duration until the engine has loaded them.
+  const trackDurationMs = currentTrack?.durationMs || durationMs;
+
+  useEffect(() => {
+    publishedRef.current = null;
+    session.setNowPlaying(currentTrack ? {
+      title: currentTrack.name,
+      artist: currentTrack.artistName,
+      album: currentTrack.albumName,
+      artworkUri: currentTrack.albumArt || null,
+      durationMs: trackDurationMs,
+    } : null);
+  }, [session, currentTrack, trackDurationMs]);
+
+  useEffect(() => {
+    if (!currentTrack) return;
+    const now = Date.now();
+    const last = publishedRef.current;
+    if (last && last.isPlaying === isPlaying && last.rate === rate) {
+      const expected = last.positionMs + (isPlaying ? (now - last.at) * rate : 0);
+      if (Math.abs(positionMs - expected) < SEEK_DRIFT_MS) return;
+    }
+    publishedRef.current = { positionMs, at: now, isPlaying, rate };
+    session.setPlaybackState({ isPlaying, positionMs, durationMs, rate });
+  }, [session, currentTrack, isPlaying, positionMs, durationMs, rate]);
+}
@@ -0,0 +1,39 @@
+import { useCallback } from 'react';
+import { useRouter } from 'expo-router';
+import { SpotifyAlbum, SpotifyPlaylist } from '@/services/spotify';
+
+/**
+ * useOpenCollection — opens the track list for an album or playlist. The
+ * name and artwork travel along so the header shows before the tracks load.
+ */
+export function useOpenCollection() {
+  const router = useRouter();
+
+  const openAlbum = useCallback((album: SpotifyAlbum) => {
+    router.push({
+      pathname: '/collection/[kind]/[id]',
+      params: {
+        kind: 'album',
+        id: album.id,
+        name: album.name,
+        image: album.images?.[0]?.url ?? '',
+        subtitle: album.artists.map((a) => a.name).join(', '),
+      },
+    });
+  }, [router]);
+
+  const openPlaylist = useCallback((playlist: SpotifyPlaylist) => {
+    router.push({
+      pathname: '/collection/[kind]/[id]',
+      params: {
+        kind: 'playlist',
+        id: playlist.id,
+        name: playlist.name,
+        image: playlist.images?.[0]?.url ?? '',
+        subtitle: playlist.owner.display_name,
+      },
+    });
+  }, [router]);
+
+  return { openAlbum, openPlaylist };
+}
@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useMusicPlayer } from '@/providers/MusicPlayerProvider';
+import { useDownloads } from '@/providers/DownloadsProvider';
+import { useDownloadActions } from '@/hooks/useDownloadActions';
+import { SpotifyTrack } from '@/services/spotify';
+
+/**
+ * useQueueMenu — returns a long-press handler that offers
+ * "Play Next" / "Add to Queue" (and "Download" where supported) for a
+ * Spotify track row.
+ */
+export function useQueueMenu() {
+  const { queueSpotifyTrack } = useMusicPlayer();
+  const { items } = useDownloads();
+  const { isSupported, downloadSpotifyTrack } = useDownloadActions();
+
+  return useCallback((track: SpotifyTrack) => {
+    void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const canDownload = isSupported && !items[track.id];
+    Alert.alert(track.name, track.artists.map((a) => a.name).join(', '), [
+      { text: 'Play Next', onPress: () => queueSpotifyTrack(track, 'next') },
+      { text: 'Add to Queue', onPress: () => queueSpotifyTrack(track, 'last') },
+      ...(canDownload ? [{ text: 'Download', onPress: () => downloadSpotifyTrack(track) }] : []),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  }, [queueSpotifyTrack, items, isSupported, downloadSpotifyTrack]);
+}
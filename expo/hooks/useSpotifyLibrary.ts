@@ -0,0 +1,45 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSpotifyAuth } from '@/providers/SpotifyAuthProvider';
+import {
+  SpotifyLibrarySnapshot,
+  loadLibrarySnapshot,
+  refreshSpotifyLibrary,
+} from '@/services/spotifyLibrary';
+
+/**
+ * useSpotifyLibrary — the connected user's Spotify library. Shows the stored
+ * snapshot straight away and syncs it with Spotify in the background.
+ */
+export function useSpotifyLibrary() {
+  const queryClient = useQueryClient();
+  const { isConnected, profile } = useSpotifyAuth();
+  const userId = isConnected ? profile?.id ?? null : null;
+
+  const snapshotQuery = useQuery({
+    queryKey: ['spotifyLibrarySnapshot', userId],
+    queryFn: () => loadLibrarySnapshot(userId!),
+    enabled: !!userId,
+    staleTime: Infinity,
+  });
+
+  const libraryQuery = useQuery({
+    queryKey: ['spotifyLibrary', userId],
+    queryFn: async () => {
+      const previous = queryClient.getQueryData<SpotifyLibrarySnapshot>(['spotifyLibrary', userId])
+        ?? await loadLibrarySnapshot(userId!);
+      return refreshSpotifyLibrary(userId!, previous);
+    },
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 10,
+  });
+
+  const library = libraryQuery.data ?? snapshotQuery.data ?? null;
+
+  return {
+    library,
+    isLoading: !library && (snapshotQuery.isLoading || libraryQuery.isLoading),
+    isRefreshing: libraryQuery.isFetching,
+    error: libraryQuery.error,
+    refresh: libraryQuery.refetch,
+  };
+}
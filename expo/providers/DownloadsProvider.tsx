@@ -0,0 +1,358 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Platform } from 'react-native';
+import createContextHook from '@nkzw/create-context-hook';
+import { resolveAudioSource } from '@/services/audioSources';
+import {
+  DownloadCollection,
+  DownloadCollectionKind,
+  DownloadItem,
+  DownloadState,
+  DownloadTask,
+  DownloadTrack,
+  EMPTY_DOWNLOAD_STATE,
+  MIN_FREE_DISK_BYTES,
+  createDownloadTask,
+  deleteDownloadFiles,
+  downloadArt,
+  getAudioFileName,
+  getDownloadCollectionKey,
+  getFreeDiskBytes,
+  getUsedBytes,
+  loadDownloadState,
+  saveDownloadState,
+  setOfflineIndex,
+} from '@/services/downloads';
+
+const MAX_CONCURRENT_DOWNLOADS = 2;
+const MAX_AUTO_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5000;
+const PROGRESS_THROTTLE_MS = 250;
+
+export interface DownloadProgress {
+  bytesWritten: number;
+  bytesTotal: number;
+}
+
+export interface CollectionSummary {
+  collection: DownloadCollection;
+  done: number;
+  failed: number;
+  total: number;
+}
+
+export const [DownloadsProvider, useDownloads] = createContextHook(() => {
+  const isSupported = Platform.OS !== 'web';
+  const [state, setState] = useState<DownloadState>(EMPTY_DOWNLOAD_STATE);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Live byte counts, kept out of `state` so progress ticks don't rewrite storage.
+  const [progress, setProgress] = useState<Record<string, DownloadProgress>>({});
+  const tasksRef = useRef(new Map<string, DownloadTask>());
+  const activeRef = useRef(new Set<string>());
+  const retryTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => {
+    if (!isSupported) {
+      setIsLoaded(true);
+      return;
+    }
+    loadDownloadState()
+      .then((loaded) => {
+        setOfflineIndex(loaded.items);
+        setState(loaded);
+      })
+      .catch((err) => console.error('Failed to load downloads:', err))
+      .finally(() => setIsLoaded(true));
+  }, [isSupported]);
+
+  useEffect(() => {
+    if (!isLoaded || !isSupported) return;
+    setOfflineIndex(state.items);
+    saveDownloadState(state).catch((err) => console.error('Failed to save downloads:', err));
+  }, [state, isLoaded, isSupported]);
+
+  const updateItem = useCallback((trackId: string, patch: Partial<DownloadItem>) => {
+    setState((prev) => {
+      const item = prev.items[trackId];
+      // The item may have been removed while its transfer was finishing.
+      if (!item) return prev;
+      return { ...prev, items: { ...prev.items, [trackId]: { ...item, ...patch } } };
+    });
+  }, []);
+
+  const clearRetryTimer = useCallback((trackId: string) => {
+    const timer = retryTimersRef.current.get(trackId);
+    if (timer) clearTimeout(timer);
+    retryTimersRef.current.delete(trackId);
+  }, []);
+
+  const runDownload = useCallback(async (item: DownloadItem) => {
+    const trackId = item.track.id;
+    activeRef.current.add(trackId);
+    updateItem(trackId, { status: 'downloading', error: null });
+    try {
+      const { storageLimitBytes, items } = stateRef.current;
+      if (storageLimitBytes !== null && getUsedBytes(items) >= storageLimitBytes) {
+        updateItem(trackId, { status: 'failed', error: 'Storage limit reached' });
+        return;
+      }
+      if (getFreeDiskBytes() < MIN_FREE_DISK_BYTES) {
+        updateItem(trackId, { status: 'failed', error: 'Not enough free space on this device' });
+        return;
+      }
+
+      const source = await resolveAudioSource(item.track);
+      if (!source || source.kind === 'hls' || source.kind === 'file') {
+        updateItem(trackId, { status: 'failed', error: 'No downloadable audio for this track' });
+        return;
+      }
+      // There was no task to stop while the source resolved, so a pause or removal only shows up here.
+      const latest = stateRef.current.items[trackId];
+      if (!latest || latest.status === 'paused') return;
+
+      const fileName = item.audioFileName ?? getAudioFileName(trackId, source.uri);
+      let lastTick = 0;
+      const task = createDownloadTask(source.uri, fileName, item.resumeData, (bytesWritten, bytesTotal) => {
+        const now = Date.now();
+        if (now - lastTick < PROGRESS_THROTTLE_MS && bytesWritten !== bytesTotal) return;
+        lastTick = now;
+        setProgress((prev) => ({ ...prev, [trackId]: { bytesWritten, bytesTotal } }));
+      });
+      tasksRef.current.set(trackId, task);
+      updateItem(trackId, { audioFileName: fileName });
+
+      const bytes = await task.run();
+      // Paused or removed; whoever stopped it has already updated the item.
+      if (bytes === null) return;
+
+      const artFileName = await downloadArt(trackId, item.track.albumArt);
+      updateItem(trackId, {
+        status: 'done',
+        artFileName,
+        bytesWritten: bytes,
+        bytesTotal: bytes,
+        resumeData: null,
+        error: null,
+      });
+    } catch (err) {
+      const attempts = item.attempts + 1;
+      const message = err instanceof Error ? err.message : 'Download failed';
+      console.warn(`Download of "${item.track.name}" failed (attempt ${attempts}):`, err);
+      updateItem(trackId, { status: 'failed', error: message, attempts, resumeData: null });
+      if (attempts < MAX_AUTO_ATTEMPTS) {
+        clearRetryTimer(trackId);
+        retryTimersRef.current.set(trackId, setTimeout(() => {
+          retryTimersRef.current.delete(trackId);
+          updateItem(trackId, { status: 'queued' });
+        }, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)));
+      }
+    } finally {
+      tasksRef.current.delete(trackId);
+      activeRef.current.delete(trackId);
+      setProgress((prev) => {
+        if (!(trackId in prev)) return prev;
+        const next = { ...prev };
+        delete next[trackId];
+        return next;
+      });
+    }
+  }, [updateItem, clearRetryTimer]);
+
+  // Starts queued downloads, oldest first, whenever a slot is free.
+  useEffect(() => {
+    if (!isLoaded || !isSupported) return;
+    const free = MAX_CONCURRENT_DOWNLOADS - activeRef.current.size;
+    if (free <= 0) return;
+    Object.values(state.items)
+      .filter((item) => item.status === 'queued' && !activeRef.current.has(item.track.id))
+      .sort((a, b) => a.addedAt - b.addedAt)
+      .slice(0, free)
+      .forEach((item) => void runDownload(item));
+  }, [state.items, isLoaded, isSupported, runDownload]);
+
+  useEffect(() => {
+    const tasks = tasksRef.current;
+    const timers = retryTimersRef.current;
+    return () => {
+      timers.forEach(clearTimeout);
+      tasks.forEach((task) => void task.pause().catch(() => {}));
+    };
+  }, []);
+
+  /** Adds tracks to the download queue under a collection, creating or extending it. */
+  const downloadCollection = useCallback((
+    kind: DownloadCollectionKind,
+    id: string,
+    name: string,
+    tracks: DownloadTrack[],
+  ) => {
+    const key = getDownloadCollectionKey(kind, id);
+    const downloadable = tracks.filter((t) => t.source?.kind !== 'file' && t.source?.kind !== 'hls');
+    const now = Date.now();
+    setState((prev) => {
+      const items = { ...prev.items };
+      downloadable.forEach((track, i) => {
+        if (items[track.id]) return;
+        items[track.id] = {
+          track: {
+            id: track.id,
+            name: track.name,
+            artistName: track.artistName,
+            albumName: track.albumName,
+            albumArt: track.albumArt,
+            durationMs: track.durationMs,
+            isrc: track.isrc,
+            source: track.source,
+          },
+          status: 'queued',
+          audioFileName: null,
+          artFileName: null,
+          bytesWritten: 0,
+          bytesTotal: -1,
+          attempts: 0,
+          error: null,
+          resumeData: null,
+          // Keeps the collection's own order within the queue.
+          addedAt: now + i,
+        };
+      });
+      const existing = prev.collections[key];
+      const trackIds = [...new Set([...(existing?.trackIds ?? []), ...downloadable.map((t) => t.id)])];
+      return {
+        ...prev,
+        items,
+        collections: { ...prev.collections, [key]: { id: key, kind, name, trackIds, addedAt: existing?.addedAt ?? now } },
+      };
+    });
+    console.log(`Queued ${downloadable.length} downloads for ${key}`);
+  }, []);
+
+  const downloadTrack = useCallback((track: DownloadTrack) => {
+    downloadCollection('track', track.id, track.name, [track]);
+  }, [downloadCollection]);
+
+  const pauseDownload = useCallback(async (trackId: string) => {
+    clearRetryTimer(trackId);
+    const task = tasksRef.current.get(trackId);
+    if (!task) {
+      updateItem(trackId, { status: 'paused' });
+      return;
+    }
+    tasksRef.current.delete(trackId);
+    try {
+      const resumeData = await task.pause();
+      updateItem(trackId, { status: 'paused', resumeData });
+    } catch (err) {
+      console.warn('Failed to pause download:', err);
+      updateItem(trackId, { status: 'paused', resumeData: null });
+    }
+  }, [updateItem, clearRetryTimer]);
+
+  const resumeDownload = useCallback((trackId: string) => {
+    updateItem(trackId, { status: 'queued' });
+  }, [updateItem]);
+
+  const retryDownload = useCallback((trackId: string) => {
+    clearRetryTimer(trackId);
+    updateItem(trackId, { status: 'queued', attempts: 0, error: null });
+  }, [updateItem, clearRetryTimer]);
+
+  const pauseAll = useCallback(() => {
+    Object.values(stateRef.current.items).forEach((item) => {
+      if (item.status === 'queued' || item.status === 'downloading') void pauseDownload(item.track.id);
+    });
+  }, [pauseDownload]);
+
+  const resumeAll = useCallback(() => {
+    setState((prev) => {
+      const items = { ...prev.items };
+      Object.values(items).forEach((item) => {
+        if (item.status === 'paused' || item.status === 'failed') {
+          items[item.track.id] = { ...item, status: 'queued', attempts: 0, error: null };
+        }
+      });
+      return { ...prev, items };
+    });
+  }, []);
+
+  /** Removes a collection and deletes any of its tracks no other collection still holds. */
+  const removeCollection = useCallback((key: string) => {
+    const current = stateRef.current;
+    const collection = current.collections[key];
+    if (!collection) return;
+    const stillHeld = new Set(
+      Object.values(current.collections)
+        .filter((c) => c.id !== key)
+        .flatMap((c) => c.trackIds),
+    );
+    const orphaned = collection.trackIds.filter((id) => !stillHeld.has(id));
+    orphaned.forEach((trackId) => {
+      clearRetryTimer(trackId);
+      const task = tasksRef.current.get(trackId);
+      tasksRef.current.delete(trackId);
+      void (task ? task.cancel() : Promise.resolve())
+        .catch((err) => console.warn('Failed to cancel download:', err))
+        .finally(() => {
+          const item = current.items[trackId];
+          if (item) deleteDownloadFiles(item);
+        });
+    });
+    setState((prev) => {
+      const items = { ...prev.items };
+      orphaned.forEach((id) => delete items[id]);
+      const collections = { ...prev.collections };
+      delete collections[key];
+      return { ...prev, items, collections };
+    });
+  }, [clearRetryTimer]);
+
+  const setStorageLimit = useCallback((bytes: number | null) => {
+    setState((prev) => ({ ...prev, storageLimitBytes: bytes }));
+  }, []);
+
+  const isDownloaded = useCallback((trackId: string) => {
+    return state.items[trackId]?.status === 'done';
+  }, [state.items]);
+
+  const usedBytes = useMemo(() => getUsedBytes(state.items), [state.items]);
+
+  const collections = useMemo((): CollectionSummary[] => {
+    return Object.values(state.collections)
+      .sort((a, b) => b.addedAt - a.addedAt)
+      .map((collection) => {
+        const items = collection.trackIds.map((id) => state.items[id]).filter(Boolean);
+        return {
+          collection,
+          done: items.filter((i) => i.status === 'done').length,
+          failed: items.filter((i) => i.status === 'failed').length,
+          total: items.length,
+        };
+      });
+  }, [state.collections, state.items]);
+
+  const activeCount = useMemo(
+    () => Object.values(state.items).filter((i) => i.status === 'queued' || i.status === 'downloading').length,
+    [state.items],
+  );
+
+  return useMemo(() => ({
+    isSupported,
+    items: state.items,
+    collections,
+    progress,
+    usedBytes,
+    storageLimitBytes: state.storageLimitBytes,
+    activeCount,
+    isDownloaded,
+    downloadCollection,
+    downloadTrack,
+    pauseDownload,
+    resumeDownload,
+    retryDownload,
+    pauseAll,
+    resumeAll,
+    removeCollection,
+    setStorageLimit,
+  }), [isSupported, state.items, collections, progress, usedBytes, state.storageLimitBytes, activeCount, isDownloaded, downloadCollection, downloadTrack, pauseDownload, resumeDownload, retryDownload, pauseAll, resumeAll, removeCollection, setStorageLimit]);
+});
@@ -0,0 +1,301 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import createContextHook from '@nkzw/create-context-hook';
+import { JAM_SERVER_URL } from '@/constants/api';
+import { useMusicPlayer, PlayerTrack, PlaybackDelegate } from '@/providers/MusicPlayerProvider';
+import { createJamClient, JamClient, JamConnectionStatus } from '@/services/jamClient';
+import {
+  JamClientMessage,
+  JamRoomState,
+  JamTrack,
+  getCurrentJamItem,
+  getJamPosition,
+  getSkipVotesNeeded,
+} from '@/services/jamProtocol';
+
+const NAME_KEY = 'fmeo_jam_name';
+/** Listeners further than this from the room's position seek to catch up. */
+const MAX_DRIFT_MS = 750;
+const DRIFT_CHECK_INTERVAL_MS = 3000;
+/** Reported positions lag a seek or load; don't correct drift until they settle. */
+const SETTLE_MS = 2000;
+const RESTART_THRESHOLD_MS = 3000;
+
+function toJamTrack(track: PlayerTrack): JamTrack {
+  return {
+    id: track.id,
+    name: track.name,
+    artistName: track.artistName,
+    albumName: track.albumName,
+    albumArt: track.albumArt,
+    durationMs: track.durationMs,
+    isrc: track.isrc,
+    // Files on the host's device mean nothing to anyone else; listeners resolve those by name.
+    source: track.source && track.source.kind !== 'file' ? { kind: track.source.kind, uri: track.source.uri } : null,
+  };
+}
+
+function fromJamTrack(track: JamTrack, roomCode: string): PlayerTrack {
+  return { ...track, context: { type: 'jam', label: roomCode } };
+}
+
+export const [JamProvider, useJam] = createContextHook(() => {
+  const player = useMusicPlayer();
+  const { directControls, setPlaybackDelegate } = player;
+  const [room, setRoom] = useState<JamRoomState | null>(null);
+  const [memberId, setMemberId] = useState<string | null>(null);
+  const [status, setStatus] = useState<JamConnectionStatus>('closed');
+  const [error, setError] = useState<string | null>(null);
+  const [displayName, setDisplayName] = useState('');
+
+  const clientRef = useRef<JamClient | null>(null);
+  const roomRef = useRef<JamRoomState | null>(null);
+  const loadedItemIdRef = useRef<string | null>(null);
+  const loadingRef = useRef(false);
+  const settleUntilRef = useRef(0);
+  const startTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Mirrors for the delegate and sync loop, which outlive any one render.
+  const positionRef = useRef(0);
+  const memberIdRef = useRef<string | null>(null);
+  roomRef.current = room;
+  positionRef.current = player.position;
+  memberIdRef.current = memberId;
+
+  const inJam = room !== null;
+  const isHost = inJam && room.hostId === memberId;
+
+  useEffect(() => {
+    AsyncStorage.getItem(NAME_KEY)
+      .then((stored) => {
+        if (stored) setDisplayName(stored);
+      })
+      .catch((err) => console.error('Failed to load jam name:', err));
+  }, []);
+
+  const send = useCallback((message: JamClientMessage) => {
+    clientRef.current?.send(message);
+  }, []);
+
+  const clearStartTimer = useCallback(() => {
+    if (startTimerRef.current) clearTimeout(startTimerRef.current);
+    startTimerRef.current = null;
+  }, []);
+
+  /**
+   * Brings the local player in line with the room: loads the current entry,
+   * matches play/pause and seeks when drift exceeds `MAX_DRIFT_MS`. Starts
+   * scheduled in the future wait on a timer so everyone begins together.
+   */
+  const syncPlayback = useCallback(async (): Promise<void> => {
+    const current = roomRef.current;
+    const client = clientRef.current;
+    if (!current || !client || loadingRef.current) return;
+    clearStartTimer();
+
+    const item = getCurrentJamItem(current);
+    const state = directControls.getState();
+    if (!item) {
+      loadedItemIdRef.current = null;
+      if (state === 'playing') await directControls.pause();
+      return;
+    }
+
+    const { playback } = current;
+    const expected = getJamPosition(playback, client.toServerTime(Date.now()));
+
+    if (loadedItemIdRef.current !== item.id) {
+      loadedItemIdRef.current = item.id;
+      loadingRef.current = true;
+      let loaded = false;
+      try {
+        loaded = await directControls.loadTrack(fromJamTrack(item.track, current.code), Math.max(0, expected));
+      } finally {
+        loadingRef.current = false;
+      }
+      settleUntilRef.current = Date.now() + SETTLE_MS;
+      if (!loaded) {
+        // Let the next drift check try again rather than treating the track as loaded.
+        loadedItemIdRef.current = null;
+        console.warn('Could not play jam track:', item.track.name);
+        return;
+      }
+      // Loading takes a while; line up against where the room is now.
+      return syncPlayback();
+    }
+
+    const settled = Date.now() > settleUntilRef.current;
+    const seekIfDrifted = async (target: number) => {
+      if (!settled || Math.abs(positionRef.current - target) <= MAX_DRIFT_MS) return;
+      settleUntilRef.current = Date.now() + SETTLE_MS;
+      await directControls.seekTo(target);
+    };
+
+    if (!playback.isPlaying) {
+      if (state === 'playing') await directControls.pause();
+      await seekIfDrifted(playback.positionMs);
+      return;
+    }
+    if (expected < 0) {
+      if (state === 'playing') await directControls.pause();
+      await directControls.seekTo(playback.positionMs);
+      settleUntilRef.current = Date.now() + SETTLE_MS;
+      startTimerRef.current = setTimeout(() => void syncPlayback(), -expected);
+      return;
+    }
+    await seekIfDrifted(expected);
+    if (state !== 'playing') {
+      settleUntilRef.current = Date.now() + SETTLE_MS;
+      await directControls.play();
+    }
+  }, [directControls, clearStartTimer]);
+
+  useEffect(() => {
+    if (room) void syncPlayback();
+  }, [room, syncPlayback]);
+
+  useEffect(() => {
+    if (!inJam) return;
+    const interval = setInterval(() => void syncPlayback(), DRIFT_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [inJam, syncPlayback]);
+
+  const delegate = useMemo<PlaybackDelegate>(() => {
+    const hostOnly = (action: (current: JamRoomState) => void) => () => {
+      const current = roomRef.current;
+      if (!current) return;
+      if (current.hostId !== memberIdRef.current) {
+        setError('Only the host can control playback.');
+        return;
+      }
+      action(current);
+    };
+    return {
+      playTrack: (track) => send({ type: 'addTrack', track: toJamTrack(track) }),
+      togglePlayPause: hostOnly((current) => {
+        if (current.playback.isPlaying) {
+          send({ type: 'pause', positionMs: Math.round(positionRef.current) });
+        } else {
+          send({ type: 'play' });
+        }
+      }),
+      seekTo: (positionMs) => hostOnly(() => send({ type: 'seek', positionMs: Math.round(positionMs) }))(),
+      skipNext: () => {
+        const current = roomRef.current;
+        if (!current) return;
+        if (current.hostId === memberIdRef.current) {
+          const next = current.playback.index + 1;
+          if (next < current.queue.length) send({ type: 'playIndex', index: next });
+        } else {
+          send({ type: 'voteSkip' });
+        }
+      },
+      skipPrevious: hostOnly((current) => {
+        const { index } = current.playback;
+        if (positionRef.current > RESTART_THRESHOLD_MS || index <= 0) {
+          send({ type: 'seek', positionMs: 0 });
+        } else {
+          send({ type: 'playIndex', index: index - 1 });
+        }
+      }),
+      trackEnded: () => {
+        const current = roomRef.current;
+        // Only the host's report counts; everyone else waits for the room to move on.
+        if (current && current.hostId === memberIdRef.current) {
+          send({ type: 'trackEnded', index: current.playback.index });
+        }
+      },
+    };
+  }, [send]);
+
+  useEffect(() => {
+    if (!inJam) return;
+    setPlaybackDelegate(delegate);
+    return () => setPlaybackDelegate(null);
+  }, [inJam, delegate, setPlaybackDelegate]);
+
+  /** Drops all room state; once `room` is null the playback delegate uninstalls itself. */
+  const resetJam = useCallback(() => {
+    clearStartTimer();
+    loadedItemIdRef.current = null;
+    setRoom(null);
+    setMemberId(null);
+    if (directControls.getState() === 'playing') void directControls.pause();
+  }, [directControls, clearStartTimer]);
+
+  const leaveJam = useCallback(() => {
+    clientRef.current?.close();
+    clientRef.current = null;
+    resetJam();
+  }, [resetJam]);
+
+  const connect = useCallback((entry: { type: 'create' } | { type: 'join'; code: string }, name: string) => {
+    clientRef.current?.close();
+    const trimmed = name.trim();
+    setDisplayName(trimmed);
+    AsyncStorage.setItem(NAME_KEY, trimmed)
+      .catch((err) => console.error('Failed to save jam name:', err));
+    setError(null);
+    loadedItemIdRef.current = null;
+
+    clientRef.current = createJamClient(
+      JAM_SERVER_URL,
+      entry.type === 'join' ? { type: 'join', code: entry.code, name: trimmed } : { type: 'create', name: trimmed },
+      {
+        onWelcome: (id, next) => {
+          setMemberId(id);
+          setRoom(next);
+        },
+        onRoom: setRoom,
+        onError: setError,
+        onStatus: (next) => {
+          setStatus(next);
+          // The room ended or the connection gave up: leave exactly as if the user had.
+          if (next === 'closed') {
+            clientRef.current = null;
+            resetJam();
+          }
+        },
+      },
+    );
+  }, [resetJam]);
+
+  const createJam = useCallback((name: string) => connect({ type: 'create' }, name), [connect]);
+  const joinJam = useCallback((code: string, name: string) => {
+    connect({ type: 'join', code: code.trim().toUpperCase() }, name);
+  }, [connect]);
+
+  const addTrack = useCallback((track: PlayerTrack) => {
+    send({ type: 'addTrack', track: toJamTrack(track) });
+  }, [send]);
+  const voteSkip = useCallback(() => send({ type: 'voteSkip' }), [send]);
+  const playIndex = useCallback((index: number) => send({ type: 'playIndex', index }), [send]);
+  const removeItem = useCallback((itemId: string) => send({ type: 'removeItem', itemId }), [send]);
+  const clearError = useCallback(() => setError(null), []);
+
+  useEffect(() => {
+    return () => {
+      clientRef.current?.close();
+      clearStartTimer();
+    };
+  }, [clearStartTimer]);
+
+  const skipVotesNeeded = room ? getSkipVotesNeeded(room.members.length) : 0;
+
+  return useMemo(() => ({
+    room,
+    memberId,
+    isHost,
+    status,
+    error,
+    displayName,
+    skipVotesNeeded,
+    createJam,
+    joinJam,
+    leaveJam,
+    addTrack,
+    voteSkip,
+    playIndex,
+    removeItem,
+    clearError,
+  }), [room, memberId, isHost, status, error, displayName, skipVotesNeeded, createJam, joinJam, leaveJam, addTrack, voteSkip, playIndex, removeItem, clearError]);
+});
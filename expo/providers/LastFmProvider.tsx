@@ -0,0 +1,221 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AppState, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import createContextHook from '@nkzw/create-context-hook';
+import * as WebBrowser from 'expo-web-browser';
+import { LASTFM_API_KEY } from '@/constants/api';
+import {
+  LastFmSession,
+  LastFmScrobble,
+  MAX_SCROBBLE_BATCH,
+  getAuthToken,
+  getAuthUrl,
+  getSession,
+  updateNowPlaying,
+  scrobbleTracks,
+  isLastFmAuthConfigured,
+  isRetryableLastFmError,
+  isInvalidSessionError,
+  isTokenNotAuthorizedError,
+} from '@/services/lastfm';
+
+const SESSION_KEY = 'fmeo_lastfm_session';
+const QUEUE_KEY = 'fmeo_lastfm_scrobble_queue';
+const FLUSH_RETRY_MS = 60000;
+// Last.fm rejects scrobbles older than two weeks, so there is no point keeping them.
+const MAX_SCROBBLE_AGE_S = 60 * 60 * 24 * 14;
+const MAX_QUEUED_SCROBBLES = 1000;
+
+export type LastFmAuthState = 'signedOut' | 'authorizing' | 'awaitingApproval' | 'signedIn';
+
+/** The track fields Last.fm needs, taken from whatever is playing. */
+export type ScrobbleTrack = Omit<LastFmScrobble, 'timestamp'>;
+
+function pruneQueue(queue: LastFmScrobble[]): LastFmScrobble[] {
+  const cutoff = Date.now() / 1000 - MAX_SCROBBLE_AGE_S;
+  return queue.filter((s) => s.timestamp >= cutoff).slice(-MAX_QUEUED_SCROBBLES);
+}
+
+export const [LastFmProvider, useLastFm] = createContextHook(() => {
+  const [session, setSession] = useState<LastFmSession | null>(null);
+  const [authState, setAuthState] = useState<LastFmAuthState>('signedOut');
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [queue, setQueue] = useState<LastFmScrobble[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isConfigured, setIsConfigured] = useState(false);
+  const pendingTokenRef = useRef<string | null>(null);
+  const flushingRef = useRef(false);
+  // Mirrors state for callbacks the player holds on to between renders.
+  const sessionRef = useRef<LastFmSession | null>(null);
+  const queueRef = useRef<LastFmScrobble[]>([]);
+  sessionRef.current = session;
+  queueRef.current = queue;
+
+  useEffect(() => {
+    Promise.all([AsyncStorage.getItem(SESSION_KEY), AsyncStorage.getItem(QUEUE_KEY)])
+      .then(([storedSession, storedQueue]) => {
+        if (storedSession) {
+          setSession(JSON.parse(storedSession) as LastFmSession);
+          setAuthState('signedIn');
+        }
+        if (storedQueue) {
+          const restored = pruneQueue(JSON.parse(storedQueue) as LastFmScrobble[]);
+          // Scrobbles recorded before the load finished are newer than the stored ones.
+          setQueue((prev) => [...restored, ...prev]);
+        }
+      })
+      .catch((err) => console.error('Failed to load Last.fm state:', err))
+      .finally(() => setIsLoaded(true));
+    void isLastFmAuthConfigured().then(setIsConfigured);
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue))
+      .catch((err) => console.error('Failed to save scrobble queue:', err));
+  }, [queue, isLoaded]);
+
+  const signOut = useCallback(() => {
+    pendingTokenRef.current = null;
+    setSession(null);
+    setAuthState('signedOut');
+    setAuthError(null);
+    AsyncStorage.removeItem(SESSION_KEY)
+      .catch((err) => console.error('Failed to clear Last.fm session:', err));
+    console.log('Signed out of Last.fm');
+  }, []);
+
+  /**
+   * Sends queued scrobbles in batches. Network failures and Last.fm outages
+   * keep the queue for the next attempt; batches Last.fm rejects outright are
+   * dropped so one bad entry can't block everything behind it.
+   */
+  const flushQueue = useCallback(async () => {
+    const current = sessionRef.current;
+    if (!current || flushingRef.current || queueRef.current.length === 0) return;
+    flushingRef.current = true;
+    try {
+      while (queueRef.current.length > 0) {
+        const batch = queueRef.current.slice(0, MAX_SCROBBLE_BATCH);
+        try {
+          await scrobbleTracks(current.key, batch);
+        } catch (err) {
+          if (isInvalidSessionError(err)) {
+            signOut();
+            setAuthError('Your Last.fm session expired. Connect again to resume scrobbling.');
+            return;
+          }
+          if (isRetryableLastFmError(err)) return;
+          console.warn('Dropping rejected scrobble batch:', err);
+        }
+        const sent = new Set(batch);
+        queueRef.current = queueRef.current.filter((s) => !sent.has(s));
+        setQueue((prev) => prev.filter((s) => !sent.has(s)));
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [signOut]);
+
+  useEffect(() => {
+    if (!isLoaded || !session || queue.length === 0) return;
+    void flushQueue();
+    // There is no connectivity listener on native, so keep retrying while anything is pending.
+    const timer = setInterval(() => void flushQueue(), FLUSH_RETRY_MS);
+    return () => clearInterval(timer);
+  }, [isLoaded, session, queue.length, flushQueue]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') void flushQueue();
+    });
+    const handleOnline = () => void flushQueue();
+    if (Platform.OS === 'web') window.addEventListener('online', handleOnline);
+    return () => {
+      subscription.remove();
+      if (Platform.OS === 'web') window.removeEventListener('online', handleOnline);
+    };
+  }, [flushQueue]);
+
+  const completeAuth = useCallback(async () => {
+    const token = pendingTokenRef.current;
+    if (!token) return;
+    try {
+      const next = await getSession(token);
+      pendingTokenRef.current = null;
+      await AsyncStorage.setItem(SESSION_KEY, JSON.stringify(next));
+      setSession(next);
+      setAuthState('signedIn');
+      setAuthError(null);
+      console.log('Signed in to Last.fm as', next.name);
+    } catch (err) {
+      if (isTokenNotAuthorizedError(err)) {
+        setAuthState('awaitingApproval');
+        setAuthError('Approve FMEO JAMs on Last.fm, then tap Finish connecting.');
+        return;
+      }
+      pendingTokenRef.current = null;
+      setAuthState('signedOut');
+      setAuthError(err instanceof Error ? err.message : 'Could not connect to Last.fm.');
+    }
+  }, []);
+
+  /**
+   * Desktop-style auth: fetch a request token, let the user approve it on
+   * last.fm, then trade it for a session key. On native the browser sheet
+   * resolves when closed, so the exchange is tried straight away; on web the
+   * page opens in a new tab and the user finishes with `completeAuth`.
+   */
+  const connect = useCallback(async () => {
+    if (!LASTFM_API_KEY || !(await isLastFmAuthConfigured())) {
+      setAuthError('Last.fm is not set up. Set EXPO_PUBLIC_LASTFM_API_KEY in the app and LASTFM_API_KEY and LASTFM_API_SECRET on the server.');
+      return;
+    }
+    setAuthError(null);
+    setAuthState('authorizing');
+    try {
+      const token = await getAuthToken();
+      pendingTokenRef.current = token;
+      await WebBrowser.openBrowserAsync(getAuthUrl(token));
+      if (Platform.OS === 'web') {
+        setAuthState('awaitingApproval');
+        return;
+      }
+      await completeAuth();
+    } catch (err) {
+      pendingTokenRef.current = null;
+      setAuthState('signedOut');
+      setAuthError(err instanceof Error ? err.message : 'Could not connect to Last.fm.');
+      console.error('Last.fm auth error:', err);
+    }
+  }, [completeAuth]);
+
+  const sendNowPlaying = useCallback((track: ScrobbleTrack) => {
+    const current = sessionRef.current;
+    if (!current) return;
+    // Now playing is ephemeral, so failures are not queued.
+    updateNowPlaying(current.key, track)
+      .catch((err) => console.warn('Last.fm now playing update failed:', err));
+  }, []);
+
+  /** Queues a finished listen; `startedAt` is when the track started, in milliseconds. */
+  const scrobble = useCallback((track: ScrobbleTrack, startedAt: number) => {
+    if (!sessionRef.current) return;
+    const entry: LastFmScrobble = { ...track, timestamp: Math.floor(startedAt / 1000) };
+    queueRef.current = pruneQueue([...queueRef.current, entry]);
+    setQueue((prev) => pruneQueue([...prev, entry]));
+  }, []);
+
+  return useMemo(() => ({
+    session,
+    authState,
+    authError,
+    pendingScrobbles: queue.length,
+    isConfigured,
+    connect,
+    completeAuth,
+    signOut,
+    sendNowPlaying,
+    scrobble,
+  }), [session, authState, authError, queue.length, isConfigured, connect, completeAuth, signOut, sendNowPlaying, scrobble]);
+});
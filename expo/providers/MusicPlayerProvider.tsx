@@ -1,8 +1,37 @@
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
-import { Platform } from 'react-native';
-import { Audio, InterruptionModeIOS, InterruptionModeAndroid, AVPlaybackStatus } from 'expo-av';
+import { AppState, Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Audio, InterruptionModeIOS, InterruptionModeAndroid } from 'expo-av';
 import createContextHook from '@nkzw/create-context-hook';
 import { SpotifyTrack } from '@/services/spotify';
+import { AudioSource, resolveAudioSource } from '@/services/audioSources';
+import { getOfflineSource } from '@/services/downloads';
+import { LocalTrack, getLocalTrackUri, getLocalCoverUri } from '@/services/localLibrary';
+import {
+  createPlayerController,
+  INITIAL_SNAPSHOT,
+  PlayerSnapshot,
+} from '@/services/playerController';
+import {
+  RepeatMode,
+  REPEAT_MODES,
+  shuffleWithPinned,
+  getNextIndex,
+  getPreviousIndex,
+  moveItem,
+} from '@/utils/queue';
+import { SleepTimer, SleepTimerOption, getSleepFadeVolume } from '@/utils/sleepTimer';
+import { usePlayHistory, PlayContext } from '@/providers/PlayHistoryProvider';
+import { loadTrackGains, getTrackGain, saveTrackGain } from '@/services/trackGain';
+import { gainForLevel } from '@/utils/loudness';
+import { loadSavedLoops, getSavedLoops, saveLoop, deleteSavedLoop } from '@/services/savedLoops';
+import { ABLoop, SavedLoop, normalizeLoop, getLoopWrapDelayMs, formatLoopName } from '@/utils/abLoop';
+import { useMediaSession } from '@/hooks/useMediaSession';
+import { useLastFm, ScrobbleTrack } from '@/providers/LastFmProvider';
+import { getScrobbleThresholdMs } from '@/utils/scrobble';
+import { RemoteCommand } from '@/services/mediaSessionTypes';
+import { EQ_BANDS, EQ_PRESETS, EqPresetName, clampEqGain, findEqPreset } from '@/utils/equalizer';
+import { buildAutoplayTracks, getAutoplayTrackKey } from '@/services/autoplay';
 
 export interface PlayerTrack {
   id: string;
@@ -10,32 +39,189 @@ export interface PlayerTrack {
   artistName: string;
   albumName: string;
   albumArt: string;
-  previewUrl: string;
+  /** Null when the track has no known source yet and must go through the resolver chain. */
+  source: AudioSource | null;
+  isrc?: string;
   durationMs: number;
+  /** Where playback of this track was started from, for play history. */
+  context?: PlayContext;
 }
 
-function spotifyTrackToPlayerTrack(track: SpotifyTrack): PlayerTrack | null {
-  if (!track.preview_url) return null;
+/**
+ * Takes over transport intents while something else owns playback, such as a
+ * jam room. Every play/pause/seek/skip from the UI, lock screen or track end
+ * is routed here instead of the local queue; the delegate then drives the
+ * player through `directControls`.
+ */
+export interface PlaybackDelegate {
+  playTrack: (track: PlayerTrack) => void;
+  togglePlayPause: () => void;
+  seekTo: (positionMs: number) => void;
+  skipNext: () => void;
+  skipPrevious: () => void;
+  trackEnded: () => void;
+}
+
+/**
+ * 'user' entries were queued explicitly (play next / add to queue) and play
+ * before the remaining 'context' entries from the list a track was started in.
+ */
+export type QueueSource = 'user' | 'context';
+
+const SESSION_KEY = 'fmeo_player_session';
+const SESSION_SAVE_INTERVAL_MS = 5000;
+const SETTINGS_KEY = 'fmeo_player_settings';
+
+export const CROSSFADE_OPTIONS_MS = [0, 2000, 5000, 8000];
+export const PLAYBACK_RATE_OPTIONS = [0.75, 1, 1.25, 1.5, 2];
+
+interface PlayerSettings {
+  crossfadeMs: number;
+  playbackRate: number;
+  volume: number;
+  normalizeVolume: boolean;
+  /** One gain per `EQ_BANDS` entry; only applied by engines that support EQ. */
+  eqGainsDb: number[];
+  /** Keep playing similar music when the queue runs out. */
+  autoplay: boolean;
+}
+
+const DEFAULT_SETTINGS: PlayerSettings = {
+  crossfadeMs: 0,
+  playbackRate: 1,
+  volume: 1,
+  normalizeVolume: true,
+  eqGainsDb: EQ_BANDS.map(() => 0),
+  autoplay: true,
+};
+
+interface PlayerSession {
+  currentTrack: PlayerTrack | null;
+  queue: PlayerTrack[];
+  originalQueue: PlayerTrack[];
+  queueIndex: number;
+  userQueue: PlayerTrack[];
+  shuffleEnabled: boolean;
+  repeatMode: RepeatMode;
+  position: number;
+}
+
+const MAX_CONSECUTIVE_SKIPS = 10;
+const AUTOPLAY_BATCH_SIZE = 10;
+const AUTOPLAY_SEED_COUNT = 5;
+// Position jumps larger than this between status updates are seeks, not listening.
+const MAX_LISTEN_TICK_MS = 2000;
+// Status updates arrive every 250ms, too coarse to hit a loop end on their own;
+// within this much of it the jump back is timed from the last update instead.
+const LOOP_LOOKAHEAD_MS = 400;
+
+interface ListenSession {
+  entryId: string;
+  track: PlayerTrack;
+  startedAt: number;
+  listenedMs: number;
+  lastPositionMs: number;
+  /** Set once the length is known and now playing has been sent, or ruled out. */
+  announced: boolean;
+  scrobbled: boolean;
+}
+
+function toScrobbleTrack(track: PlayerTrack, durationMs: number): ScrobbleTrack {
+  return {
+    artist: track.artistName,
+    track: track.name,
+    album: track.albumName || undefined,
+    durationMs: durationMs || undefined,
+  };
+}
+
+/** Plays a downloaded copy when there is one, otherwise resolves the track as usual. */
+async function resolvePlaybackSource(track: PlayerTrack): Promise<AudioSource | null> {
+  return getOfflineSource(track.id) ?? resolveAudioSource(track);
+}
+
+export function spotifyTrackToPlayerTrack(track: SpotifyTrack): PlayerTrack {
   return {
     id: track.id,
     name: track.name,
     artistName: track.artists.map((a) => a.name).join(', '),
     albumName: track.album.name,
     albumArt: track.album.images?.[0]?.url ?? '',
-    previewUrl: track.preview_url,
+    source: track.preview_url ? { kind: 'spotify-preview', uri: track.preview_url } : null,
+    isrc: track.external_ids?.isrc,
+    // Every source for a catalogue track is a 30-second preview, so that is what plays.
     durationMs: 30000,
   };
 }
 
+function localTrackToPlayerTrack(track: LocalTrack): PlayerTrack {
+  return {
+    id: track.id,
+    name: track.name,
+    artistName: track.artistName,
+    albumName: track.albumName,
+    albumArt: getLocalCoverUri(track) ?? '',
+    source: { kind: 'file', uri: getLocalTrackUri(track) },
+    // The real length comes from the first status update once loaded.
+    durationMs: 0,
+  };
+}
+
+/** Sessions saved before the source model stored a bare `previewUrl`. */
+function normalizeStoredTrack(track: PlayerTrack & { previewUrl?: string }): PlayerTrack {
+  if (track.source !== undefined) return track;
+  const { previewUrl, ...rest } = track;
+  return { ...rest, source: previewUrl ? { kind: 'spotify-preview', uri: previewUrl } : null };
+}
+
+function withContext(tracks: PlayerTrack[], context: PlayContext | undefined): PlayerTrack[] {
+  return context ? tracks.map((t) => ({ ...t, context })) : tracks;
+}
+
 export const [MusicPlayerProvider, useMusicPlayer] = createContextHook(() => {
+  const { entries: historyEntries, logPlayStart, logPlayProgress } = usePlayHistory();
+  const { sendNowPlaying, scrobble } = useLastFm();
   const [currentTrack, setCurrentTrack] = useState<PlayerTrack | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
+  const [snapshot, setSnapshot] = useState<PlayerSnapshot>(INITIAL_SNAPSHOT);
   const [position, setPosition] = useState(0);
   const [duration, setDuration] = useState(0);
   const [queue, setQueue] = useState<PlayerTrack[]>([]);
   const [queueIndex, setQueueIndex] = useState(-1);
-  const soundRef = useRef<Audio.Sound | null>(null);
-  const isLoadingRef = useRef(false);
+  const [userQueue, setUserQueue] = useState<PlayerTrack[]>([]);
+  const [shuffleEnabled, setShuffleEnabled] = useState(false);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>('off');
+  const [settings, setSettings] = useState<PlayerSettings>(DEFAULT_SETTINGS);
+  const originalQueueRef = useRef<PlayerTrack[]>([]);
+  const trackEndRef = useRef<() => void>(() => {});
+  const advanceRef = useRef<() => void>(() => {});
+  const skipStreakRef = useRef(0);
+  const [unplayableTrackIds, setUnplayableTrackIds] = useState<Set<string>>(() => new Set());
+  const nearEndRef = useRef<() => void>(() => {});
+  const [isSessionRestored, setIsSessionRestored] = useState(false);
+  const sessionRef = useRef<PlayerSession | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastSavedAtRef = useRef(0);
+  const resumePositionRef = useRef(0);
+  const [sleepTimer, setSleepTimer] = useState<SleepTimer | null>(null);
+  const [sleepClock, setSleepClock] = useState(() => Date.now());
+  const listenRef = useRef<ListenSession | null>(null);
+  const spotifyTracksRef = useRef(new Map<string, SpotifyTrack>());
+  const delegateRef = useRef<PlaybackDelegate | null>(null);
+  const [isAutoplayLoading, setIsAutoplayLoading] = useState(false);
+  const autoplayForTrackRef = useRef<string | null>(null);
+  // Bumped whenever a new list replaces the queue, so late autoplay results can tell they're stale.
+  const queueGenerationRef = useRef(0);
+  const waitingForAutoplayRef = useRef(false);
+  const queueRef = useRef<PlayerTrack[]>([]);
+  queueRef.current = queue;
+  const scrobbleRef = useRef(scrobble);
+  scrobbleRef.current = scrobble;
+  const sendNowPlayingRef = useRef(sendNowPlaying);
+  sendNowPlayingRef.current = sendNowPlaying;
+  const [abLoop, setAbLoop] = useState<ABLoop | null>(null);
+  const [savedLoops, setSavedLoops] = useState<SavedLoop[]>([]);
+  const loopStatusRef = useRef<(positionMs: number, isPlaying: boolean) => void>(() => {});
+  const loopTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     if (Platform.OS !== 'web') {
@@ -50,131 +236,801 @@ export const [MusicPlayerProvider, useMusicPlayer] = createContextHook(() => {
     }
   }, []);
 
-  const onPlaybackStatusUpdate = useCallback((status: AVPlaybackStatus) => {
-    if (!status.isLoaded) return;
-    setPosition(status.positionMillis);
-    setDuration(status.durationMillis ?? 30000);
-    setIsPlaying(status.isPlaying);
-    if (status.didJustFinish) {
-      setIsPlaying(false);
+  const [controller] = useState(() => createPlayerController({
+    onSnapshot: setSnapshot,
+    onStatus: (status) => {
+      const listen = listenRef.current;
+      if (listen) {
+        const delta = status.positionMs - listen.lastPositionMs;
+        if (status.isPlaying && delta > 0 && delta <= MAX_LISTEN_TICK_MS) listen.listenedMs += delta;
+        listen.lastPositionMs = status.positionMs;
+
+        const trackDurationMs = listen.track.durationMs || status.durationMs;
+        const thresholdMs = getScrobbleThresholdMs(trackDurationMs);
+        if (!listen.announced && trackDurationMs > 0) {
+          // Previews are too short to scrobble, so Last.fm isn't told they're playing either.
+          listen.announced = true;
+          if (thresholdMs !== null) sendNowPlayingRef.current(toScrobbleTrack(listen.track, trackDurationMs));
+        }
+        if (!listen.scrobbled && thresholdMs !== null && listen.listenedMs >= thresholdMs) {
+          listen.scrobbled = true;
+          scrobbleRef.current(toScrobbleTrack(listen.track, trackDurationMs), listen.startedAt);
+        }
+      }
+      loopStatusRef.current(status.positionMs, status.isPlaying);
+      setPosition(status.positionMs);
+      setDuration(status.durationMs || 30000);
+    },
+    onNearEnd: () => nearEndRef.current(),
+    onFinish: () => trackEndRef.current(),
+  }));
+  const isPlaying = snapshot.state === 'playing';
+
+  useEffect(() => {
+    AsyncStorage.getItem(SETTINGS_KEY)
+      .then((stored) => {
+        if (stored) setSettings({ ...DEFAULT_SETTINGS, ...(JSON.parse(stored) as Partial<PlayerSettings>) });
+      })
+      .catch((err) => console.error('Failed to load player settings:', err));
+  }, []);
+
+  useEffect(() => {
+    controller.setCrossfadeDuration(settings.crossfadeMs);
+  }, [controller, settings.crossfadeMs]);
+
+  useEffect(() => {
+    controller.setRate(settings.playbackRate);
+  }, [controller, settings.playbackRate]);
+
+  useEffect(() => {
+    controller.setEqualizer(settings.eqGainsDb);
+  }, [controller, settings.eqGainsDb]);
+
+  useEffect(() => {
+    void loadTrackGains();
+  }, []);
+
+  const updateSettings = useCallback((
+    patch: Partial<PlayerSettings> | ((prev: PlayerSettings) => Partial<PlayerSettings>),
+  ) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...(typeof patch === 'function' ? patch(prev) : patch) };
+      AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(next))
+        .catch((err) => console.error('Failed to save player settings:', err));
+      return next;
+    });
+  }, []);
+
+  const setCrossfadeDuration = useCallback((ms: number) => {
+    updateSettings({ crossfadeMs: ms });
+  }, [updateSettings]);
+
+  const setPlaybackRate = useCallback((rate: number) => {
+    updateSettings({ playbackRate: rate });
+  }, [updateSettings]);
+
+  const setVolume = useCallback((volume: number) => {
+    updateSettings({ volume: Math.min(1, Math.max(0, volume)) });
+  }, [updateSettings]);
+
+  const setNormalizeVolume = useCallback((enabled: boolean) => {
+    updateSettings({ normalizeVolume: enabled });
+  }, [updateSettings]);
+
+  const setEqPreset = useCallback((name: EqPresetName) => {
+    const preset = EQ_PRESETS.find((p) => p.name === name);
+    if (preset) updateSettings({ eqGainsDb: [...preset.gainsDb] });
+  }, [updateSettings]);
+
+  const setEqBandGain = useCallback((bandIndex: number, gainDb: number) => {
+    updateSettings((prev) => ({
+      eqGainsDb: prev.eqGainsDb.map((g, i) => (i === bandIndex ? clampEqGain(gainDb) : g)),
+    }));
+  }, [updateSettings]);
+
+  const readVisualizerData = useCallback((spectrum: Uint8Array, waveform: Uint8Array) => {
+    return controller.readVisualizerData(spectrum, waveform);
+  }, [controller]);
+
+  const eqPreset = useMemo(() => findEqPreset(settings.eqGainsDb), [settings.eqGainsDb]);
+
+  useEffect(() => {
+    AsyncStorage.getItem(SESSION_KEY)
+      .then((stored) => {
+        if (!stored) return;
+        const session = JSON.parse(stored) as PlayerSession;
+        if (!session.currentTrack) return;
+        console.log('Restoring player session:', session.currentTrack.name);
+        originalQueueRef.current = (session.originalQueue ?? session.queue).map(normalizeStoredTrack);
+        resumePositionRef.current = session.position;
+        setCurrentTrack(normalizeStoredTrack(session.currentTrack));
+        setQueue(session.queue.map(normalizeStoredTrack));
+        setQueueIndex(session.queueIndex);
+        setUserQueue((session.userQueue ?? []).map(normalizeStoredTrack));
+        setShuffleEnabled(session.shuffleEnabled);
+        setRepeatMode(session.repeatMode);
+        setPosition(session.position);
+        setDuration(session.currentTrack.durationMs);
+      })
+      .catch((err) => console.error('Failed to restore player session:', err))
+      .finally(() => setIsSessionRestored(true));
+  }, []);
+
+  const flushSession = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
     }
+    if (!sessionRef.current) return;
+    lastSavedAtRef.current = Date.now();
+    AsyncStorage.setItem(SESSION_KEY, JSON.stringify(sessionRef.current))
+      .catch((err) => console.error('Failed to save player session:', err));
   }, []);
 
-  const unloadSound = useCallback(async () => {
-    if (soundRef.current) {
-      try {
-        await soundRef.current.unloadAsync();
-      } catch (err) {
-        console.error('Unload error:', err);
+  // Position ticks arrive several times a second, so writes are throttled.
+  useEffect(() => {
+    if (!isSessionRestored) return;
+    sessionRef.current = {
+      currentTrack,
+      queue,
+      originalQueue: originalQueueRef.current,
+      queueIndex,
+      userQueue,
+      shuffleEnabled,
+      repeatMode,
+      position,
+    };
+    if (saveTimerRef.current) return;
+    const wait = Math.max(0, SESSION_SAVE_INTERVAL_MS - (Date.now() - lastSavedAtRef.current));
+    saveTimerRef.current = setTimeout(flushSession, wait);
+  }, [isSessionRestored, currentTrack, queue, queueIndex, userQueue, shuffleEnabled, repeatMode, position, flushSession]);
+
+  // Track and queue changes are written straight away.
+  useEffect(() => {
+    if (isSessionRestored) flushSession();
+  }, [isSessionRestored, currentTrack, queue, queueIndex, userQueue, shuffleEnabled, repeatMode, flushSession]);
+
+  const beginListen = useCallback((track: PlayerTrack, startPositionMs: number) => {
+    const entryId = logPlayStart(track, spotifyTracksRef.current.get(track.id) ?? null, track.context ?? null);
+    listenRef.current = {
+      entryId,
+      track,
+      startedAt: Date.now(),
+      listenedMs: 0,
+      lastPositionMs: startPositionMs,
+      announced: false,
+      scrobbled: false,
+    };
+  }, [logPlayStart]);
+
+  const endListen = useCallback((completed: boolean) => {
+    const listen = listenRef.current;
+    if (!listen) return;
+    listenRef.current = null;
+    logPlayProgress(listen.entryId, Math.round(listen.listenedMs), completed);
+  }, [logPlayProgress]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') {
+        flushSession();
+        // The app may never come back, so store what has been heard so far.
+        const listen = listenRef.current;
+        if (listen) logPlayProgress(listen.entryId, Math.round(listen.listenedMs), false);
       }
-      soundRef.current = null;
+    });
+    return () => subscription.remove();
+  }, [flushSession, logPlayProgress]);
+
+  /**
+   * Loads and plays `track`. Resolves to false only when this track failed to
+   * load; being superseded by a newer load does not count as a failure.
+   */
+  const loadTrack = useCallback(async (track: PlayerTrack, startPositionMs = 0): Promise<boolean> => {
+    resumePositionRef.current = 0;
+    endListen(false);
+    setCurrentTrack(track);
+    setPosition(startPositionMs);
+    setDuration(track.durationMs);
+
+    // Gain is measured on the first play and applied from the next one on.
+    const cachedGain = getTrackGain(track.id);
+    await controller.dispatch({
+      type: 'load',
+      trackId: track.id,
+      resolveSource: () => resolvePlaybackSource(track),
+      startPositionMs,
+      gain: settings.normalizeVolume ? cachedGain ?? 1 : 1,
+      onLoudnessMeasured: cachedGain === null
+        ? (levelDb) => {
+            const gain = gainForLevel(levelDb);
+            saveTrackGain(track.id, gain);
+          }
+        : undefined,
+    });
+
+    const result = controller.getSnapshot();
+    if (result.trackId !== track.id) return true;
+    const failed = result.state === 'error';
+    setUnplayableTrackIds((prev) => {
+      if (failed === prev.has(track.id)) return prev;
+      const next = new Set(prev);
+      if (failed) {
+        next.add(track.id);
+      } else {
+        next.delete(track.id);
+      }
+      return next;
+    });
+    if (!failed) beginListen(track, startPositionMs);
+    return !failed;
+  }, [controller, settings.normalizeVolume, endListen, beginListen]);
+
+  const playTrack = useCallback(async (track: PlayerTrack, startPositionMs = 0): Promise<boolean> => {
+    if (delegateRef.current) {
+      delegateRef.current.playTrack(track);
+      return true;
     }
+    return loadTrack(track, startPositionMs);
+  }, [loadTrack]);
+
+  /** Plays `playerTrack`, replacing the context queue with `playerTracks` when given. */
+  const playFromList = useCallback((
+    track: PlayerTrack,
+    trackList: PlayerTrack[] | undefined,
+    context: PlayContext | undefined,
+  ) => {
+    const [playerTrack] = withContext([track], context);
+    if (delegateRef.current) {
+      delegateRef.current.playTrack(playerTrack);
+      return;
+    }
+    const playerTracks = trackList && withContext(trackList, context);
+    if (playerTracks) {
+      queueGenerationRef.current += 1;
+      waitingForAutoplayRef.current = false;
+      originalQueueRef.current = playerTracks;
+      const idx = Math.max(0, playerTracks.findIndex((t) => t.id === playerTrack.id));
+      if (shuffleEnabled) {
+        setQueue(shuffleWithPinned(playerTracks, idx));
+        setQueueIndex(0);
+      } else {
+        setQueue(playerTracks);
+        setQueueIndex(idx);
+      }
+    }
+
+    void loadTrack(playerTrack);
+  }, [loadTrack, shuffleEnabled]);
+
+  const rememberSpotifyTracks = useCallback((tracks: SpotifyTrack[]) => {
+    tracks.forEach((t) => spotifyTracksRef.current.set(t.id, t));
   }, []);
 
-  const playTrack = useCallback(async (track: PlayerTrack) => {
-    if (isLoadingRef.current) return;
-    isLoadingRef.current = true;
-
-    try {
-      await unloadSound();
-      setCurrentTrack(track);
-      setPosition(0);
-      setIsPlaying(false);
-
-      console.log('Loading track:', track.name);
-      const { sound } = await Audio.Sound.createAsync(
-        { uri: track.previewUrl },
-        { shouldPlay: true },
-        onPlaybackStatusUpdate
-      );
-      soundRef.current = sound;
-      setIsPlaying(true);
-      console.log('Playing:', track.name);
-    } catch (err) {
-      console.error('Play error:', err);
-      setIsPlaying(false);
-    } finally {
-      isLoadingRef.current = false;
-    }
-  }, [unloadSound, onPlaybackStatusUpdate]);
-
-  const playSpotifyTrack = useCallback((track: SpotifyTrack, trackList?: SpotifyTrack[]) => {
-    const playerTrack = spotifyTrackToPlayerTrack(track);
-    if (!playerTrack) {
-      console.log('No preview URL for track:', track.name);
+  const playSpotifyTrack = useCallback((track: SpotifyTrack, trackList?: SpotifyTrack[], context?: PlayContext) => {
+    rememberSpotifyTracks([track, ...(trackList ?? [])]);
+    playFromList(spotifyTrackToPlayerTrack(track), trackList?.map(spotifyTrackToPlayerTrack), context);
+  }, [playFromList, rememberSpotifyTracks]);
+
+  const playLocalTrack = useCallback((track: LocalTrack, trackList?: LocalTrack[], context?: PlayContext) => {
+    playFromList(localTrackToPlayerTrack(track), trackList?.map(localTrackToPlayerTrack), context);
+  }, [playFromList]);
+
+  const togglePlayPause = useCallback(async () => {
+    if (delegateRef.current) {
+      delegateRef.current.togglePlayPause();
+      return;
+    }
+    const { state } = controller.getSnapshot();
+    if (state === 'idle' || state === 'error') {
+      // Nothing is loaded after a session restore or a failed load, so
+      // (re)load the current track from where it left off.
+      if (currentTrack) await loadTrack(currentTrack, resumePositionRef.current || position);
       return;
     }
+    await controller.dispatch({ type: 'toggle' });
+  }, [controller, currentTrack, position, loadTrack]);
 
-    if (trackList) {
-      const playerTracks = trackList
-        .map(spotifyTrackToPlayerTrack)
-        .filter((t): t is PlayerTrack => t !== null);
-      setQueue(playerTracks);
-      const idx = playerTracks.findIndex((t) => t.id === playerTrack.id);
-      setQueueIndex(idx >= 0 ? idx : 0);
+  const seekTo = useCallback(async (positionMs: number) => {
+    if (delegateRef.current) {
+      delegateRef.current.seekTo(positionMs);
+      return;
     }
+    const { state } = controller.getSnapshot();
+    if (state === 'idle' || state === 'error') {
+      resumePositionRef.current = positionMs;
+      setPosition(positionMs);
+      return;
+    }
+    await controller.dispatch({ type: 'seek', positionMs });
+  }, [controller]);
 
-    void playTrack(playerTrack);
-  }, [playTrack]);
+  const currentTrackId = currentTrack?.id ?? null;
+  useEffect(() => {
+    setAbLoop(null);
+    setSavedLoops([]);
+    if (!currentTrackId) return;
+    let cancelled = false;
+    void loadSavedLoops().then(() => {
+      if (!cancelled) setSavedLoops(getSavedLoops(currentTrackId));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentTrackId]);
 
-  const togglePlayPause = useCallback(async () => {
-    if (!soundRef.current) return;
-    try {
-      const status = await soundRef.current.getStatusAsync();
-      if (!status.isLoaded) return;
-      if (status.isPlaying) {
-        await soundRef.current.pauseAsync();
+  const isLooping = abLoop !== null && abLoop.endMs !== null;
+
+  // Jumps back to the loop start whenever playback reaches the loop end,
+  // scaled by the playback rate so the timing holds at any speed.
+  useEffect(() => {
+    loopStatusRef.current = (positionMs, isPlayingNow) => {
+      if (loopTimerRef.current) clearTimeout(loopTimerRef.current);
+      loopTimerRef.current = null;
+      if (!abLoop || abLoop.endMs === null || !isPlayingNow || delegateRef.current) return;
+      const { startMs } = abLoop;
+      const delayMs = getLoopWrapDelayMs(positionMs, abLoop.endMs, settings.playbackRate);
+      if (delayMs <= 0) {
+        void controller.dispatch({ type: 'seek', positionMs: startMs });
+      } else if (delayMs <= LOOP_LOOKAHEAD_MS) {
+        loopTimerRef.current = setTimeout(() => {
+          loopTimerRef.current = null;
+          void controller.dispatch({ type: 'seek', positionMs: startMs });
+        }, delayMs);
+      }
+    };
+    return () => {
+      if (loopTimerRef.current) clearTimeout(loopTimerRef.current);
+      loopTimerRef.current = null;
+    };
+  }, [controller, abLoop, settings.playbackRate]);
+
+  /** Sets the loop start (A) at `positionMs`, or the current position. */
+  const setLoopStart = useCallback((positionMs: number = position) => {
+    setAbLoop((prev) => {
+      if (prev?.endMs != null && positionMs < prev.endMs) return normalizeLoop(positionMs, prev.endMs, duration);
+      return { startMs: positionMs, endMs: null };
+    });
+  }, [position, duration]);
+
+  /** Sets the loop end (B) at `positionMs`, or the current position; without an A point the loop starts at 0. */
+  const setLoopEnd = useCallback((positionMs: number = position) => {
+    setAbLoop((prev) => normalizeLoop(prev?.startMs ?? 0, positionMs, duration));
+  }, [position, duration]);
+
+  const clearLoop = useCallback(() => {
+    setAbLoop(null);
+  }, []);
+
+  const saveCurrentLoop = useCallback((name?: string) => {
+    if (!currentTrack || !abLoop || abLoop.endMs === null) return;
+    const { startMs, endMs } = abLoop;
+    setSavedLoops(saveLoop(currentTrack.id, {
+      id: `${Date.now()}`,
+      name: name?.trim() || formatLoopName(startMs, endMs),
+      startMs,
+      endMs,
+    }));
+  }, [currentTrack, abLoop]);
+
+  const applySavedLoop = useCallback((loop: SavedLoop) => {
+    setAbLoop({ startMs: loop.startMs, endMs: loop.endMs });
+    void seekTo(loop.startMs);
+  }, [seekTo]);
+
+  const removeSavedLoop = useCallback((loopId: string) => {
+    if (!currentTrack) return;
+    setSavedLoops(deleteSavedLoop(currentTrack.id, loopId));
+  }, [currentTrack]);
+
+  const nextTrack = useMemo((): PlayerTrack | null => {
+    if (userQueue.length > 0) return userQueue[0];
+    const nextIndex = getNextIndex(queueIndex, queue.length, repeatMode);
+    return nextIndex >= 0 ? queue[nextIndex] : null;
+  }, [userQueue, queue, queueIndex, repeatMode]);
+
+  useEffect(() => {
+    if (!currentTrack) return;
+    let cancelled = false;
+    const lookup = nextTrack ? resolvePlaybackSource(nextTrack) : Promise.resolve(null);
+    void lookup.then((source) => {
+      if (!cancelled) void controller.preload(source);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [controller, currentTrack, nextTrack]);
+
+  // Tracks that fail to resolve or load are skipped, up to a limit so a queue
+  // of dead entries can't loop forever under repeat-all.
+  const playAndSkipOnFailure = useCallback((track: PlayerTrack) => {
+    void loadTrack(track).then((ok) => {
+      if (ok) {
+        skipStreakRef.current = 0;
+        return;
+      }
+      skipStreakRef.current += 1;
+      if (skipStreakRef.current < MAX_CONSECUTIVE_SKIPS) {
+        advanceRef.current();
       } else {
-        await soundRef.current.playAsync();
+        skipStreakRef.current = 0;
       }
-    } catch (err) {
-      console.error('Toggle error:', err);
+    });
+  }, [loadTrack]);
+
+  const advance = useCallback(() => {
+    if (userQueue.length > 0) {
+      const [next, ...rest] = userQueue;
+      setUserQueue(rest);
+      playAndSkipOnFailure(next);
+      return;
     }
-  }, []);
+    const nextIndex = getNextIndex(queueIndex, queue.length, repeatMode);
+    if (nextIndex < 0) {
+      // Autoplay may still be fetching; it starts the continuation itself when it lands.
+      waitingForAutoplayRef.current = isAutoplayLoading;
+      return;
+    }
+    setQueueIndex(nextIndex);
+    playAndSkipOnFailure(queue[nextIndex]);
+  }, [userQueue, queue, queueIndex, repeatMode, isAutoplayLoading, playAndSkipOnFailure]);
 
   const skipNext = useCallback(() => {
-    if (queue.length === 0) return;
-    const nextIndex = (queueIndex + 1) % queue.length;
-    setQueueIndex(nextIndex);
-    void playTrack(queue[nextIndex]);
-  }, [queue, queueIndex, playTrack]);
+    if (delegateRef.current) {
+      delegateRef.current.skipNext();
+      return;
+    }
+    advance();
+  }, [advance]);
 
   const skipPrevious = useCallback(() => {
-    if (queue.length === 0) return;
-    const prevIndex = queueIndex <= 0 ? queue.length - 1 : queueIndex - 1;
+    if (delegateRef.current) {
+      delegateRef.current.skipPrevious();
+      return;
+    }
+    const prevIndex = getPreviousIndex(queueIndex, queue.length, repeatMode);
+    if (prevIndex < 0) {
+      void seekTo(0);
+      return;
+    }
     setQueueIndex(prevIndex);
-    void playTrack(queue[prevIndex]);
-  }, [queue, queueIndex, playTrack]);
+    void loadTrack(queue[prevIndex]);
+  }, [queue, queueIndex, repeatMode, loadTrack, seekTo]);
 
-  const seekTo = useCallback(async (positionMs: number) => {
-    if (!soundRef.current) return;
-    try {
-      await soundRef.current.setPositionAsync(positionMs);
-    } catch (err) {
-      console.error('Seek error:', err);
+  const isLastInQueue = userQueue.length === 0 && queueIndex >= queue.length - 1;
+  const stopsAfterCurrentTrack = sleepTimer?.mode === 'endOfTrack'
+    || (sleepTimer?.mode === 'endOfQueue' && isLastInQueue);
+
+  const startSleepTimer = useCallback((option: SleepTimerOption) => {
+    if (typeof option === 'number') {
+      const now = Date.now();
+      setSleepClock(now);
+      setSleepTimer({ mode: 'minutes', minutes: option, endsAt: now + option * 60000 });
+    } else {
+      setSleepTimer({ mode: option });
     }
+    console.log('Sleep timer set:', option);
+  }, []);
+
+  const cancelSleepTimer = useCallback(() => {
+    setSleepTimer(null);
   }, []);
 
+  const stopForSleep = useCallback(async () => {
+    console.log('Sleep timer finished');
+    setSleepTimer(null);
+    await controller.dispatch({ type: 'pause' });
+  }, [controller]);
+
   useEffect(() => {
-    return () => {
-      if (soundRef.current) {
-        soundRef.current.unloadAsync().catch(() => {});
+    if (sleepTimer?.mode !== 'minutes') return;
+    const interval = setInterval(() => setSleepClock(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [sleepTimer]);
+
+  // Re-evaluated on every status tick as well as the clock, because status
+  // updates keep arriving while audio plays in the background even when JS
+  // timers are throttled.
+  useEffect(() => {
+    if (!sleepTimer) {
+      controller.setVolume(settings.volume);
+      return;
+    }
+    let remaining = Infinity;
+    if (sleepTimer.mode === 'minutes') {
+      remaining = sleepTimer.endsAt - Date.now();
+    } else if (stopsAfterCurrentTrack && duration > 0) {
+      remaining = Math.max(0, duration - position) / settings.playbackRate;
+    }
+    controller.setVolume(settings.volume * getSleepFadeVolume(remaining));
+    if (sleepTimer.mode === 'minutes' && remaining <= 0) void stopForSleep();
+  }, [controller, settings.volume, settings.playbackRate, sleepTimer, stopsAfterCurrentTrack, position, duration, sleepClock, stopForSleep]);
+
+  const sleepRemainingMs = useMemo((): number | null => {
+    if (!sleepTimer) return null;
+    if (sleepTimer.mode === 'minutes') return Math.max(0, sleepTimer.endsAt - sleepClock);
+    const trackRemaining = Math.max(0, duration - position);
+    if (sleepTimer.mode === 'endOfTrack') return trackRemaining / settings.playbackRate;
+    const upcoming = [...userQueue, ...queue.slice(queueIndex + 1)];
+    return upcoming.reduce((total, track) => total + track.durationMs, trackRemaining) / settings.playbackRate;
+  }, [sleepTimer, sleepClock, duration, position, userQueue, queue, queueIndex, settings.playbackRate]);
+
+  const setAutoplay = useCallback((enabled: boolean) => {
+    updateSettings({ autoplay: enabled });
+    if (enabled) return;
+    // Drop autoplay picks that haven't played yet, including any still being fetched.
+    queueGenerationRef.current += 1;
+    waitingForAutoplayRef.current = false;
+    autoplayForTrackRef.current = null;
+    const isUpcomingAutoplay = (t: PlayerTrack, i: number) => i > queueIndex && t.context?.type === 'autoplay';
+    originalQueueRef.current = originalQueueRef.current.filter((t) => t.context?.type !== 'autoplay' || t.id === currentTrack?.id);
+    setQueue((prev) => prev.filter((t, i) => !isUpcomingAutoplay(t, i)));
+  }, [updateSettings, queueIndex, currentTrack]);
+
+  // Tops up the queue while its last track plays, so the first autoplay track
+  // can preload and crossfade in like any other.
+  useEffect(() => {
+    if (!settings.autoplay || !currentTrack || !isLastInQueue || repeatMode !== 'off') return;
+    if (sleepTimer?.mode === 'endOfQueue' || delegateRef.current) return;
+    if (autoplayForTrackRef.current === currentTrack.id) return;
+    autoplayForTrackRef.current = currentTrack.id;
+
+    const recent = [currentTrack, ...historyEntries.map((e) => e.track)];
+    const seeds = recent
+      .filter((t, i) => recent.findIndex((other) => other.id === t.id) === i)
+      .slice(0, AUTOPLAY_SEED_COUNT);
+    const known = [...recent, ...queue];
+    const generation = queueGenerationRef.current;
+    const seedArtist = currentTrack.artistName;
+
+    setIsAutoplayLoading(true);
+    buildAutoplayTracks(seeds, {
+      excludeIds: new Set([...known.map((t) => t.id), ...unplayableTrackIds]),
+      excludeKeys: new Set(known.map((t) => getAutoplayTrackKey(t.name, t.artistName))),
+      limit: AUTOPLAY_BATCH_SIZE,
+    })
+      .then((tracks) => {
+        if (generation !== queueGenerationRef.current || tracks.length === 0) return;
+        rememberSpotifyTracks(tracks);
+        const added = withContext(tracks.map(spotifyTrackToPlayerTrack), { type: 'autoplay', label: seedArtist });
+        const base = queueRef.current;
+        originalQueueRef.current = [...originalQueueRef.current, ...added];
+        setQueue([...base, ...added]);
+        if (waitingForAutoplayRef.current) {
+          waitingForAutoplayRef.current = false;
+          setQueueIndex(base.length);
+          playAndSkipOnFailure(added[0]);
+        }
+      })
+      .catch((err) => console.warn('Autoplay failed:', err))
+      .finally(() => setIsAutoplayLoading(false));
+  }, [settings.autoplay, currentTrack, isLastInQueue, repeatMode, sleepTimer, historyEntries, queue, unplayableTrackIds, rememberSpotifyTracks, playAndSkipOnFailure]);
+
+  useEffect(() => {
+    advanceRef.current = advance;
+    trackEndRef.current = () => {
+      endListen(true);
+      if (delegateRef.current) {
+        delegateRef.current.trackEnded();
+        return;
+      }
+      if (stopsAfterCurrentTrack) {
+        void stopForSleep().then(() => controller.dispatch({ type: 'seek', positionMs: 0 }));
+        return;
       }
+      // A loop ending at the very end of the track can finish before the jump back lands.
+      if (isLooping && abLoop) {
+        const { startMs } = abLoop;
+        void controller.dispatch({ type: 'replay' })
+          .then(() => controller.dispatch({ type: 'seek', positionMs: startMs }));
+        if (currentTrack) beginListen(currentTrack, startMs);
+        return;
+      }
+      if (repeatMode === 'one') {
+        void controller.dispatch({ type: 'replay' });
+        if (currentTrack) beginListen(currentTrack, 0);
+        return;
+      }
+      advance();
+    };
+    // With a crossfade, the next track starts while the current one fades out.
+    nearEndRef.current = () => {
+      if (repeatMode === 'one' || stopsAfterCurrentTrack || isLooping || delegateRef.current) return;
+      endListen(true);
+      advance();
     };
+  }, [controller, currentTrack, repeatMode, advance, stopsAfterCurrentTrack, stopForSleep, endListen, beginListen, isLooping, abLoop]);
+
+  const handleRemoteCommand = useCallback((command: RemoteCommand) => {
+    const { state } = controller.getSnapshot();
+    switch (command.type) {
+      case 'play':
+        if (state !== 'playing' && state !== 'loading') void togglePlayPause();
+        return;
+      case 'pause':
+        if (state === 'playing') void controller.dispatch({ type: 'pause' });
+        return;
+      case 'next':
+        skipNext();
+        return;
+      case 'previous':
+        skipPrevious();
+        return;
+      case 'seek':
+        void seekTo(command.positionMs);
+        return;
+      case 'seekBy':
+        void seekTo(Math.min(duration, Math.max(0, position + command.offsetMs)));
+        return;
+    }
+  }, [controller, togglePlayPause, skipNext, skipPrevious, seekTo, position, duration]);
+
+  useMediaSession({
+    currentTrack,
+    isPlaying,
+    positionMs: position,
+    durationMs: duration,
+    rate: settings.playbackRate,
+    onCommand: handleRemoteCommand,
+  });
+
+  const playNext = useCallback((track: PlayerTrack) => {
+    setUserQueue((prev) => [track, ...prev]);
+  }, []);
+
+  const addToQueue = useCallback((track: PlayerTrack) => {
+    setUserQueue((prev) => [...prev, track]);
   }, []);
 
+  const queueSpotifyTrack = useCallback((track: SpotifyTrack, placement: 'next' | 'last' = 'last') => {
+    rememberSpotifyTracks([track]);
+    const [playerTrack] = withContext([spotifyTrackToPlayerTrack(track)], { type: 'queue' });
+    if (placement === 'next') {
+      playNext(playerTrack);
+    } else {
+      addToQueue(playerTrack);
+    }
+  }, [playNext, addToQueue, rememberSpotifyTracks]);
+
+  /**
+   * Moves an upcoming entry within its own section. Context indices are
+   * absolute positions in `queue` and must be after `queueIndex`.
+   */
+  const moveQueueItem = useCallback((source: QueueSource, from: number, to: number) => {
+    if (source === 'user') {
+      setUserQueue((prev) => moveItem(prev, from, to));
+      return;
+    }
+    if (from <= queueIndex || to <= queueIndex) return;
+    setQueue((prev) => moveItem(prev, from, to));
+  }, [queueIndex]);
+
+  const removeQueueItem = useCallback((source: QueueSource, index: number) => {
+    if (source === 'user') {
+      setUserQueue((prev) => prev.filter((_, i) => i !== index));
+      return;
+    }
+    if (index <= queueIndex || index >= queue.length) return;
+    const removed = queue[index];
+    const originalIdx = originalQueueRef.current.findIndex((t) => t.id === removed.id);
+    if (originalIdx >= 0) {
+      originalQueueRef.current = originalQueueRef.current.filter((_, i) => i !== originalIdx);
+    }
+    setQueue((prev) => prev.filter((_, i) => i !== index));
+  }, [queue, queueIndex]);
+
+  const clearUpcoming = useCallback(() => {
+    const kept = queue.slice(0, queueIndex + 1);
+    const keptIds = new Set(kept.map((t) => t.id));
+    originalQueueRef.current = originalQueueRef.current.filter((t) => keptIds.has(t.id));
+    setQueue(kept);
+    setUserQueue([]);
+  }, [queue, queueIndex]);
+
+  const toggleShuffle = useCallback(() => {
+    if (shuffleEnabled) {
+      const original = originalQueueRef.current;
+      const idx = currentTrack ? original.findIndex((t) => t.id === currentTrack.id) : -1;
+      setQueue(original);
+      setQueueIndex(idx);
+      setShuffleEnabled(false);
+    } else {
+      originalQueueRef.current = queue;
+      if (queue.length > 0) {
+        setQueue(shuffleWithPinned(queue, Math.max(0, queueIndex)));
+        setQueueIndex(0);
+      }
+      setShuffleEnabled(true);
+    }
+  }, [shuffleEnabled, currentTrack, queue, queueIndex]);
+
+  const cycleRepeatMode = useCallback(() => {
+    setRepeatMode((mode) => REPEAT_MODES[(REPEAT_MODES.indexOf(mode) + 1) % REPEAT_MODES.length]);
+  }, []);
+
+  const setPlaybackDelegate = useCallback((delegate: PlaybackDelegate | null) => {
+    delegateRef.current = delegate;
+  }, []);
+
+  /** Engine controls that bypass the playback delegate, for the delegate itself to use. */
+  const directControls = useMemo(() => ({
+    loadTrack,
+    play: () => controller.dispatch({ type: 'play' }),
+    pause: () => controller.dispatch({ type: 'pause' }),
+    seekTo: (positionMs: number) => controller.dispatch({ type: 'seek', positionMs }),
+    /** Read synchronously, since render state lags behind commands just dispatched. */
+    getState: () => controller.getSnapshot().state,
+  }), [controller, loadTrack]);
+
+  useEffect(() => {
+    return () => {
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      controller.dispose().catch(() => {});
+    };
+  }, [controller]);
+
   return useMemo(() => ({
     currentTrack,
     isPlaying,
+    playbackState: snapshot.state,
+    playbackError: snapshot.error && snapshot.trackId
+      ? { trackId: snapshot.trackId, message: snapshot.error }
+      : null,
     position,
     duration,
     queue,
     queueIndex,
+    userQueue,
+    unplayableTrackIds,
+    shuffleEnabled,
+    repeatMode,
+    crossfadeMs: settings.crossfadeMs,
+    playbackRate: settings.playbackRate,
+    volume: settings.volume,
+    normalizeVolume: settings.normalizeVolume,
+    autoplay: settings.autoplay,
+    isAutoplayLoading,
+    equalizerSupported: controller.capabilities.equalizer,
+    visualizerSupported: controller.capabilities.visualizer,
+    eqGainsDb: settings.eqGainsDb,
+    eqPreset,
+    sleepTimer,
+    sleepRemainingMs,
+    abLoop,
+    savedLoops,
     playSpotifyTrack,
+    playLocalTrack,
     playTrack,
     togglePlayPause,
     skipNext,
     skipPrevious,
     seekTo,
-  }), [currentTrack, isPlaying, position, duration, queue, queueIndex, playSpotifyTrack, playTrack, togglePlayPause, skipNext, skipPrevious, seekTo]);
+    toggleShuffle,
+    setRepeatMode,
+    cycleRepeatMode,
+    playNext,
+    addToQueue,
+    queueSpotifyTrack,
+    moveQueueItem,
+    removeQueueItem,
+    clearUpcoming,
+    setCrossfadeDuration,
+    setPlaybackRate,
+    setVolume,
+    setNormalizeVolume,
+    setAutoplay,
+    setEqPreset,
+    setEqBandGain,
+    readVisualizerData,
+    startSleepTimer,
+    cancelSleepTimer,
+    setLoopStart,
+    setLoopEnd,
+    clearLoop,
+    saveCurrentLoop,
+    applySavedLoop,
+    removeSavedLoop,
+    setPlaybackDelegate,
+    directControls,
+  }), [controller, currentTrack, isPlaying, snapshot, position, duration, queue, queueIndex, userQueue, unplayableTrackIds, shuffleEnabled, repeatMode, settings, sleepTimer, sleepRemainingMs, playSpotifyTrack, playLocalTrack, playTrack, togglePlayPause, skipNext, skipPrevious, seekTo, toggleShuffle, cycleRepeatMode, playNext, addToQueue, queueSpotifyTrack, moveQueueItem, removeQueueItem, clearUpcoming, setCrossfadeDuration, setPlaybackRate, setVolume, setNormalizeVolume, setAutoplay, isAutoplayLoading, eqPreset, setEqPreset, setEqBandGain, readVisualizerData, startSleepTimer, cancelSleepTimer, abLoop, savedLoops, setLoopStart, setLoopEnd, clearLoop, saveCurrentLoop, applySavedLoop, removeSavedLoop, setPlaybackDelegate, directControls]);
 });
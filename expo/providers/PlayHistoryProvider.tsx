@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import createContextHook from '@nkzw/create-context-hook';
+import { SpotifyTrack } from '@/services/spotify';
+import { PlayerTrack } from '@/providers/MusicPlayerProvider';
+
+const HISTORY_KEY = 'fmeo_play_history';
+const MAX_HISTORY_ENTRIES = 500;
+const HISTORY_RETENTION_MS = 1000 * 60 * 60 * 24 * 90;
+
+/** Where a track was started from, e.g. `{ type: 'home', label: 'For You' }`. */
+export interface PlayContext {
+  type: 'home' | 'search' | 'album' | 'playlist' | 'library' | 'history' | 'queue' | 'jam' | 'autoplay';
+  label?: string;
+}
+
+export interface HistoryEntry {
+  id: string;
+  track: PlayerTrack;
+  /** Kept for Spotify tracks so they can be replayed through `playSpotifyTrack`. */
+  spotifyTrack: SpotifyTrack | null;
+  context: PlayContext | null;
+  startedAt: number;
+  listenedMs: number;
+  completed: boolean;
+}
+
+function pruneHistory(entries: HistoryEntry[]): HistoryEntry[] {
+  const cutoff = Date.now() - HISTORY_RETENTION_MS;
+  return entries.filter((e) => e.startedAt >= cutoff).slice(0, MAX_HISTORY_ENTRIES);
+}
+
+/** Drops API-only fields such as available markets so stored entries stay small. */
+function trimSpotifyTrack(track: SpotifyTrack): SpotifyTrack {
+  return {
+    id: track.id,
+    name: track.name,
+    artists: track.artists.map((a) => ({ id: a.id, name: a.name })),
+    album: { id: track.album.id, name: track.album.name, images: track.album.images },
+    duration_ms: track.duration_ms,
+    preview_url: track.preview_url,
+    popularity: track.popularity,
+    track_number: track.track_number,
+    explicit: track.explicit,
+    external_ids: track.external_ids,
+  };
+}
+
+export const [PlayHistoryProvider, usePlayHistory] = createContextHook(() => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    AsyncStorage.getItem(HISTORY_KEY)
+      .then((stored) => {
+        if (!stored) return;
+        const restored = pruneHistory(JSON.parse(stored) as HistoryEntry[]);
+        // Anything logged before the load finished is newer than what was stored.
+        setEntries((prev) => [...prev, ...restored]);
+      })
+      .catch((err) => console.error('Failed to load play history:', err))
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    AsyncStorage.setItem(HISTORY_KEY, JSON.stringify(entries))
+      .catch((err) => console.error('Failed to save play history:', err));
+  }, [entries, isLoaded]);
+
+  /** Records that `track` started playing and returns the new entry's id. */
+  const logPlayStart = useCallback((
+    track: PlayerTrack,
+    spotifyTrack: SpotifyTrack | null,
+    context: PlayContext | null,
+  ): string => {
+    const entry: HistoryEntry = {
+      id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      track,
+      spotifyTrack: spotifyTrack ? trimSpotifyTrack(spotifyTrack) : null,
+      context,
+      startedAt: Date.now(),
+      listenedMs: 0,
+      completed: false,
+    };
+    setEntries((prev) => pruneHistory([entry, ...prev]));
+    return entry.id;
+  }, []);
+
+  const logPlayProgress = useCallback((entryId: string, listenedMs: number, completed: boolean) => {
+    setEntries((prev) => {
+      const existing = prev.find((e) => e.id === entryId);
+      if (!existing || (existing.listenedMs === listenedMs && existing.completed === completed)) return prev;
+      return prev.map((e) => (e.id === entryId ? { ...e, listenedMs, completed } : e));
+    });
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    setEntries([]);
+    console.log('Play history cleared');
+  }, []);
+
+  /** Most recent play of each distinct track, newest first. */
+  const recentlyPlayed = useMemo(() => {
+    const seen = new Set<string>();
+    return entries.filter((e) => {
+      if (seen.has(e.track.id)) return false;
+      seen.add(e.track.id);
+      return true;
+    });
+  }, [entries]);
+
+  return useMemo(() => ({
+    entries,
+    recentlyPlayed,
+    logPlayStart,
+    logPlayProgress,
+    clearHistory,
+  }), [entries, recentlyPlayed, logPlayStart, logPlayProgress, clearHistory]);
+});
@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import createContextHook from '@nkzw/create-context-hook';
+import {
+  detectMarket,
+  getSpotifyLocale,
+  loadRegionOverride,
+  setRegionOverride,
+} from '@/services/region';
+
+export const [RegionProvider, useRegion] = createContextHook(() => {
+  const [override, setOverride] = useState<string | null>(null);
+
+  useEffect(() => {
+    void loadRegionOverride().then(setOverride);
+  }, []);
+
+  const setMarket = useCallback((market: string | null) => {
+    // The service updates its copy synchronously, so requests made on the next render already use it.
+    void setRegionOverride(market);
+    setOverride(market);
+  }, []);
+
+  const detectedMarket = useMemo(() => detectMarket(), []);
+  // Screens put `market` in their query keys so cached results stay per region.
+  const market = override ?? detectedMarket;
+
+  return useMemo(() => ({
+    market,
+    locale: getSpotifyLocale(market),
+    detectedMarket,
+    isAutomatic: override === null,
+    setMarket,
+  }), [market, detectedMarket, override, setMarket]);
+});
@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import createContextHook from '@nkzw/create-context-hook';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  authorizeSpotify,
+  disconnectSpotify,
+  isSpotifyAuthConfigured,
+  loadSpotifySession,
+  onSpotifySessionChange,
+} from '@/services/spotifyAuth';
+import { SpotifyUserProfile, getCurrentUserProfile } from '@/services/spotify';
+import { clearLibrarySnapshot } from '@/services/spotifyLibrary';
+
+export type SpotifyAuthState = 'loading' | 'signedOut' | 'authorizing' | 'signedIn';
+
+export const [SpotifyAuthProvider, useSpotifyAuth] = createContextHook(() => {
+  const queryClient = useQueryClient();
+  const [authState, setAuthState] = useState<SpotifyAuthState>('loading');
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [profile, setProfile] = useState<SpotifyUserProfile | null>(null);
+  const disconnectingRef = useRef(false);
+
+  useEffect(() => {
+    loadSpotifySession()
+      .then((session) => setAuthState(session ? 'signedIn' : 'signedOut'))
+      .catch(() => setAuthState('signedOut'));
+
+    return onSpotifySessionChange((session) => {
+      setAuthState(session ? 'signedIn' : 'signedOut');
+      if (!session) {
+        setProfile(null);
+        void clearLibrarySnapshot();
+        // Otherwise the refresh token was revoked and the user didn't ask to sign out.
+        if (!disconnectingRef.current) setAuthError('Your Spotify session expired. Connect again to see your library.');
+        disconnectingRef.current = false;
+      }
+      // Results differ with a user token (market, personal data), so refetch everything.
+      void queryClient.invalidateQueries();
+    });
+  }, [queryClient]);
+
+  useEffect(() => {
+    if (authState !== 'signedIn') return;
+    getCurrentUserProfile()
+      .then(setProfile)
+      .catch((err) => console.warn('Failed to load Spotify profile:', err));
+  }, [authState]);
+
+  const connect = useCallback(async () => {
+    if (!isSpotifyAuthConfigured()) {
+      setAuthError('Spotify client ID is missing. Please set EXPO_PUBLIC_SPOTIFY_CLIENT_ID.');
+      return;
+    }
+    setAuthError(null);
+    setAuthState('authorizing');
+    try {
+      const session = await authorizeSpotify();
+      if (!session) setAuthState('signedOut');
+    } catch (err) {
+      setAuthState('signedOut');
+      setAuthError(err instanceof Error ? err.message : 'Could not connect to Spotify.');
+      console.error('Spotify auth error:', err);
+    }
+  }, []);
+
+  const disconnect = useCallback(() => {
+    setAuthError(null);
+    disconnectingRef.current = true;
+    void disconnectSpotify();
+  }, []);
+
+  return useMemo(() => ({
+    authState,
+    authError,
+    profile,
+    isConnected: authState === 'signedIn',
+    isConfigured: isSpotifyAuthConfigured(),
+    connect,
+    disconnect,
+  }), [authState, authError, profile, connect, disconnect]);
+});
@@ -50,8 +50,8 @@ export const [XummProvider, useXumm] = createContextHook(() => {
       setError(null);
       setIsLoading(true);
 
-      if (!isXummConfigured()) {
-        setError('Xumm API key is missing. Please set EXPO_PUBLIC_XUMM_API_KEY.');
+      if (!(await isXummConfigured())) {
+        setError('Xumm is not configured on the server. Set XUMM_API_KEY and XUMM_API_SECRET.');
         setIsLoading(false);
         return;
       }
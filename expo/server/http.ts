@@ -0,0 +1,66 @@
+import { RateLimitScope, checkRateLimit } from './rateLimit';
+
+/** Sent by the app on every API call; see `services/api.ts`. */
+export const DEVICE_ID_HEADER = 'X-Device-Id';
+
+export function jsonError(status: number, message: string, headers?: Record<string, string>): Response {
+  return Response.json({ error: { message } }, { status, headers });
+}
+
+/**
+ * Header the hosting platform sets to the connecting client's address. EAS
+ * Hosting runs behind Cloudflare, which overwrites `cf-connecting-ip` on every
+ * request, so unlike `x-forwarded-for` a client can't choose its value. Other
+ * hosts can name theirs with `CLIENT_IP_HEADER` (e.g. `x-real-ip` on Vercel).
+ */
+function getClientAddress(request: Request): string {
+  const header = getServerSecret('CLIENT_IP_HEADER') ?? 'cf-connecting-ip';
+  // Without a trusted address every caller shares one ceiling, which fails closed.
+  return request.headers.get(header)?.trim() || 'unknown';
+}
+
+/** The caller's device id, or its address for clients that don't send one. */
+function getDeviceKey(request: Request, address: string): string {
+  const deviceId = request.headers.get(DEVICE_ID_HEADER);
+  if (deviceId && /^[\w-]{8,64}$/.test(deviceId)) return deviceId;
+  return `ip:${address}`;
+}
+
+/**
+ * Returns a 429 response if the caller is over its limit for `scope`, otherwise
+ * null. The device limit keeps one install to its share; the address ceiling
+ * stops a client that sends a fresh device id with each request.
+ */
+export function rateLimited(request: Request, scope: RateLimitScope): Response | null {
+  const address = getClientAddress(request);
+  const deviceKey = getDeviceKey(request, address);
+  const retryAfterMs =
+    checkRateLimit(scope, 'address', address) ?? checkRateLimit(scope, 'device', deviceKey);
+  if (retryAfterMs === null) return null;
+  console.warn(`Rate limited ${scope} request from ${deviceKey} (${address})`);
+  return jsonError(429, 'Too many requests, please try again shortly.', {
+    'Retry-After': String(Math.ceil(retryAfterMs / 1000)),
+  });
+}
+
+// Each variable is named in full: Expo only resolves static `process.env.NAME` reads.
+function readServerSecrets() {
+  return {
+    SPOTIFY_CLIENT_ID: process.env.SPOTIFY_CLIENT_ID,
+    SPOTIFY_CLIENT_SECRET: process.env.SPOTIFY_CLIENT_SECRET,
+    LTX_API_KEY: process.env.LTX_API_KEY,
+    XUMM_API_KEY: process.env.XUMM_API_KEY,
+    XUMM_API_SECRET: process.env.XUMM_API_SECRET,
+    LASTFM_API_KEY: process.env.LASTFM_API_KEY,
+    LASTFM_API_SECRET: process.env.LASTFM_API_SECRET,
+    CLIENT_IP_HEADER: process.env.CLIENT_IP_HEADER,
+  };
+}
+
+type ServerSecretName = keyof ReturnType<typeof readServerSecrets>;
+
+/** Reads a server-only credential, or null when it isn't configured. */
+export function getServerSecret(name: ServerSecretName): string | null {
+  const value = readServerSecrets()[name];
+  return value && value.length > 0 ? value : null;
+}
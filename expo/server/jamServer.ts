@@ -0,0 +1,539 @@
+/**
+ * Reference jam room server. Keeps rooms in memory and speaks the protocol in
+ * `services/jamProtocol.ts` over plain WebSockets, with no dependencies
+ * beyond Node's standard library. Good for local testing and small
+ * deployments; rooms are lost on restart.
+ *
+ *   bun run jam-server              # listens on :8787
+ *   JAM_PORT=9000 bun run jam-server
+ *
+ * Point the app at it with EXPO_PUBLIC_JAM_SERVER_URL=ws://<host>:8787.
+ */
+import { createServer, IncomingMessage } from 'http';
+import { createHash, randomInt, randomUUID } from 'crypto';
+import { Duplex } from 'stream';
+import {
+  JAM_CODE_ALPHABET,
+  JAM_CODE_LENGTH,
+  JAM_MAX_QUEUE_LENGTH,
+  JAM_PROTOCOL_VERSION,
+  JAM_SOURCE_KINDS,
+  JAM_START_LEAD_MS,
+  JamClientMessage,
+  JamRoomState,
+  JamServerMessage,
+  JamTrack,
+  getCurrentJamItem,
+  getJamPosition,
+  getSkipVotesNeeded,
+} from '../services/jamProtocol';
+
+const PORT = Number(process.env.JAM_PORT) || 8787;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_FRAME_BYTES = 64 * 1024;
+const HEARTBEAT_INTERVAL_MS = 30000;
+const MAX_NAME_LENGTH = 40;
+const MAX_TEXT_LENGTH = 200;
+const MAX_ID_LENGTH = 200;
+const MAX_URI_LENGTH = 2048;
+/** How long a dropped member keeps their place, host role included, for their reconnect to resume. */
+const RESUME_GRACE_MS = 60000;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+interface Connection {
+  send: (message: JamServerMessage) => void;
+  close: () => void;
+  memberId: string | null;
+  roomCode: string | null;
+  alive: boolean;
+  ping: () => void;
+}
+
+interface Room {
+  state: JamRoomState;
+  connections: Map<string, Connection>;
+  /** Secret per member, handed out in `welcome`, that lets a new connection take the member back. */
+  resumeTokens: Map<string, string>;
+  /** Members whose connection dropped; they are removed when the timer fires unless they resume first. */
+  dropTimers: Map<string, ReturnType<typeof setTimeout>>;
+}
+
+const rooms = new Map<string, Room>();
+const connections = new Set<Connection>();
+
+// --- WebSocket framing (RFC 6455), text frames only ---
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Reads complete frames off the front of `buffer`. Returns the frames and
+ * whatever bytes are left over, or null if the peer broke the protocol.
+ */
+function decodeFrames(buffer: Buffer): { frames: { opcode: number; payload: Buffer }[]; rest: Buffer } | null {
+  const frames: { opcode: number; payload: Buffer }[] = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    const fin = (first & 0x80) !== 0;
+    const opcode = first & 0x0f;
+    const masked = (second & 0x80) !== 0;
+    // Clients must mask, and our messages are small enough that nobody should fragment.
+    if (!fin || !masked) return null;
+
+    let length = second & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      const big = buffer.readBigUInt64BE(cursor);
+      if (big > BigInt(MAX_FRAME_BYTES)) return null;
+      length = Number(big);
+      cursor += 8;
+    }
+    if (length > MAX_FRAME_BYTES) return null;
+    if (buffer.length < cursor + 4 + length) break;
+
+    const mask = buffer.subarray(cursor, cursor + 4);
+    cursor += 4;
+    const payload = Buffer.alloc(length);
+    for (let i = 0; i < length; i++) payload[i] = buffer[cursor + i] ^ mask[i % 4];
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+function acceptUpgrade(req: IncomingMessage, socket: Duplex): boolean {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return false;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  return true;
+}
+
+// --- Rooms ---
+
+function createRoomCode(): string {
+  for (;;) {
+    let code = '';
+    for (let i = 0; i < JAM_CODE_LENGTH; i++) code += JAM_CODE_ALPHABET[randomInt(JAM_CODE_ALPHABET.length)];
+    if (!rooms.has(code)) return code;
+  }
+}
+
+function broadcast(room: Room) {
+  const message: JamServerMessage = { type: 'room', room: room.state };
+  room.connections.forEach((connection) => connection.send(message));
+}
+
+function cleanName(name: unknown): string {
+  const trimmed = typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : '';
+  return trimmed || 'Listener';
+}
+
+/** Positions and durations arrive as untyped JSON, so NaN, strings or negatives get this far. */
+function isValidMs(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isValidIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function cleanText(value: unknown): string | null {
+  return typeof value === 'string' ? value.slice(0, MAX_TEXT_LENGTH) : null;
+}
+
+function isValidSource(source: unknown): source is NonNullable<JamTrack['source']> {
+  if (!source || typeof source !== 'object') return false;
+  const { kind, uri } = source as Partial<NonNullable<JamTrack['source']>>;
+  // A cut-off URI is useless, so long ones are refused rather than trimmed like text.
+  return JAM_SOURCE_KINDS.includes(kind as (typeof JAM_SOURCE_KINDS)[number])
+    && typeof uri === 'string'
+    && uri.length <= MAX_URI_LENGTH
+    && /^https?:\/\//i.test(uri);
+}
+
+/** Rebuilds a track from untyped JSON with only the known fields, or null if it is unusable. */
+function parseTrack(track: unknown): JamTrack | null {
+  if (!track || typeof track !== 'object') return null;
+  const t = track as Record<string, unknown>;
+  const name = cleanText(t.name);
+  const artistName = cleanText(t.artistName);
+  const albumName = cleanText(t.albumName);
+  if (typeof t.id !== 'string' || t.id.length > MAX_ID_LENGTH) return null;
+  if (name === null || artistName === null || albumName === null || !isValidMs(t.durationMs)) return null;
+  if (typeof t.albumArt !== 'string' || t.albumArt.length > MAX_URI_LENGTH) return null;
+  if (t.isrc !== undefined && (typeof t.isrc !== 'string' || t.isrc.length > MAX_ID_LENGTH)) return null;
+  if (t.source !== null && !isValidSource(t.source)) return null;
+  return {
+    id: t.id,
+    name,
+    artistName,
+    albumName,
+    albumArt: t.albumArt,
+    durationMs: t.durationMs,
+    ...(t.isrc !== undefined ? { isrc: t.isrc } : {}),
+    source: t.source ? { kind: t.source.kind, uri: t.source.uri } : null,
+  };
+}
+
+/** Checks the numbers in a host's playback message before they go into room state and out to everyone. */
+function isValidPlaybackMessage(message: JamClientMessage, queueLength: number): boolean {
+  switch (message.type) {
+    case 'play':
+      return message.positionMs === undefined || isValidMs(message.positionMs);
+    case 'pause':
+    case 'seek':
+      return isValidMs(message.positionMs);
+    case 'playIndex':
+      return isValidIndex(message.index) && message.index < queueLength;
+    case 'trackEnded':
+      return isValidIndex(message.index);
+    case 'removeItem':
+      return typeof message.itemId === 'string';
+    default:
+      return true;
+  }
+}
+
+/** Starts queue entry `index` for everyone, a short lead time from now. */
+function startIndex(room: Room, index: number) {
+  room.state.playback = { index, isPlaying: true, positionMs: 0, updatedAt: Date.now() + JAM_START_LEAD_MS };
+  room.state.skipVotes = [];
+}
+
+function advance(room: Room) {
+  const next = room.state.playback.index + 1;
+  if (next < room.state.queue.length) {
+    startIndex(room, next);
+  } else {
+    room.state.playback = { index: room.state.queue.length, isPlaying: false, positionMs: 0, updatedAt: Date.now() };
+    room.state.skipVotes = [];
+  }
+}
+
+function removeMember(room: Room, memberId: string) {
+  const { code } = room.state;
+  clearTimeout(room.dropTimers.get(memberId));
+  room.dropTimers.delete(memberId);
+  room.resumeTokens.delete(memberId);
+  room.connections.delete(memberId);
+  room.state.members = room.state.members.filter((m) => m.id !== memberId);
+  room.state.skipVotes = room.state.skipVotes.filter((id) => id !== memberId);
+  if (room.state.members.length === 0) {
+    rooms.delete(code);
+    console.log(`Room ${code} closed`);
+    return;
+  }
+  if (room.state.hostId === memberId) {
+    // Hand the room to whoever has been in it longest.
+    room.state.hostId = room.state.members[0].id;
+  }
+  broadcast(room);
+}
+
+/** Takes the connection out of its room for good, e.g. when the member leaves on purpose. */
+function leaveRoom(connection: Connection) {
+  const { memberId, roomCode } = connection;
+  if (!memberId || !roomCode) return;
+  connection.memberId = null;
+  connection.roomCode = null;
+  const room = rooms.get(roomCode);
+  if (room) removeMember(room, memberId);
+}
+
+/** Detaches a lost connection but keeps its member for `RESUME_GRACE_MS`, so a reconnect can resume. */
+function dropConnection(connection: Connection) {
+  const { memberId, roomCode } = connection;
+  if (!memberId || !roomCode) return;
+  connection.memberId = null;
+  connection.roomCode = null;
+  const room = rooms.get(roomCode);
+  // A newer connection may already have resumed this member.
+  if (!room || room.connections.get(memberId) !== connection) return;
+
+  room.connections.delete(memberId);
+  room.dropTimers.set(memberId, setTimeout(() => removeMember(room, memberId), RESUME_GRACE_MS));
+}
+
+function attachMember(connection: Connection, room: Room, memberId: string) {
+  connection.memberId = memberId;
+  connection.roomCode = room.state.code;
+  room.connections.set(memberId, connection);
+  const resumeToken = room.resumeTokens.get(memberId) ?? '';
+  connection.send({ type: 'welcome', memberId, resumeToken, room: room.state });
+  broadcast(room);
+}
+
+function joinRoom(connection: Connection, room: Room, name: string) {
+  const memberId = randomUUID();
+  room.resumeTokens.set(memberId, randomUUID());
+  room.state.members.push({ id: memberId, name });
+  if (!room.state.hostId) room.state.hostId = memberId;
+  attachMember(connection, room, memberId);
+}
+
+function resumeMember(connection: Connection, room: Room, memberId: string) {
+  clearTimeout(room.dropTimers.get(memberId));
+  room.dropTimers.delete(memberId);
+  // The old socket may not have noticed it is dead yet; retire it without dropping the member.
+  const previous = room.connections.get(memberId);
+  if (previous && previous !== connection) {
+    previous.memberId = null;
+    previous.roomCode = null;
+    previous.close();
+  }
+  attachMember(connection, room, memberId);
+}
+
+function canResume(room: Room, resume: unknown): resume is { memberId: string; token: string } {
+  if (!resume || typeof resume !== 'object') return false;
+  const { memberId, token } = resume as Record<string, unknown>;
+  return typeof memberId === 'string' && typeof token === 'string' && room.resumeTokens.get(memberId) === token;
+}
+
+function handleMessage(connection: Connection, message: JamClientMessage) {
+  if (message.type === 'ping') {
+    connection.send({ type: 'pong', clientTime: message.clientTime, serverTime: Date.now() });
+    return;
+  }
+
+  if (message.type === 'leave') {
+    leaveRoom(connection);
+    return;
+  }
+
+  if (message.type === 'create' || message.type === 'join') {
+    if (message.version !== JAM_PROTOCOL_VERSION) {
+      connection.send({ type: 'error', message: 'This version of the app is not compatible with the jam server.' });
+      return;
+    }
+    leaveRoom(connection);
+    if (message.type === 'create') {
+      const code = createRoomCode();
+      const room: Room = {
+        state: {
+          code,
+          hostId: '',
+          members: [],
+          queue: [],
+          playback: { index: -1, isPlaying: false, positionMs: 0, updatedAt: Date.now() },
+          skipVotes: [],
+        },
+        connections: new Map(),
+        resumeTokens: new Map(),
+        dropTimers: new Map(),
+      };
+      rooms.set(code, room);
+      joinRoom(connection, room, cleanName(message.name));
+      console.log(`Room ${code} created`);
+    } else {
+      const room = rooms.get(String(message.code).toUpperCase());
+      if (!room) {
+        connection.send({ type: 'error', message: 'No jam with that code is running.', code: 'roomNotFound' });
+        return;
+      }
+      // Past the grace period the old member is gone, so the reconnect joins as someone new.
+      if (canResume(room, message.resume)) {
+        resumeMember(connection, room, message.resume.memberId);
+      } else {
+        joinRoom(connection, room, cleanName(message.name));
+      }
+    }
+    return;
+  }
+
+  const room = connection.roomCode ? rooms.get(connection.roomCode) : undefined;
+  const memberId = connection.memberId;
+  if (!room || !memberId) {
+    connection.send({ type: 'error', message: 'Join a jam first.' });
+    return;
+  }
+  const { state } = room;
+  const isHost = state.hostId === memberId;
+  const now = Date.now();
+
+  switch (message.type) {
+    case 'addTrack': {
+      const track = parseTrack(message.track);
+      if (!track) return;
+      if (state.queue.length >= JAM_MAX_QUEUE_LENGTH) {
+        connection.send({ type: 'error', message: 'The jam queue is full.' });
+        return;
+      }
+      // A track added while nothing is queued up starts straight away, like a jukebox.
+      const wasIdle = !getCurrentJamItem(state);
+      state.queue.push({ id: randomUUID(), track, addedBy: memberId });
+      if (wasIdle) startIndex(room, state.queue.length - 1);
+      break;
+    }
+    case 'voteSkip':
+      if (!getCurrentJamItem(state) || state.skipVotes.includes(memberId)) return;
+      state.skipVotes.push(memberId);
+      if (state.skipVotes.length >= getSkipVotesNeeded(state.members.length)) advance(room);
+      break;
+    case 'play':
+    case 'pause':
+    case 'seek':
+    case 'playIndex':
+    case 'removeItem':
+    case 'trackEnded':
+      if (!isHost) {
+        connection.send({ type: 'error', message: 'Only the host can control playback.' });
+        return;
+      }
+      if (!isValidPlaybackMessage(message, state.queue.length)) return;
+      if (message.type === 'play') {
+        if (state.playback.index < 0) {
+          if (state.queue.length === 0) return;
+          startIndex(room, 0);
+        } else if (!getCurrentJamItem(state)) {
+          return;
+        } else {
+          const positionMs = message.positionMs ?? Math.max(0, getJamPosition(state.playback, now));
+          state.playback = { ...state.playback, isPlaying: true, positionMs, updatedAt: now + JAM_START_LEAD_MS };
+        }
+      } else if (message.type === 'pause') {
+        state.playback = { ...state.playback, isPlaying: false, positionMs: message.positionMs, updatedAt: now };
+      } else if (message.type === 'seek') {
+        const { positionMs } = message;
+        state.playback = state.playback.isPlaying
+          ? { ...state.playback, positionMs, updatedAt: now + JAM_START_LEAD_MS }
+          : { ...state.playback, positionMs, updatedAt: now };
+      } else if (message.type === 'playIndex') {
+        startIndex(room, message.index);
+      } else if (message.type === 'removeItem') {
+        const index = state.queue.findIndex((item) => item.id === message.itemId);
+        if (index < 0 || index === state.playback.index) return;
+        state.queue.splice(index, 1);
+        if (index < state.playback.index) state.playback = { ...state.playback, index: state.playback.index - 1 };
+      } else {
+        // Ignore stale reports, e.g. a track that ended just as the host skipped it.
+        if (message.index !== state.playback.index) return;
+        advance(room);
+      }
+      break;
+    default:
+      return;
+  }
+  broadcast(room);
+}
+
+function openConnection(socket: Duplex): Connection {
+  let buffer: Buffer = Buffer.alloc(0);
+  let closed = false;
+
+  const connection: Connection = {
+    memberId: null,
+    roomCode: null,
+    alive: true,
+    send(message) {
+      if (!closed) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))));
+    },
+    ping() {
+      if (!closed) socket.write(encodeFrame(OPCODE_PING, Buffer.alloc(0)));
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+    },
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    const decoded = decodeFrames(Buffer.concat([buffer, chunk]));
+    if (!decoded) {
+      connection.close();
+      return;
+    }
+    buffer = decoded.rest;
+    for (const frame of decoded.frames) {
+      if (frame.opcode === OPCODE_CLOSE) {
+        connection.close();
+        return;
+      }
+      if (frame.opcode === OPCODE_PING) {
+        socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+      } else if (frame.opcode === OPCODE_PONG) {
+        connection.alive = true;
+      } else if (frame.opcode === OPCODE_TEXT) {
+        connection.alive = true;
+        try {
+          handleMessage(connection, JSON.parse(frame.payload.toString('utf8')) as JamClientMessage);
+        } catch (err) {
+          console.warn('Bad message:', err);
+          connection.send({ type: 'error', message: 'Malformed message.' });
+        }
+      }
+    }
+  });
+
+  const cleanup = () => {
+    closed = true;
+    connections.delete(connection);
+    dropConnection(connection);
+  };
+  socket.on('close', cleanup);
+  socket.on('error', cleanup);
+
+  connections.add(connection);
+  return connection;
+}
+
+const server = createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify({ name: 'fmeo-jam-server', version: JAM_PROTOCOL_VERSION, rooms: rooms.size }));
+});
+
+server.on('upgrade', (req, socket) => {
+  if (acceptUpgrade(req, socket)) openConnection(socket);
+});
+
+// Drop connections that stopped answering pings, e.g. phones that lost signal.
+setInterval(() => {
+  connections.forEach((connection) => {
+    if (!connection.alive) {
+      connection.close();
+      return;
+    }
+    connection.alive = false;
+    connection.ping();
+  });
+}, HEARTBEAT_INTERVAL_MS);
+
+server.listen(PORT, () => {
+  console.log(`Jam server listening on :${PORT}`);
+});
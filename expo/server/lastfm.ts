@@ -0,0 +1,47 @@
+import { md5 } from '@/utils/md5';
+import { getServerSecret } from './http';
+
+const LASTFM_API_BASE = 'https://ws.audioscrobbler.com/2.0/';
+
+export function isLastFmConfigured(): boolean {
+  return getServerSecret('LASTFM_API_KEY') !== null && getServerSecret('LASTFM_API_SECRET') !== null;
+}
+
+/**
+ * Builds `api_sig`: every parameter except `format` and `callback`, sorted by
+ * name and concatenated as name+value, followed by the secret, MD5-hashed.
+ */
+function signParams(params: Record<string, string>, secret: string): string {
+  const payload = Object.keys(params)
+    .filter((key) => key !== 'format' && key !== 'callback')
+    .sort()
+    .map((key) => key + params[key])
+    .join('');
+  return md5(payload + secret);
+}
+
+/** Signs `method` with the server's key and secret, calls Last.fm and relays the response. */
+export async function callLastFm(
+  method: string,
+  params: Record<string, string>,
+  httpMethod: 'GET' | 'POST',
+): Promise<Response> {
+  const signed: Record<string, string> = { ...params, method, api_key: getServerSecret('LASTFM_API_KEY') ?? '' };
+  const body = new URLSearchParams({
+    ...signed,
+    api_sig: signParams(signed, getServerSecret('LASTFM_API_SECRET') ?? ''),
+    format: 'json',
+  });
+
+  const response = httpMethod === 'GET'
+    ? await fetch(`${LASTFM_API_BASE}?${body.toString()}`)
+    : await fetch(LASTFM_API_BASE, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: body.toString(),
+      });
+  return new Response(response.body, {
+    status: response.status,
+    headers: { 'Content-Type': response.headers.get('content-type') ?? 'application/json' },
+  });
+}
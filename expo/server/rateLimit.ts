@@ -0,0 +1,82 @@
+/**
+ * Per-device and per-address request limits for the API routes. Counts live in
+ * memory, so each server instance limits on its own and counts reset on
+ * restart; that is enough to stop one client from burning through the shared
+ * API quotas.
+ */
+
+export interface RateLimit {
+  /** Requests allowed per window. */
+  limit: number;
+  windowMs: number;
+}
+
+export const RATE_LIMITS = {
+  spotify: { limit: 120, windowMs: 60 * 1000 },
+  xumm: { limit: 30, windowMs: 60 * 1000 },
+  lastfm: { limit: 60, windowMs: 60 * 1000 },
+  // Video generation is slow and billed per clip.
+  ltx: { limit: 5, windowMs: 60 * 60 * 1000 },
+} satisfies Record<string, RateLimit>;
+
+export type RateLimitScope = keyof typeof RATE_LIMITS;
+
+/**
+ * Ceilings per connection address. Device ids are chosen by the client, so
+ * these are what actually bound a caller that rotates them; they are looser
+ * than the device limits because a household or office shares one address.
+ */
+export const ADDRESS_RATE_LIMITS = {
+  spotify: { limit: 600, windowMs: 60 * 1000 },
+  xumm: { limit: 120, windowMs: 60 * 1000 },
+  lastfm: { limit: 300, windowMs: 60 * 1000 },
+  ltx: { limit: 15, windowMs: 60 * 60 * 1000 },
+} satisfies Record<RateLimitScope, RateLimit>;
+
+export type RateLimitKind = 'device' | 'address';
+
+const LIMITS: Record<RateLimitKind, Record<RateLimitScope, RateLimit>> = {
+  device: RATE_LIMITS,
+  address: ADDRESS_RATE_LIMITS,
+};
+
+interface Window {
+  startedAt: number;
+  count: number;
+}
+
+const MAX_TRACKED_KEYS = 10000;
+const windows = new Map<string, Window>();
+
+function pruneExpired(now: number) {
+  const longest = Math.max(
+    ...Object.values(LIMITS).flatMap((limits) => Object.values(limits).map((l) => l.windowMs)),
+  );
+  windows.forEach((window, key) => {
+    if (now - window.startedAt >= longest) windows.delete(key);
+  });
+}
+
+/**
+ * Counts a request from `id` (a device id or an address, per `kind`) against
+ * `scope`. Resolves to null when it is allowed, or to the milliseconds until
+ * that caller may try again.
+ */
+export function checkRateLimit(
+  scope: RateLimitScope,
+  kind: RateLimitKind,
+  id: string,
+  now: number = Date.now(),
+): number | null {
+  const { limit, windowMs } = LIMITS[kind][scope];
+  const key = `${scope}:${kind}:${id}`;
+  const current = windows.get(key);
+  if (!current || now - current.startedAt >= windowMs) {
+    if (windows.size >= MAX_TRACKED_KEYS) pruneExpired(now);
+    windows.set(key, { startedAt: now, count: 1 });
+    return null;
+  }
+  if (current.count >= limit) return current.startedAt + windowMs - now;
+  current.count++;
+  return null;
+}
@@ -0,0 +1,56 @@
+import { getServerSecret } from './http';
+
+let cachedToken: string | null = null;
+let tokenExpiry = 0;
+let pending: Promise<string> | null = null;
+
+export function isSpotifyConfigured(): boolean {
+  return getServerSecret('SPOTIFY_CLIENT_ID') !== null && getServerSecret('SPOTIFY_CLIENT_SECRET') !== null;
+}
+
+async function fetchToken(): Promise<string> {
+  const clientId = getServerSecret('SPOTIFY_CLIENT_ID');
+  const clientSecret = getServerSecret('SPOTIFY_CLIENT_SECRET');
+  if (!clientId || !clientSecret) throw new Error('Spotify credentials are not configured');
+
+  console.log('Fetching new Spotify access token...');
+  const response = await fetch('https://accounts.spotify.com/api/token', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: 'grant_type=client_credentials',
+  });
+
+  if (!response.ok) {
+    console.error('Spotify token error:', response.status, await response.text());
+    throw new Error('Failed to get Spotify access token');
+  }
+
+  const data = await response.json() as { access_token: string; expires_in: number };
+  cachedToken = data.access_token;
+  tokenExpiry = Date.now() + (data.expires_in - 60) * 1000;
+  console.log('Spotify token acquired');
+  return data.access_token;
+}
+
+/**
+ * An app (client credentials) token shared by every device, refreshed a minute
+ * before it expires. Concurrent callers share one refresh.
+ */
+export function getSpotifyAppToken(): Promise<string> {
+  if (cachedToken && Date.now() < tokenExpiry) return Promise.resolve(cachedToken);
+  if (!pending) {
+    pending = fetchToken().finally(() => {
+      pending = null;
+    });
+  }
+  return pending;
+}
+
+/** Drops the cached token, e.g. after Spotify rejects it. */
+export function clearSpotifyAppToken() {
+  cachedToken = null;
+  tokenExpiry = 0;
+}
@@ -0,0 +1,24 @@
+import { getServerSecret } from './http';
+
+export const XUMM_API_BASE = 'https://xumm.app/api/v1/platform';
+
+export function isXummConfigured(): boolean {
+  return getServerSecret('XUMM_API_KEY') !== null && getServerSecret('XUMM_API_SECRET') !== null;
+}
+
+/** Calls the Xumm platform API with the server's key pair and relays the response. */
+export async function callXumm(path: string, init: { method: string; body?: string }): Promise<Response> {
+  const response = await fetch(`${XUMM_API_BASE}${path}`, {
+    method: init.method,
+    headers: {
+      'X-API-Key': getServerSecret('XUMM_API_KEY') ?? '',
+      'X-API-Secret': getServerSecret('XUMM_API_SECRET') ?? '',
+      'Content-Type': 'application/json',
+    },
+    body: init.body,
+  });
+  return new Response(response.body, {
+    status: response.status,
+    headers: { 'Content-Type': response.headers.get('content-type') ?? 'application/json' },
+  });
+}
@@ -0,0 +1,59 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_BASE_URL } from '@/constants/api';
+
+const DEVICE_ID_KEY = 'fmeo_device_id';
+
+let deviceIdPromise: Promise<string> | null = null;
+
+/** A random id for this install, which the API routes rate-limit by. */
+function getDeviceId(): Promise<string> {
+  if (!deviceIdPromise) {
+    deviceIdPromise = AsyncStorage.getItem(DEVICE_ID_KEY)
+      .then(async (stored) => {
+        if (stored) return stored;
+        const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+        await AsyncStorage.setItem(DEVICE_ID_KEY, id);
+        return id;
+      })
+      .catch((err) => {
+        console.warn('Failed to load device id:', err);
+        return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+      });
+  }
+  return deviceIdPromise;
+}
+
+/**
+ * Calls one of the app's own API routes (`app/api`), which hold the
+ * third-party credentials and proxy the calls that need them.
+ */
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set('X-Device-Id', await getDeviceId());
+  return fetch(`${API_BASE_URL}${path}`, { ...init, headers });
+}
+
+export interface ApiConfig {
+  spotify: boolean;
+  ltx: boolean;
+  xumm: boolean;
+  lastfm: boolean;
+}
+
+let configPromise: Promise<ApiConfig> | null = null;
+
+/** Which services the server has credentials for. Failed lookups are retried on the next call. */
+export function getApiConfig(): Promise<ApiConfig> {
+  if (!configPromise) {
+    configPromise = apiFetch('/api/config')
+      .then((response) => {
+        if (!response.ok) throw new Error(`API config error: ${response.status}`);
+        return response.json() as Promise<ApiConfig>;
+      })
+      .catch((err) => {
+        configPromise = null;
+        throw err;
+      });
+  }
+  return configPromise;
+}
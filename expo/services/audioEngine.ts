@@ -0,0 +1,305 @@
+import {
+  Audio,
+  AVPlaybackSource,
+  AVPlaybackStatus,
+  AVPlaybackStatusToSet,
+  PitchCorrectionQuality,
+} from 'expo-av';
+import { AudioSource } from '@/services/audioSources';
+import { AudioEngine, AudioEngineCallbacks } from '@/services/audioEngineTypes';
+import { createLoudnessMeter, LoudnessMeter } from '@/utils/loudness';
+
+const FADE_STEP_MS = 50;
+const PROGRESS_INTERVAL_MS = 250;
+/** How much of a track is sampled when measuring its loudness. */
+const LOUDNESS_WINDOW_MS = 10000;
+
+interface Slot {
+  uri: string;
+  sound: Audio.Sound | null;
+  nearEndFired: boolean;
+  gain: number;
+  measurement: { meter: LoudnessMeter; untilMs: number; onMeasured: (levelDb: number) => void } | null;
+}
+
+interface Fade {
+  from: Slot;
+  to: Slot;
+  timer: ReturnType<typeof setInterval>;
+}
+
+function toPlaybackSource(source: AudioSource): AVPlaybackSource {
+  // Android's ExoPlayer picks its extractor from the extension, which stream URLs often lack.
+  if (source.kind === 'hls') {
+    return { uri: source.uri, overrideFileExtensionAndroid: 'm3u8' };
+  }
+  return { uri: source.uri };
+}
+
+/**
+ * Creates a two-slot expo-av engine: the active sound plus a preloaded next
+ * sound, so switching to the preloaded track skips the network round trip.
+ * When a crossfade duration is set, loading while a track plays ramps the old
+ * sound down and the new one up over that window.
+ */
+export function createAudioEngine(callbacks: AudioEngineCallbacks): AudioEngine {
+  let active: Slot | null = null;
+  let preloaded: Slot | null = null;
+  let fade: Fade | null = null;
+  let crossfadeMs = 0;
+  let volume = 1;
+  let rate = 1;
+  let preloadToken = 0;
+
+  function slotVolume(slot: Slot, level = 1): number {
+    return level * volume * slot.gain;
+  }
+
+  function rateStatus(): AVPlaybackStatusToSet {
+    return { rate, shouldCorrectPitch: true, pitchCorrectionQuality: PitchCorrectionQuality.High };
+  }
+
+  function startMeasurement(slot: Slot, startPositionMs: number, onMeasured: (levelDb: number) => void) {
+    if (!slot.sound) return;
+    const meter = createLoudnessMeter();
+    try {
+      slot.sound.setOnAudioSampleReceived((sample) => {
+        sample.channels.forEach((channel) => meter.addFrames(channel.frames));
+      });
+      slot.measurement = { meter, untilMs: startPositionMs + LOUDNESS_WINDOW_MS, onMeasured };
+    } catch (err) {
+      // Sample buffers aren't available on web or under remote debugging.
+      console.warn('Loudness measurement unavailable:', err);
+    }
+  }
+
+  function finishMeasurement(slot: Slot) {
+    const measurement = slot.measurement;
+    if (!measurement) return;
+    slot.measurement = null;
+    try {
+      slot.sound?.setOnAudioSampleReceived(null);
+    } catch {
+      // The sound may already be unloaded.
+    }
+    const levelDb = measurement.meter.getLevelDb();
+    if (levelDb !== null) measurement.onMeasured(levelDb);
+  }
+
+  function handleStatus(slot: Slot, status: AVPlaybackStatus) {
+    if (slot !== active || !status.isLoaded) return;
+    const durationMs = status.durationMillis ?? 0;
+    callbacks.onStatus({
+      positionMs: status.positionMillis,
+      durationMs,
+      isPlaying: status.isPlaying,
+    });
+
+    if (slot.measurement && (status.positionMillis >= slot.measurement.untilMs || status.didJustFinish)) {
+      finishMeasurement(slot);
+    }
+
+    // Compare in wall-clock time so the crossfade window holds at any speed.
+    const remaining = (durationMs - status.positionMillis) / rate;
+    if (
+      crossfadeMs > 0 &&
+      !slot.nearEndFired &&
+      status.isPlaying &&
+      durationMs > crossfadeMs * 2 &&
+      remaining <= crossfadeMs
+    ) {
+      slot.nearEndFired = true;
+      callbacks.onNearEnd();
+    }
+
+    if (status.didJustFinish) {
+      callbacks.onFinish();
+    }
+  }
+
+  async function createSlot(source: AudioSource, initialStatus: AVPlaybackStatusToSet): Promise<Slot> {
+    const slot: Slot = { uri: source.uri, sound: null, nearEndFired: false, gain: 1, measurement: null };
+    const { sound } = await Audio.Sound.createAsync(
+      toPlaybackSource(source),
+      { progressUpdateIntervalMillis: PROGRESS_INTERVAL_MS, ...rateStatus(), ...initialStatus },
+      (status) => handleStatus(slot, status)
+    );
+    slot.sound = sound;
+    return slot;
+  }
+
+  async function unloadSlot(slot: Slot | null) {
+    if (!slot?.sound) return;
+    slot.measurement = null;
+    try {
+      await slot.sound.unloadAsync();
+    } catch (err) {
+      console.error('Unload error:', err);
+    }
+    slot.sound = null;
+  }
+
+  function finishFade() {
+    if (!fade) return;
+    const { from, to, timer } = fade;
+    clearInterval(timer);
+    fade = null;
+    to.sound?.setVolumeAsync(slotVolume(to)).catch(() => {});
+    void unloadSlot(from);
+  }
+
+  function startFade(from: Slot, to: Slot) {
+    finishFade();
+    const steps = Math.max(1, Math.round(crossfadeMs / FADE_STEP_MS));
+    let step = 0;
+    const timer = setInterval(() => {
+      step += 1;
+      const ratio = Math.min(1, step / steps);
+      from.sound?.setVolumeAsync(slotVolume(from, 1 - ratio)).catch(() => {});
+      to.sound?.setVolumeAsync(slotVolume(to, ratio)).catch(() => {});
+      if (ratio >= 1) finishFade();
+    }, FADE_STEP_MS);
+    fade = { from, to, timer };
+  }
+
+  async function isSlotPlaying(slot: Slot | null): Promise<boolean> {
+    if (!slot?.sound) return false;
+    try {
+      const status = await slot.sound.getStatusAsync();
+      return status.isLoaded && status.isPlaying;
+    } catch {
+      return false;
+    }
+  }
+
+  return {
+    async load(source, { startPositionMs = 0, gain = 1, isCancelled = () => false, onLoudnessMeasured } = {}) {
+      finishFade();
+      const previous = active;
+      const shouldFade = crossfadeMs > 0 && (await isSlotPlaying(previous));
+      const initialStatus: AVPlaybackStatusToSet = {
+        ...rateStatus(),
+        shouldPlay: true,
+        positionMillis: startPositionMs,
+        volume: shouldFade ? 0 : volume * gain,
+      };
+
+      if (isCancelled()) return false;
+
+      let next: Slot;
+      if (preloaded?.sound && preloaded.uri === source.uri) {
+        next = preloaded;
+        preloaded = null;
+        active = next;
+        await next.sound!.setStatusAsync(initialStatus);
+      } else {
+        next = await createSlot(source, initialStatus);
+        // A newer load won while this sound was being created; drop it unheard.
+        if (isCancelled()) {
+          await unloadSlot(next);
+          return false;
+        }
+        active = next;
+      }
+      next.gain = gain;
+      if (onLoudnessMeasured) startMeasurement(next, startPositionMs, onLoudnessMeasured);
+
+      if (previous && previous !== next) {
+        if (shouldFade) {
+          startFade(previous, next);
+        } else {
+          await unloadSlot(previous);
+        }
+      }
+      return true;
+    },
+
+    async preload(source) {
+      const token = ++preloadToken;
+      if (preloaded && preloaded.uri === source?.uri) return;
+      const stale = preloaded;
+      preloaded = null;
+      await unloadSlot(stale);
+      if (!source) return;
+      try {
+        const slot = await createSlot(source, { shouldPlay: false, volume: 1 });
+        if (token !== preloadToken) {
+          await unloadSlot(slot);
+          return;
+        }
+        preloaded = slot;
+      } catch (err) {
+        console.warn('Preload failed:', err);
+      }
+    },
+
+    async play() {
+      await active?.sound?.playAsync();
+    },
+
+    async pause() {
+      finishFade();
+      await active?.sound?.pauseAsync();
+    },
+
+    async seek(positionMs) {
+      if (!active?.sound) return;
+      active.nearEndFired = false;
+      await active.sound.setPositionAsync(positionMs);
+    },
+
+    async replay() {
+      if (!active?.sound) return;
+      active.nearEndFired = false;
+      await active.sound.replayAsync();
+    },
+
+    isLoaded() {
+      return !!active?.sound;
+    },
+
+    isPlaying() {
+      return isSlotPlaying(active);
+    },
+
+    setCrossfadeDuration(ms) {
+      crossfadeMs = Math.max(0, ms);
+    },
+
+    setVolume(level) {
+      const next = Math.min(1, Math.max(0, level));
+      if (next === volume) return;
+      volume = next;
+      // A running fade picks up the new level on its next step.
+      if (!fade && active) active.sound?.setVolumeAsync(slotVolume(active)).catch(() => {});
+    },
+
+    setRate(next) {
+      if (next === rate) return;
+      rate = next;
+      for (const slot of [active, preloaded]) {
+        slot?.sound?.setRateAsync(rate, true, PitchCorrectionQuality.High).catch((err) => {
+          console.warn('Failed to set playback rate:', err);
+        });
+      }
+    },
+
+    // expo-av exposes no signal chain, so EQ and analysis are web-only.
+    setEqualizer() {},
+
+    readVisualizerData() {
+      return false;
+    },
+
+    capabilities: { equalizer: false, visualizer: false },
+
+    async unload() {
+      finishFade();
+      preloadToken++;
+      const slots = [active, preloaded];
+      active = null;
+      preloaded = null;
+      await Promise.all(slots.map(unloadSlot));
+    },
+  };
+}
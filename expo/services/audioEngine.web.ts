@@ -0,0 +1,594 @@
+import { AudioSource } from '@/services/audioSources';
+import { AudioEngine, AudioEngineCallbacks } from '@/services/audioEngineTypes';
+import { EQ_BANDS } from '@/utils/equalizer';
+import { createLoudnessMeter } from '@/utils/loudness';
+
+const PROGRESS_INTERVAL_MS = 250;
+/** How much of a track is sampled when measuring its loudness. */
+const LOUDNESS_WINDOW_MS = 10000;
+const ANALYSER_FFT_SIZE = 256;
+// Time constant for gain changes, short enough to feel instant without clicks.
+const PARAM_SMOOTHING_S = 0.015;
+
+interface Graph {
+  context: AudioContext;
+  master: GainNode;
+  filters: BiquadFilterNode[];
+  analyser: AnalyserNode;
+}
+
+/**
+ * One track's playback. Decoded buffers give sample-accurate crossfades and
+ * loudness measurement; media elements stream instead, which keeps pitch
+ * correction at other speeds and plays from hosts that don't send CORS headers.
+ */
+interface TrackPlayer {
+  /** The decoded track, or null when it streams through a media element. */
+  buffer: AudioBuffer | null;
+  /**
+   * False for an element playing straight to the speakers, outside the graph:
+   * audio from another origin without CORS headers comes out of Web Audio as
+   * silence. Such a track skips the EQ and visualizer and is levelled with the
+   * element's own volume.
+   */
+  routed: boolean;
+  durationSeconds: () => number;
+  positionSeconds: () => number;
+  isRunning: () => boolean;
+  start: (offsetSeconds: number) => void;
+  /** Stops and keeps the position, so `start` can resume from it. */
+  stop: () => void;
+  /** Moves a stopped player to `offsetSeconds` without starting it. */
+  setPosition: (offsetSeconds: number) => void;
+  /** Stops at context time `when`, for the end of a crossfade. */
+  stopAt: (when: number, onStopped: () => void) => void;
+  setRate: (rate: number) => void;
+  setElementVolume: (level: number) => void;
+  release: () => void;
+}
+
+interface Slot {
+  uri: string;
+  player: TrackPlayer;
+  /** Per-track gain and crossfade envelope, feeding the shared master gain. */
+  output: GainNode;
+  gain: number;
+  nearEndFired: boolean;
+}
+
+function createGraph(eqGainsDb: number[], volume: number): Graph {
+  const AudioContextClass = window.AudioContext
+    ?? (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  const context = new AudioContextClass();
+
+  const master = context.createGain();
+  master.gain.value = volume;
+
+  const filters = EQ_BANDS.map((band, i) => {
+    const filter = context.createBiquadFilter();
+    filter.type = band.type;
+    filter.frequency.value = band.frequency;
+    filter.gain.value = eqGainsDb[i] ?? 0;
+    if (band.type === 'peaking') filter.Q.value = 1.1;
+    return filter;
+  });
+
+  const analyser = context.createAnalyser();
+  analyser.fftSize = ANALYSER_FFT_SIZE;
+  analyser.smoothingTimeConstant = 0.8;
+
+  // master -> EQ bands in series -> analyser -> speakers
+  const chain: AudioNode[] = [master, ...filters, analyser, context.destination];
+  for (let i = 1; i < chain.length; i++) chain[i - 1].connect(chain[i]);
+
+  return { context, master, filters, analyser };
+}
+
+function measureLevelDb(buffer: AudioBuffer, startSeconds: number): number | null {
+  const meter = createLoudnessMeter();
+  const start = Math.floor(startSeconds * buffer.sampleRate);
+  const end = Math.min(buffer.length, start + Math.floor((LOUDNESS_WINDOW_MS / 1000) * buffer.sampleRate));
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    meter.addFrames(buffer.getChannelData(channel).subarray(start, end));
+  }
+  return meter.getLevelDb();
+}
+
+function createBufferPlayer(
+  context: AudioContext,
+  buffer: AudioBuffer,
+  output: GainNode,
+  getRate: () => number,
+  onEnded: (player: TrackPlayer) => void,
+): TrackPlayer {
+  let node: AudioBufferSourceNode | null = null;
+  // Context time and buffer offset (seconds) the running node was last anchored at.
+  let anchorTime = 0;
+  let anchorOffset = 0;
+  // Buffer offset in seconds while stopped.
+  let offset = 0;
+
+  function positionSeconds(): number {
+    if (!node) return offset;
+    const elapsed = (context.currentTime - anchorTime) * getRate();
+    return Math.min(buffer.duration, Math.max(0, anchorOffset + elapsed));
+  }
+
+  function detach(): AudioBufferSourceNode | null {
+    const current = node;
+    if (!current) return null;
+    offset = positionSeconds();
+    node = null;
+    current.onended = null;
+    return current;
+  }
+
+  function stop() {
+    const current = detach();
+    if (!current) return;
+    try {
+      current.stop();
+    } catch {
+      // Already stopped.
+    }
+    current.disconnect();
+  }
+
+  const player: TrackPlayer = {
+    buffer,
+    routed: true,
+    durationSeconds: () => buffer.duration,
+    positionSeconds,
+    isRunning: () => !!node,
+    start(offsetSeconds) {
+      const next = context.createBufferSource();
+      next.buffer = buffer;
+      next.playbackRate.value = getRate();
+      next.connect(output);
+      next.onended = () => {
+        if (node !== next) return;
+        node = null;
+        offset = buffer.duration;
+        onEnded(player);
+      };
+      const when = context.currentTime;
+      next.start(when, offsetSeconds);
+      node = next;
+      anchorTime = when;
+      anchorOffset = offsetSeconds;
+    },
+    stop,
+    stopAt(when, onStopped) {
+      const current = detach();
+      if (!current) return;
+      current.onended = onStopped;
+      current.stop(when);
+    },
+    setRate(next) {
+      if (!node) return;
+      const t = context.currentTime;
+      // Re-anchor at the current position so elapsed time is measured at the new speed.
+      anchorOffset = positionSeconds();
+      anchorTime = t;
+      node.playbackRate.setValueAtTime(next, t);
+    },
+    setPosition(offsetSeconds) {
+      offset = offsetSeconds;
+    },
+    setElementVolume() {},
+    release: stop,
+  };
+  return player;
+}
+
+/**
+ * Streams `uri` through an audio element, routed into `output` when `routed`.
+ * Resolves once the element knows the track's length.
+ */
+function createElementPlayer(
+  context: AudioContext,
+  uri: string,
+  output: GainNode,
+  routed: boolean,
+  rate: number,
+  onEnded: (player: TrackPlayer) => void,
+): Promise<TrackPlayer> {
+  const element = new Audio();
+  element.preload = 'auto';
+  // Routing another origin's audio into the graph needs a CORS-enabled request.
+  if (routed) element.crossOrigin = 'anonymous';
+  element.preservesPitch = true;
+  element.playbackRate = rate;
+  let stopTimer: ReturnType<typeof setTimeout> | null = null;
+
+  return new Promise((resolve, reject) => {
+    element.onloadedmetadata = () => {
+      element.onloadedmetadata = null;
+      element.onerror = null;
+      const sourceNode = routed ? context.createMediaElementSource(element) : null;
+      sourceNode?.connect(output);
+
+      const player: TrackPlayer = {
+        buffer: null,
+        routed,
+        durationSeconds: () => (Number.isFinite(element.duration) ? element.duration : 0),
+        positionSeconds: () => element.currentTime,
+        isRunning: () => !element.paused && !element.ended,
+        start(offsetSeconds) {
+          element.currentTime = offsetSeconds;
+          element.play().catch((err) => console.warn('Audio element play failed:', err));
+        },
+        stop() {
+          element.pause();
+        },
+        setPosition(offsetSeconds) {
+          element.currentTime = offsetSeconds;
+        },
+        stopAt(when, onStopped) {
+          element.onended = null;
+          stopTimer = setTimeout(() => {
+            element.pause();
+            onStopped();
+          }, Math.max(0, when - context.currentTime) * 1000);
+        },
+        setRate(next) {
+          element.playbackRate = next;
+        },
+        setElementVolume(level) {
+          element.volume = Math.min(1, Math.max(0, level));
+        },
+        release() {
+          if (stopTimer) clearTimeout(stopTimer);
+          element.onended = null;
+          element.pause();
+          element.removeAttribute('src');
+          element.load();
+          sourceNode?.disconnect();
+        },
+      };
+      element.onended = () => onEnded(player);
+      resolve(player);
+    };
+    element.onerror = () => {
+      element.onloadedmetadata = null;
+      element.onerror = null;
+      reject(new Error(`Audio element failed to load (${element.error?.code ?? 'unknown'})`));
+    };
+    element.src = uri;
+  });
+}
+
+/**
+ * Creates a Web Audio engine for the web build. Tracks are decoded into
+ * buffers and routed through a master gain, a five-band EQ and an analyser
+ * for the visualizer. Crossfades are scheduled on the audio clock, so both
+ * ramps and the hand-off land on exact sample frames.
+ *
+ * Decoding needs the whole file fetched, so it only works for hosts that send
+ * CORS headers, and buffer sources can't correct pitch. Tracks from other
+ * hosts, and any track played at a rate other than 1, stream through an audio
+ * element instead; see `TrackPlayer`.
+ */
+export function createAudioEngine(callbacks: AudioEngineCallbacks): AudioEngine {
+  let graph: Graph | null = null;
+  let active: Slot | null = null;
+  let fadingOut: Slot | null = null;
+  let preloaded: { uri: string; buffer: Promise<AudioBuffer> } | null = null;
+  let crossfadeMs = 0;
+  let volume = 1;
+  let rate = 1;
+  let eqGainsDb = EQ_BANDS.map(() => 0);
+  let progressTimer: ReturnType<typeof setInterval> | null = null;
+
+  function getGraph(): Graph {
+    if (!graph) graph = createGraph(eqGainsDb, volume);
+    return graph;
+  }
+
+  function now(): number {
+    return getGraph().context.currentTime;
+  }
+
+  function emitStatus() {
+    const slot = active;
+    if (!slot) return;
+    const durationMs = slot.player.durationSeconds() * 1000;
+    const positionMs = slot.player.positionSeconds() * 1000;
+    const isRunning = slot.player.isRunning();
+    callbacks.onStatus({ positionMs, durationMs, isPlaying: isRunning });
+
+    const remaining = (durationMs - positionMs) / rate;
+    if (
+      crossfadeMs > 0 &&
+      !slot.nearEndFired &&
+      isRunning &&
+      durationMs > crossfadeMs * 2 &&
+      remaining <= crossfadeMs
+    ) {
+      slot.nearEndFired = true;
+      callbacks.onNearEnd();
+    }
+  }
+
+  function ensureProgressTimer() {
+    if (!progressTimer) progressTimer = setInterval(emitStatus, PROGRESS_INTERVAL_MS);
+  }
+
+  function handleEnded(player: TrackPlayer) {
+    if (active?.player !== player) return;
+    emitStatus();
+    callbacks.onFinish();
+  }
+
+  function releaseSlot(slot: Slot | null) {
+    if (!slot) return;
+    slot.player.release();
+    slot.output.disconnect();
+  }
+
+  function setSlotGain(slot: Slot, value: number) {
+    if (!slot.player.routed) {
+      slot.player.setElementVolume(value * volume);
+      return;
+    }
+    const param = slot.output.gain;
+    param.cancelScheduledValues(now());
+    param.setTargetAtTime(value, now(), PARAM_SMOOTHING_S);
+  }
+
+  /** Ends a crossfade early: the old track stops and the new one jumps to full level. */
+  function finishFade() {
+    if (!fadingOut) return;
+    releaseSlot(fadingOut);
+    fadingOut = null;
+    if (active) setSlotGain(active, active.gain);
+  }
+
+  async function decode(source: AudioSource): Promise<AudioBuffer> {
+    if (preloaded?.uri === source.uri) return preloaded.buffer;
+    const response = await fetch(source.uri);
+    if (!response.ok) throw new Error(`Audio fetch failed (${response.status})`);
+    const data = await response.arrayBuffer();
+    return getGraph().context.decodeAudioData(data);
+  }
+
+  /** Streams through an element, in the graph when the host allows it and straight out when not. */
+  async function openElement(uri: string, output: GainNode, tryRouted: boolean): Promise<TrackPlayer> {
+    const { context } = getGraph();
+    const open = (routed: boolean) => createElementPlayer(context, uri, output, routed, rate, handleEnded);
+    if (!tryRouted) return open(false);
+    try {
+      return await open(true);
+    } catch (err) {
+      console.warn('Audio host refused a CORS request, playing outside the audio graph:', err);
+      return open(false);
+    }
+  }
+
+  async function openPlayer(source: AudioSource, output: GainNode): Promise<TrackPlayer> {
+    if (source.kind === 'hls') {
+      throw new Error('HLS streams are not supported by the web audio engine');
+    }
+    // Only elements keep pitch at other speeds.
+    if (rate !== 1) return openElement(source.uri, output, true);
+    let buffer: AudioBuffer;
+    try {
+      buffer = await decode(source);
+    } catch (err) {
+      // fetch rejects with a TypeError when the host sends no CORS headers (or
+      // the network fails), in which case the graph can't take the audio either.
+      const blocked = err instanceof TypeError;
+      console.warn('Audio decode failed, streaming through an audio element instead:', err);
+      return openElement(source.uri, output, !blocked);
+    }
+    return createBufferPlayer(getGraph().context, buffer, output, () => rate, handleEnded);
+  }
+
+  /** Moves a decoded track onto an element at the same position so the new speed keeps its pitch. */
+  async function switchToElement(slot: Slot) {
+    const previous = slot.player;
+    let player: TrackPlayer;
+    try {
+      player = await openElement(slot.uri, slot.output, true);
+    } catch (err) {
+      console.warn('Failed to switch to pitch-corrected playback:', err);
+      return;
+    }
+    if (slot !== active || slot.player !== previous) {
+      player.release();
+      return;
+    }
+    const offset = previous.positionSeconds();
+    const wasRunning = previous.isRunning();
+    previous.release();
+    slot.player = player;
+    setSlotGain(slot, slot.gain);
+    if (wasRunning) {
+      player.start(offset);
+    } else {
+      player.setPosition(offset);
+    }
+  }
+
+  return {
+    async load(source, { startPositionMs = 0, gain = 1, isCancelled = () => false, onLoudnessMeasured } = {}) {
+      const { context, master } = getGraph();
+      // Browsers keep a new context suspended until a user gesture resumes it.
+      // Not awaited: without a gesture the promise stays pending indefinitely.
+      if (context.state === 'suspended') void context.resume();
+
+      const output = context.createGain();
+      let player: TrackPlayer;
+      try {
+        player = await openPlayer(source, output);
+      } catch (err) {
+        output.disconnect();
+        throw err;
+      }
+      if (isCancelled()) {
+        player.release();
+        return false;
+      }
+      if (preloaded?.uri === source.uri) preloaded = null;
+
+      finishFade();
+      const previous = active;
+      const durationSeconds = player.durationSeconds();
+      const startSeconds = durationSeconds > 0 ? Math.min(durationSeconds, startPositionMs / 1000) : startPositionMs / 1000;
+      output.connect(master);
+      const next: Slot = {
+        uri: source.uri,
+        player,
+        output,
+        gain,
+        nearEndFired: false,
+      };
+
+      const t0 = context.currentTime;
+      // Elements outside the graph can't follow gain ramps, so they cut over instead.
+      const canCrossfade = player.routed && previous?.player.routed;
+      if (crossfadeMs > 0 && canCrossfade && previous?.player.isRunning()) {
+        const t1 = t0 + crossfadeMs / 1000;
+        const outgoing = previous.output.gain;
+        outgoing.cancelScheduledValues(t0);
+        outgoing.setValueAtTime(outgoing.value, t0);
+        outgoing.linearRampToValueAtTime(0, t1);
+        output.gain.setValueAtTime(0, t0);
+        output.gain.linearRampToValueAtTime(gain, t1);
+
+        previous.player.stopAt(t1, () => {
+          if (fadingOut === previous) fadingOut = null;
+          releaseSlot(previous);
+        });
+        fadingOut = previous;
+      } else {
+        output.gain.setValueAtTime(gain, t0);
+        releaseSlot(previous);
+      }
+
+      active = next;
+      if (!player.routed) setSlotGain(next, gain);
+      player.start(startSeconds);
+      ensureProgressTimer();
+
+      if (onLoudnessMeasured && player.buffer) {
+        const levelDb = measureLevelDb(player.buffer, startSeconds);
+        if (levelDb !== null) onLoudnessMeasured(levelDb);
+      }
+      return true;
+    },
+
+    async preload(source) {
+      if (preloaded?.uri === source?.uri) return;
+      // Elements stream as they play, so only decoded tracks are worth fetching ahead.
+      if (!source || source.kind === 'hls' || rate !== 1) {
+        preloaded = null;
+        return;
+      }
+      const entry = { uri: source.uri, buffer: decode(source) };
+      preloaded = entry;
+      try {
+        await entry.buffer;
+      } catch (err) {
+        console.warn('Preload failed:', err);
+        if (preloaded === entry) preloaded = null;
+      }
+    },
+
+    async play() {
+      if (!active || active.player.isRunning()) return;
+      const { context } = getGraph();
+      if (context.state === 'suspended') void context.resume();
+      const { player } = active;
+      const position = player.positionSeconds();
+      const atEnd = player.durationSeconds() > 0 && position >= player.durationSeconds();
+      player.start(atEnd ? 0 : position);
+    },
+
+    async pause() {
+      finishFade();
+      active?.player.stop();
+      emitStatus();
+    },
+
+    async seek(positionMs) {
+      if (!active) return;
+      finishFade();
+      active.nearEndFired = false;
+      const { player } = active;
+      const requested = Math.max(0, positionMs / 1000);
+      const offset = player.durationSeconds() > 0 ? Math.min(player.durationSeconds(), requested) : requested;
+      if (player.isRunning()) {
+        player.stop();
+        player.start(offset);
+      } else {
+        player.setPosition(offset);
+      }
+      emitStatus();
+    },
+
+    async replay() {
+      if (!active) return;
+      finishFade();
+      active.nearEndFired = false;
+      active.player.stop();
+      active.player.start(0);
+      emitStatus();
+    },
+
+    isLoaded() {
+      return !!active;
+    },
+
+    async isPlaying() {
+      return !!active?.player.isRunning();
+    },
+
+    setCrossfadeDuration(ms) {
+      crossfadeMs = Math.max(0, ms);
+    },
+
+    setVolume(level) {
+      volume = Math.min(1, Math.max(0, level));
+      if (graph) graph.master.gain.setTargetAtTime(volume, graph.context.currentTime, PARAM_SMOOTHING_S);
+      for (const slot of [active, fadingOut]) {
+        if (slot && !slot.player.routed) slot.player.setElementVolume(slot.gain * volume);
+      }
+    },
+
+    setRate(next) {
+      if (next === rate) return;
+      for (const slot of [active, fadingOut]) slot?.player.setRate(next);
+      rate = next;
+      if (next !== 1 && active?.player.buffer) void switchToElement(active);
+    },
+
+    setEqualizer(gainsDb) {
+      eqGainsDb = EQ_BANDS.map((_, i) => gainsDb[i] ?? 0);
+      if (!graph) return;
+      const t = graph.context.currentTime;
+      graph.filters.forEach((filter, i) => filter.gain.setTargetAtTime(eqGainsDb[i], t, PARAM_SMOOTHING_S));
+    },
+
+    readVisualizerData(spectrum, waveform) {
+      if (!graph) return false;
+      graph.analyser.getByteFrequencyData(spectrum as Uint8Array<ArrayBuffer>);
+      graph.analyser.getByteTimeDomainData(waveform as Uint8Array<ArrayBuffer>);
+      return true;
+    },
+
+    capabilities: { equalizer: true, visualizer: true },
+
+    async unload() {
+      if (progressTimer) {
+        clearInterval(progressTimer);
+        progressTimer = null;
+      }
+      releaseSlot(fadingOut);
+      releaseSlot(active);
+      fadingOut = null;
+      active = null;
+      preloaded = null;
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { AudioSource } from '@/services/audioSources';
+
+export interface EngineCapabilities {
+  equalizer: boolean;
+  visualizer: boolean;
+}
+
+export interface EngineStatus {
+  positionMs: number;
+  durationMs: number;
+  isPlaying: boolean;
+}
+
+export interface AudioEngineCallbacks {
+  onStatus: (status: EngineStatus) => void;
+  /** Fired once per track when the remaining time drops below the crossfade window. */
+  onNearEnd: () => void;
+  onFinish: () => void;
+}
+
+export interface LoadOptions {
+  startPositionMs?: number;
+  /** Per-track volume multiplier, e.g. from loudness normalization. */
+  gain?: number;
+  isCancelled?: () => boolean;
+  /** When set, the first seconds of the track are sampled and their RMS level reported in dBFS. */
+  onLoudnessMeasured?: (levelDb: number) => void;
+}
+
+export interface AudioEngine {
+  /** Resolves to false when `isCancelled` reported true and the new sound was discarded. */
+  load: (source: AudioSource, options?: LoadOptions) => Promise<boolean>;
+  preload: (source: AudioSource | null) => Promise<void>;
+  play: () => Promise<void>;
+  pause: () => Promise<void>;
+  seek: (positionMs: number) => Promise<void>;
+  replay: () => Promise<void>;
+  isLoaded: () => boolean;
+  isPlaying: () => Promise<boolean>;
+  setCrossfadeDuration: (ms: number) => void;
+  /** Scales the output level (0–1) without interrupting a crossfade in progress. */
+  setVolume: (level: number) => void;
+  /** Playback speed; pitch is corrected where the platform supports it. */
+  setRate: (rate: number) => void;
+  /** Per-band gains in dB for `EQ_BANDS`; ignored when `capabilities.equalizer` is false. */
+  setEqualizer: (gainsDb: number[]) => void;
+  /**
+   * Fills `spectrum` with frequency magnitudes and `waveform` with time-domain
+   * samples, both 0–255. Returns false when there is no analyser.
+   */
+  readVisualizerData: (spectrum: Uint8Array, waveform: Uint8Array) => boolean;
+  capabilities: EngineCapabilities;
+  unload: () => Promise<void>;
+}
@@ -0,0 +1,111 @@
+import { getTrackByIsrc, searchTracks as searchDeezerTracks } from '@/services/deezer';
+import { searchSongs as searchITunesSongs } from '@/services/itunes';
+
+export type AudioSourceKind = 'spotify-preview' | 'http' | 'file' | 'hls';
+
+export interface AudioSource {
+  kind: AudioSourceKind;
+  uri: string;
+}
+
+/** The track fields resolvers can match on. */
+export interface ResolvableTrack {
+  id: string;
+  name: string;
+  artistName: string;
+  isrc?: string;
+  source: AudioSource | null;
+}
+
+export interface SourceResolver {
+  name: string;
+  resolve: (track: ResolvableTrack) => Promise<AudioSource | null>;
+}
+
+function normalize(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\s*[([].*?[)\]]\s*/g, ' ')
+    .replace(/\s+-\s+.*$/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function primaryArtist(track: ResolvableTrack): string {
+  return track.artistName.split(', ')[0] ?? track.artistName;
+}
+
+export const deezerPreviewResolver: SourceResolver = {
+  name: 'deezer',
+  async resolve(track) {
+    if (track.isrc) {
+      const byIsrc = await getTrackByIsrc(track.isrc);
+      if (byIsrc?.preview) return { kind: 'http', uri: byIsrc.preview };
+    }
+    const results = await searchDeezerTracks(primaryArtist(track), track.name);
+    const title = normalize(track.name);
+    const match = results.find((r) => r.preview && normalize(r.title) === title);
+    return match ? { kind: 'http', uri: match.preview } : null;
+  },
+};
+
+export const itunesPreviewResolver: SourceResolver = {
+  name: 'itunes',
+  async resolve(track) {
+    const results = await searchITunesSongs(`${primaryArtist(track)} ${track.name}`);
+    const title = normalize(track.name);
+    const artist = normalize(primaryArtist(track));
+    const match = results.find(
+      (r) => r.previewUrl && normalize(r.trackName) === title && normalize(r.artistName).includes(artist)
+    );
+    return match?.previewUrl ? { kind: 'http', uri: match.previewUrl } : null;
+  },
+};
+
+export const DEFAULT_RESOLVERS: SourceResolver[] = [
+  deezerPreviewResolver,
+  itunesPreviewResolver,
+];
+
+/**
+ * Builds a resolver that returns the track's own source when it has one and
+ * otherwise tries each fallback resolver in order. Results are cached per
+ * track id, and concurrent lookups for the same track share one request. A
+ * miss is only cached when every resolver answered without throwing, so a
+ * network blip doesn't mark a track unplayable for the whole session.
+ */
+export function createResolverChain(resolvers: SourceResolver[]) {
+  const cache = new Map<string, AudioSource | null>();
+  const inFlight = new Map<string, Promise<AudioSource | null>>();
+
+  async function runChain(track: ResolvableTrack): Promise<AudioSource | null> {
+    let hadFailure = false;
+    for (const resolver of resolvers) {
+      try {
+        const source = await resolver.resolve(track);
+        if (source) {
+          cache.set(track.id, source);
+          return source;
+        }
+      } catch (err) {
+        hadFailure = true;
+        console.warn(`Source resolver ${resolver.name} failed for "${track.name}":`, err);
+      }
+    }
+    if (!hadFailure) cache.set(track.id, null);
+    return null;
+  }
+
+  return function resolve(track: ResolvableTrack): Promise<AudioSource | null> {
+    if (track.source) return Promise.resolve(track.source);
+    if (cache.has(track.id)) return Promise.resolve(cache.get(track.id) ?? null);
+    const existing = inFlight.get(track.id);
+    if (existing) return existing;
+
+    const request = runChain(track).finally(() => inFlight.delete(track.id));
+    inFlight.set(track.id, request);
+    return request;
+  };
+}
+
+export const resolveAudioSource = createResolverChain(DEFAULT_RESOLVERS);
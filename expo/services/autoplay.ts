@@ -0,0 +1,146 @@
+import { SpotifyTrack, SpotifyArtist, search, getArtistTopTracks } from '@/services/spotify';
+import { getTopTracks as getChartTracks } from '@/services/lastfm';
+import { resolveAudioSource } from '@/services/audioSources';
+import { shuffleWithPinned } from '@/utils/queue';
+
+const MAX_SEED_ARTISTS = 3;
+const MAX_SEED_GENRES = 2;
+const MAX_CHART_TRACKS = 5;
+/** Keeps one seed artist from taking over the whole continuation. */
+const MAX_TRACKS_PER_ARTIST = 2;
+const PLAYABILITY_BATCH = 4;
+
+/** The track fields autoplay seeds from, taken from recent plays. */
+export interface AutoplaySeed {
+  name: string;
+  artistName: string;
+}
+
+export interface AutoplayOptions {
+  /** Track ids already played or queued. */
+  excludeIds: Set<string>;
+  /** `getAutoplayTrackKey` values already played or queued, to catch the same song under another id. */
+  excludeKeys: Set<string>;
+  limit: number;
+}
+
+function primaryArtist(artistName: string): string {
+  return artistName.split(', ')[0] ?? artistName;
+}
+
+export function getAutoplayTrackKey(name: string, artistName: string): string {
+  return `${name.toLowerCase().trim()}|${primaryArtist(artistName).toLowerCase().trim()}`;
+}
+
+async function settledValues<T>(promises: Promise<T>[], label: string): Promise<T[]> {
+  const results = await Promise.allSettled(promises);
+  const values: T[] = [];
+  results.forEach((result) => {
+    if (result.status === 'fulfilled') {
+      values.push(result.value);
+    } else {
+      console.warn(`Autoplay ${label} lookup failed:`, result.reason);
+    }
+  });
+  return values;
+}
+
+async function findArtist(name: string): Promise<SpotifyArtist | null> {
+  const { artists } = await search(name, ['artist'], 1);
+  return artists[0] ?? null;
+}
+
+function topGenres(artists: SpotifyArtist[]): string[] {
+  const counts = new Map<string, number>();
+  artists.forEach((artist) => artist.genres.forEach((g) => counts.set(g, (counts.get(g) ?? 0) + 1)));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_SEED_GENRES)
+    .map(([genre]) => genre);
+}
+
+/** Last.fm's global chart, matched back to Spotify tracks by title and artist. */
+async function getChartCandidates(excludeKeys: Set<string>): Promise<SpotifyTrack[]> {
+  const chart = await getChartTracks(MAX_CHART_TRACKS * 2);
+  const picks = chart
+    .filter((t) => !excludeKeys.has(getAutoplayTrackKey(t.name, t.artist.name)))
+    .slice(0, MAX_CHART_TRACKS);
+  const matches = await settledValues(
+    picks.map((t) => search(`track:"${t.name}" artist:"${t.artist.name}"`, ['track'], 1)),
+    'chart match',
+  );
+  return matches.flatMap((m) => m.tracks.slice(0, 1));
+}
+
+/** Takes one from each list in turn, so no single source fills the front of the queue. */
+function interleave<T>(lists: T[][]): T[] {
+  const result: T[] = [];
+  const longest = Math.max(0, ...lists.map((l) => l.length));
+  for (let i = 0; i < longest; i++) {
+    lists.forEach((list) => {
+      if (i < list.length) result.push(list[i]);
+    });
+  }
+  return result;
+}
+
+async function isPlayable(track: SpotifyTrack): Promise<boolean> {
+  if (track.preview_url) return true;
+  const source = await resolveAudioSource({
+    id: track.id,
+    name: track.name,
+    artistName: track.artists.map((a) => a.name).join(', '),
+    isrc: track.external_ids?.isrc,
+    source: null,
+  }).catch(() => null);
+  return source !== null;
+}
+
+/**
+ * Picks tracks to keep playing after the queue runs out. Candidates come from
+ * the seed artists' top tracks, Spotify genre searches for their most common
+ * genres and the Last.fm chart; each source that fails is skipped. Results
+ * leave out anything in `excludeIds`/`excludeKeys` and anything without
+ * playable audio.
+ */
+export async function buildAutoplayTracks(seeds: AutoplaySeed[], options: AutoplayOptions): Promise<SpotifyTrack[]> {
+  const artistNames = [...new Set(seeds.map((s) => primaryArtist(s.artistName)))].slice(0, MAX_SEED_ARTISTS);
+  const artists = (await settledValues(artistNames.map(findArtist), 'artist'))
+    .filter((a): a is SpotifyArtist => a !== null);
+  const genres = topGenres(artists);
+
+  const [artistLists, genreLists, chart] = await Promise.all([
+    settledValues(artists.map((a) => getArtistTopTracks(a.id)), 'top tracks'),
+    settledValues(genres.map((g) => search(`genre:"${g}"`, ['track'], 10).then((r) => r.tracks)), 'genre'),
+    getChartCandidates(options.excludeKeys).catch((err) => {
+      console.warn('Autoplay chart lookup failed:', err);
+      return [] as SpotifyTrack[];
+    }),
+  ]);
+
+  const seen = new Set(options.excludeIds);
+  const seenKeys = new Set(options.excludeKeys);
+  const perArtist = new Map<string, number>();
+  const candidates = interleave([...artistLists, ...genreLists, chart].map((list) => shuffleWithPinned(list, -1)))
+    .filter((track) => {
+      const artistName = track.artists.map((a) => a.name).join(', ');
+      const key = getAutoplayTrackKey(track.name, artistName);
+      const artistKey = primaryArtist(artistName).toLowerCase();
+      const artistCount = perArtist.get(artistKey) ?? 0;
+      if (seen.has(track.id) || seenKeys.has(key) || artistCount >= MAX_TRACKS_PER_ARTIST) return false;
+      seen.add(track.id);
+      seenKeys.add(key);
+      perArtist.set(artistKey, artistCount + 1);
+      return true;
+    });
+
+  const playable: SpotifyTrack[] = [];
+  for (let i = 0; i < candidates.length && playable.length < options.limit; i += PLAYABILITY_BATCH) {
+    const batch = candidates.slice(i, i + PLAYABILITY_BATCH);
+    const checks = await Promise.all(batch.map(isPlayable));
+    batch.forEach((track, j) => {
+      if (checks[j]) playable.push(track);
+    });
+  }
+  return playable.slice(0, options.limit);
+}
@@ -0,0 +1,40 @@
+const BASE_URL = 'https://api.deezer.com';
+
+export interface DeezerTrack {
+  id: number;
+  title: string;
+  duration: number;
+  preview: string;
+  artist: { id: number; name: string };
+  album: { id: number; title: string; cover_xl?: string };
+}
+
+async function deezerFetch<T>(path: string): Promise<T> {
+  const response = await fetch(`${BASE_URL}${path}`);
+
+  if (!response.ok) {
+    console.error(`Deezer API error [${path}]:`, response.status);
+    throw new Error(`Deezer API error: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Looks up a track by ISRC. Deezer answers unknown codes with an error body
+ * rather than a 404, so that case is returned as null.
+ */
+export async function getTrackByIsrc(isrc: string): Promise<DeezerTrack | null> {
+  const data = await deezerFetch<DeezerTrack & { error?: unknown }>(
+    `/track/isrc:${encodeURIComponent(isrc)}`
+  );
+  return data.error ? null : data;
+}
+
+export async function searchTracks(artist: string, title: string, limit = 5): Promise<DeezerTrack[]> {
+  const q = `artist:"${artist}" track:"${title}"`;
+  const data = await deezerFetch<{ data?: DeezerTrack[] }>(
+    `/search?q=${encodeURIComponent(q)}&limit=${limit}`
+  );
+  return data.data ?? [];
+}
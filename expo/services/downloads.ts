@@ -0,0 +1,205 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { File, Directory, Paths } from 'expo-file-system';
+import { createDownloadResumable } from 'expo-file-system/legacy';
+import { AudioSource, ResolvableTrack } from '@/services/audioSources';
+
+const DOWNLOADS_KEY = 'fmeo_downloads';
+/** Leave this much free on the device whatever the user's limit says. */
+export const MIN_FREE_DISK_BYTES = 200 * 1024 * 1024;
+export const STORAGE_LIMIT_OPTIONS_BYTES = [100, 250, 500, 1000].map((mb) => mb * 1024 * 1024);
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'done' | 'failed';
+export type DownloadCollectionKind = 'track' | 'album' | 'playlist' | 'liked';
+
+/** The track fields needed to fetch and later play a download. */
+export interface DownloadTrack extends ResolvableTrack {
+  albumName: string;
+  albumArt: string;
+  durationMs: number;
+}
+
+export interface DownloadItem {
+  track: DownloadTrack;
+  status: DownloadStatus;
+  /** Stored relative to the downloads directory, whose absolute path can change between app updates on iOS. */
+  audioFileName: string | null;
+  artFileName: string | null;
+  bytesWritten: number;
+  /** -1 until the server reports a size. */
+  bytesTotal: number;
+  attempts: number;
+  error: string | null;
+  /** Native resume token for a paused transfer, so it continues where it stopped. */
+  resumeData: string | null;
+  addedAt: number;
+}
+
+export interface DownloadCollection {
+  id: string;
+  kind: DownloadCollectionKind;
+  name: string;
+  trackIds: string[];
+  addedAt: number;
+}
+
+export interface DownloadState {
+  items: Record<string, DownloadItem>;
+  collections: Record<string, DownloadCollection>;
+  /** Null for no limit beyond `MIN_FREE_DISK_BYTES`. */
+  storageLimitBytes: number | null;
+}
+
+export const EMPTY_DOWNLOAD_STATE: DownloadState = {
+  items: {},
+  collections: {},
+  storageLimitBytes: STORAGE_LIMIT_OPTIONS_BYTES[1],
+};
+
+export function getDownloadCollectionKey(kind: DownloadCollectionKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+function audioDirectory(): Directory {
+  return new Directory(Paths.document, 'downloads', 'audio');
+}
+
+function artDirectory(): Directory {
+  return new Directory(Paths.document, 'downloads', 'art');
+}
+
+function ensureDirectories() {
+  for (const dir of [audioDirectory(), artDirectory()]) {
+    if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+  }
+}
+
+// Finished downloads by track id, kept in memory so the player can check synchronously.
+const offlineIndex = new Map<string, { audioFileName: string; artFileName: string | null }>();
+
+/** Rebuilds the in-memory index of finished downloads from `items`. */
+export function setOfflineIndex(items: Record<string, DownloadItem>) {
+  offlineIndex.clear();
+  Object.values(items).forEach((item) => {
+    if (item.status === 'done' && item.audioFileName) {
+      offlineIndex.set(item.track.id, { audioFileName: item.audioFileName, artFileName: item.artFileName });
+    }
+  });
+}
+
+export function getOfflineSource(trackId: string): AudioSource | null {
+  const entry = offlineIndex.get(trackId);
+  return entry ? { kind: 'file', uri: new File(audioDirectory(), entry.audioFileName).uri } : null;
+}
+
+export function getOfflineArtUri(trackId: string): string | null {
+  const entry = offlineIndex.get(trackId);
+  return entry?.artFileName ? new File(artDirectory(), entry.artFileName).uri : null;
+}
+
+export async function loadDownloadState(): Promise<DownloadState> {
+  const stored = await AsyncStorage.getItem(DOWNLOADS_KEY);
+  if (!stored) return EMPTY_DOWNLOAD_STATE;
+  const state = { ...EMPTY_DOWNLOAD_STATE, ...(JSON.parse(stored) as Partial<DownloadState>) };
+  // Transfers don't survive an app restart; they pick up again from the queue.
+  Object.values(state.items).forEach((item) => {
+    if (item.status === 'downloading') item.status = 'queued';
+  });
+  return state;
+}
+
+export async function saveDownloadState(state: DownloadState): Promise<void> {
+  await AsyncStorage.setItem(DOWNLOADS_KEY, JSON.stringify(state));
+}
+
+function extensionForUri(uri: string, fallback: string): string {
+  const match = uri.split('?')[0].match(/\.([a-z0-9]{2,4})$/i);
+  return match ? match[1].toLowerCase() : fallback;
+}
+
+export function getAudioFileName(trackId: string, sourceUri: string): string {
+  return `${trackId}.${extensionForUri(sourceUri, 'mp3')}`;
+}
+
+export interface DownloadTask {
+  /** Resolves to the bytes written, or null if the transfer was paused or cancelled first. */
+  run: () => Promise<number | null>;
+  /** Resolves to the token that resumes the transfer later. */
+  pause: () => Promise<string | null>;
+  cancel: () => Promise<void>;
+}
+
+/**
+ * Starts (or resumes, given `resumeData`) downloading `url` into the audio
+ * directory as `fileName`, reporting progress as bytes arrive.
+ */
+export function createDownloadTask(
+  url: string,
+  fileName: string,
+  resumeData: string | null,
+  onProgress: (bytesWritten: number, bytesTotal: number) => void,
+): DownloadTask {
+  ensureDirectories();
+  const target = new File(audioDirectory(), fileName);
+  const resumable = createDownloadResumable(
+    url,
+    target.uri,
+    {},
+    (progress) => onProgress(progress.totalBytesWritten, progress.totalBytesExpectedToWrite),
+    resumeData ?? undefined,
+  );
+
+  return {
+    async run() {
+      const result = resumeData ? await resumable.resumeAsync() : await resumable.downloadAsync();
+      if (!result) return null;
+      if (result.status >= 400) {
+        if (target.exists) target.delete();
+        throw new Error(`Download failed with HTTP ${result.status}`);
+      }
+      return new File(audioDirectory(), fileName).size ?? 0;
+    },
+    async pause() {
+      const state = await resumable.pauseAsync();
+      return state.resumeData ?? null;
+    },
+    async cancel() {
+      await resumable.cancelAsync();
+      if (target.exists) target.delete();
+    },
+  };
+}
+
+/** Saves the album art next to the audio. Art is optional, so failures come back as null. */
+export async function downloadArt(trackId: string, url: string): Promise<string | null> {
+  if (!url) return null;
+  ensureDirectories();
+  const fileName = `${trackId}.${extensionForUri(url, 'jpg')}`;
+  try {
+    await File.downloadFileAsync(url, new File(artDirectory(), fileName), { idempotent: true });
+    return fileName;
+  } catch (err) {
+    console.warn('Failed to download art for', trackId, err);
+    return null;
+  }
+}
+
+export function deleteDownloadFiles(item: DownloadItem) {
+  const files: File[] = [];
+  if (item.audioFileName) files.push(new File(audioDirectory(), item.audioFileName));
+  if (item.artFileName) files.push(new File(artDirectory(), item.artFileName));
+  files.forEach((file) => {
+    try {
+      if (file.exists) file.delete();
+    } catch (err) {
+      console.warn('Failed to delete download:', err);
+    }
+  });
+}
+
+export function getUsedBytes(items: Record<string, DownloadItem>): number {
+  return Object.values(items).reduce((total, item) => total + item.bytesWritten, 0);
+}
+
+export function getFreeDiskBytes(): number {
+  return Paths.availableDiskSpace;
+}
@@ -0,0 +1,30 @@
+const BASE_URL = 'https://itunes.apple.com';
+
+export interface ITunesTrack {
+  trackId: number;
+  trackName: string;
+  artistName: string;
+  collectionName: string;
+  previewUrl?: string;
+  artworkUrl100?: string;
+  trackTimeMillis?: number;
+}
+
+export async function searchSongs(term: string, limit = 5): Promise<ITunesTrack[]> {
+  const params = new URLSearchParams({
+    term,
+    media: 'music',
+    entity: 'song',
+    limit: String(limit),
+  });
+
+  const response = await fetch(`${BASE_URL}/search?${params.toString()}`);
+
+  if (!response.ok) {
+    console.error('iTunes search error:', response.status);
+    throw new Error(`iTunes search error: ${response.status}`);
+  }
+
+  const data = await response.json() as { results: ITunesTrack[] };
+  return data.results;
+}
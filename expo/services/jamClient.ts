@@ -0,0 +1,173 @@
+import {
+  JAM_PROTOCOL_VERSION,
+  JamClientMessage,
+  JamRoomState,
+  JamServerMessage,
+} from '@/services/jamProtocol';
+
+const PING_BURST = 5;
+const PING_BURST_SPACING_MS = 200;
+const PING_INTERVAL_MS = 15000;
+/** Offset comes from the fastest recent round trip; slow ones carry more asymmetric delay. */
+const CLOCK_SAMPLE_WINDOW = 8;
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000];
+
+export type JamConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+export interface JamClientCallbacks {
+  onWelcome: (memberId: string, room: JamRoomState) => void;
+  onRoom: (room: JamRoomState) => void;
+  onError: (message: string) => void;
+  onStatus: (status: JamConnectionStatus) => void;
+}
+
+export interface JamClient {
+  send: (message: JamClientMessage) => void;
+  /** Converts local `Date.now()` time to the server clock. */
+  toServerTime: (localTime: number) => number;
+  close: () => void;
+}
+
+type JamEntry = { type: 'create'; name: string } | { type: 'join'; code: string; name: string };
+
+interface ClockSample {
+  rtt: number;
+  offset: number;
+}
+
+/**
+ * Connects to the jam server and creates or joins a room. Keeps a running
+ * clock offset from ping/pong and, if the connection drops, reconnects and
+ * resumes the same member in the same room. Reports 'closed' once the room
+ * is gone.
+ */
+export function createJamClient(url: string, entry: JamEntry, callbacks: JamClientCallbacks): JamClient {
+  let socket: WebSocket | null = null;
+  let closedByUser = false;
+  let attempt = 0;
+  let roomCode: string | null = entry.type === 'join' ? entry.code : null;
+  let resume: { memberId: string; token: string } | null = null;
+  let samples: ClockSample[] = [];
+  let offsetMs = 0;
+  let timers: ReturnType<typeof setTimeout>[] = [];
+  let pingInterval: ReturnType<typeof setInterval> | null = null;
+
+  const rawSend = (message: JamClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const ping = () => rawSend({ type: 'ping', clientTime: Date.now() });
+
+  const end = () => {
+    closedByUser = true;
+    clearTimers();
+    socket?.close();
+    socket = null;
+    callbacks.onStatus('closed');
+  };
+
+  const clearTimers = () => {
+    timers.forEach(clearTimeout);
+    timers = [];
+    if (pingInterval) clearInterval(pingInterval);
+    pingInterval = null;
+  };
+
+  const handlePong = (clientTime: number, serverTime: number) => {
+    const now = Date.now();
+    const rtt = now - clientTime;
+    samples = [...samples, { rtt, offset: serverTime - (clientTime + rtt / 2) }].slice(-CLOCK_SAMPLE_WINDOW);
+    const best = samples.reduce((a, b) => (b.rtt < a.rtt ? b : a));
+    offsetMs = best.offset;
+  };
+
+  const handleMessage = (message: JamServerMessage) => {
+    switch (message.type) {
+      case 'welcome':
+        attempt = 0;
+        roomCode = message.room.code;
+        resume = { memberId: message.memberId, token: message.resumeToken };
+        callbacks.onWelcome(message.memberId, message.room);
+        break;
+      case 'room':
+        callbacks.onRoom(message.room);
+        break;
+      case 'pong':
+        handlePong(message.clientTime, message.serverTime);
+        break;
+      case 'error':
+        callbacks.onError(message.message);
+        // Everyone left while we were away, so there is nothing to reconnect to.
+        if (message.code === 'roomNotFound') end();
+        break;
+    }
+  };
+
+  const connect = () => {
+    callbacks.onStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+    const ws = new WebSocket(url);
+    socket = ws;
+
+    ws.onopen = () => {
+      if (socket !== ws) return;
+      console.log('Jam connection open:', url);
+      callbacks.onStatus('connected');
+      samples = [];
+      for (let i = 0; i < PING_BURST; i++) timers.push(setTimeout(ping, i * PING_BURST_SPACING_MS));
+      pingInterval = setInterval(ping, PING_INTERVAL_MS);
+      // After a drop we rejoin the room we were in as the same member, host role included.
+      if (roomCode) {
+        rawSend({
+          type: 'join',
+          code: roomCode,
+          name: entry.name,
+          version: JAM_PROTOCOL_VERSION,
+          ...(resume ? { resume } : {}),
+        });
+      } else {
+        rawSend({ type: 'create', name: entry.name, version: JAM_PROTOCOL_VERSION });
+      }
+    };
+
+    ws.onmessage = (event) => {
+      if (socket !== ws) return;
+      try {
+        handleMessage(JSON.parse(String(event.data)) as JamServerMessage);
+      } catch (err) {
+        console.warn('Bad jam message:', err);
+      }
+    };
+
+    ws.onerror = () => {
+      console.warn('Jam connection error');
+    };
+
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      clearTimers();
+      socket = null;
+      if (closedByUser || attempt >= RECONNECT_DELAYS_MS.length) {
+        if (!closedByUser) callbacks.onError('Lost connection to the jam.');
+        callbacks.onStatus('closed');
+        return;
+      }
+      const delay = RECONNECT_DELAYS_MS[attempt];
+      attempt += 1;
+      console.log(`Jam connection closed, retrying in ${delay}ms`);
+      callbacks.onStatus('reconnecting');
+      timers.push(setTimeout(connect, delay));
+    };
+  };
+
+  connect();
+
+  return {
+    send: rawSend,
+    toServerTime: (localTime) => localTime + offsetMs,
+    close: () => {
+      // Without this the server would hold our place open for a reconnect that never comes.
+      rawSend({ type: 'leave' });
+      end();
+    },
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Wire protocol for jam rooms, shared by the app and `server/jamServer.ts`.
+ * Every frame is one JSON message. Times ending in `At` are server clock
+ * milliseconds; clients convert them with the offset measured by ping/pong.
+ */
+
+export const JAM_PROTOCOL_VERSION = 2;
+export const JAM_CODE_LENGTH = 6;
+/** Unambiguous characters only, so codes survive being read aloud. */
+export const JAM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+/** Playback changes are scheduled this far ahead so every listener can start on the same beat. */
+export const JAM_START_LEAD_MS = 1000;
+export const JAM_MAX_QUEUE_LENGTH = 200;
+
+export const JAM_SOURCE_KINDS = ['spotify-preview', 'http', 'hls'] as const;
+
+export interface JamTrack {
+  id: string;
+  name: string;
+  artistName: string;
+  albumName: string;
+  albumArt: string;
+  durationMs: number;
+  isrc?: string;
+  /** Only shareable sources travel; local files are resolved by each listener. */
+  source: { kind: (typeof JAM_SOURCE_KINDS)[number]; uri: string } | null;
+}
+
+export interface JamQueueItem {
+  /** Unique per queue entry, so the same track can be queued twice. */
+  id: string;
+  track: JamTrack;
+  addedBy: string;
+}
+
+export interface JamMember {
+  id: string;
+  name: string;
+}
+
+export interface JamPlayback {
+  /** Index into `queue`; -1 before anything has played and `queue.length` once it has run out. */
+  index: number;
+  isPlaying: boolean;
+  /** Position at `updatedAt`; while playing it advances one-for-one with the server clock. */
+  positionMs: number;
+  updatedAt: number;
+}
+
+export interface JamRoomState {
+  code: string;
+  hostId: string;
+  members: JamMember[];
+  queue: JamQueueItem[];
+  playback: JamPlayback;
+  /** Members who voted to skip the current entry; cleared whenever it changes. */
+  skipVotes: string[];
+}
+
+export type JamClientMessage =
+  | { type: 'create'; name: string; version: number }
+  | {
+      type: 'join';
+      code: string;
+      name: string;
+      version: number;
+      /** From an earlier `welcome`, to take back the same member after a dropped connection. */
+      resume?: { memberId: string; token: string };
+    }
+  | { type: 'leave' }
+  | { type: 'ping'; clientTime: number }
+  | { type: 'addTrack'; track: JamTrack }
+  | { type: 'voteSkip' }
+  // Host only:
+  | { type: 'play'; positionMs?: number }
+  | { type: 'pause'; positionMs: number }
+  | { type: 'seek'; positionMs: number }
+  | { type: 'playIndex'; index: number }
+  | { type: 'removeItem'; itemId: string }
+  | { type: 'trackEnded'; index: number };
+
+export type JamServerMessage =
+  | { type: 'welcome'; memberId: string; resumeToken: string; room: JamRoomState }
+  | { type: 'room'; room: JamRoomState }
+  | { type: 'pong'; clientTime: number; serverTime: number }
+  | { type: 'error'; message: string; code?: JamErrorCode };
+
+/** Errors the client acts on rather than just showing. */
+export type JamErrorCode = 'roomNotFound';
+
+/** Where playback should be at `serverTime`, which may be before a scheduled start. */
+export function getJamPosition(playback: JamPlayback, serverTime: number): number {
+  if (!playback.isPlaying) return playback.positionMs;
+  return playback.positionMs + (serverTime - playback.updatedAt);
+}
+
+/** Skips need a strict majority of the room, so a lone listener can't skip for everyone in a pair. */
+export function getSkipVotesNeeded(memberCount: number): number {
+  return Math.floor(memberCount / 2) + 1;
+}
+
+/** The queue entry playing (or paused) right now, if any. */
+export function getCurrentJamItem(room: JamRoomState): JamQueueItem | null {
+  return room.queue[room.playback.index] ?? null;
+}
+
+export function isJamCode(value: string): boolean {
+  if (value.length !== JAM_CODE_LENGTH) return false;
+  return [...value].every((c) => JAM_CODE_ALPHABET.includes(c));
+}
@@ -1,6 +1,10 @@
 import { LASTFM_API_KEY } from '@/constants/api';
+import { apiFetch, getApiConfig } from '@/services/api';
 
 const BASE_URL = 'https://ws.audioscrobbler.com/2.0/';
+const AUTH_URL = 'https://www.last.fm/api/auth/';
+/** Last.fm accepts at most this many scrobbles per `track.scrobble` request. */
+export const MAX_SCROBBLE_BATCH = 50;
 
 export interface LastFmArtist {
   name: string;
@@ -20,6 +24,81 @@ export interface LastFmTrack {
   url: string;
 }
 
+export interface LastFmSession {
+  name: string;
+  key: string;
+}
+
+export interface LastFmScrobble {
+  artist: string;
+  track: string;
+  album?: string;
+  durationMs?: number;
+  /** When the track started playing, in Unix seconds. */
+  timestamp: number;
+}
+
+/** A Last.fm API error, carrying the numeric error code from the response body. */
+export class LastFmError extends Error {
+  code: number;
+
+  constructor(message: string, code: number) {
+    super(message);
+    this.name = 'LastFmError';
+    this.code = code;
+  }
+}
+
+// Error codes from https://www.last.fm/api/errorcodes
+const ERROR_INVALID_SESSION = 9;
+const ERROR_TOKEN_NOT_AUTHORIZED = 14;
+const RETRYABLE_ERRORS = [8, 11, 16, 29];
+
+/** True for failures worth retrying later, including having no network at all. */
+export function isRetryableLastFmError(err: unknown): boolean {
+  return !(err instanceof LastFmError) || RETRYABLE_ERRORS.includes(err.code);
+}
+
+export function isInvalidSessionError(err: unknown): boolean {
+  return err instanceof LastFmError && err.code === ERROR_INVALID_SESSION;
+}
+
+export function isTokenNotAuthorizedError(err: unknown): boolean {
+  return err instanceof LastFmError && err.code === ERROR_TOKEN_NOT_AUTHORIZED;
+}
+
+/** Whether the server holds the Last.fm secret that auth and scrobbling are signed with. */
+export async function isLastFmAuthConfigured(): Promise<boolean> {
+  try {
+    return (await getApiConfig()).lastfm;
+  } catch (err) {
+    console.warn('Failed to check Last.fm configuration:', err);
+    return false;
+  }
+}
+
+/** Calls a signed Last.fm method through `/api/lastfm`, which holds the shared secret. */
+async function lastfmSignedCall<T>(method: string, params: Record<string, string>): Promise<T> {
+  const response = await apiFetch(`/api/lastfm/${method}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  // Last.fm errors come back as JSON bodies with a numeric code, often alongside
+  // a 4xx status; the route's own errors carry only a message.
+  const data = await response.json().catch(() => null);
+  if (typeof data?.error === 'number') {
+    console.error(`Last.fm API error [${method}]:`, data.error, data.message);
+    throw new LastFmError(data.message ?? 'Last.fm request failed', data.error);
+  }
+  if (!response.ok || !data) {
+    console.error(`Last.fm API error [${method}]:`, response.status, data?.error?.message);
+    throw new Error(data?.error?.message ?? `Last.fm API error: ${response.status}`);
+  }
+  return data as T;
+}
+
 async function lastfmFetch<T>(method: string, params: Record<string, string> = {}): Promise<T> {
   const searchParams = new URLSearchParams({
     method,
@@ -70,3 +149,47 @@ export function getLargestImage(images: Array<{ '#text': string; size: string }>
   }
   return '';
 }
+
+/** Step one of the auth flow: an unauthorized request token, valid for 60 minutes. */
+export async function getAuthToken(): Promise<string> {
+  const data = await lastfmSignedCall<{ token: string }>('auth.getToken', {});
+  return data.token;
+}
+
+/** The page where the user approves `token` for this app. */
+export function getAuthUrl(token: string): string {
+  return `${AUTH_URL}?${new URLSearchParams({ api_key: LASTFM_API_KEY, token }).toString()}`;
+}
+
+/**
+ * Exchanges an approved token for a session key, which does not expire.
+ * Throws a `LastFmError` with code 14 while the user hasn't approved it yet.
+ */
+export async function getSession(token: string): Promise<LastFmSession> {
+  const data = await lastfmSignedCall<{ session: LastFmSession }>('auth.getSession', { token });
+  return { name: data.session.name, key: data.session.key };
+}
+
+function scrobbleParams(scrobble: Omit<LastFmScrobble, 'timestamp'>, suffix = ''): Record<string, string> {
+  const params: Record<string, string> = {
+    [`artist${suffix}`]: scrobble.artist,
+    [`track${suffix}`]: scrobble.track,
+  };
+  if (scrobble.album) params[`album${suffix}`] = scrobble.album;
+  if (scrobble.durationMs) params[`duration${suffix}`] = String(Math.round(scrobble.durationMs / 1000));
+  return params;
+}
+
+export async function updateNowPlaying(sessionKey: string, track: Omit<LastFmScrobble, 'timestamp'>): Promise<void> {
+  await lastfmSignedCall('track.updateNowPlaying', { ...scrobbleParams(track), sk: sessionKey });
+}
+
+/** Submits up to `MAX_SCROBBLE_BATCH` scrobbles and returns how many Last.fm accepted. */
+export async function scrobbleTracks(sessionKey: string, scrobbles: LastFmScrobble[]): Promise<number> {
+  const params: Record<string, string> = { sk: sessionKey };
+  scrobbles.slice(0, MAX_SCROBBLE_BATCH).forEach((scrobble, i) => {
+    Object.assign(params, scrobbleParams(scrobble, `[${i}]`), { [`timestamp[${i}]`]: String(scrobble.timestamp) });
+  });
+  const data = await lastfmSignedCall<{ scrobbles: { '@attr': { accepted: number } } }>('track.scrobble', params);
+  return Number(data.scrobbles['@attr'].accepted);
+}
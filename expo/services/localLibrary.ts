@@ -0,0 +1,178 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { File, Directory, Paths } from 'expo-file-system';
+import { parseAudioTags, AudioPicture, AudioTags } from '@/utils/audioTags';
+import { deleteLyrics } from '@/services/lyrics';
+
+const LIBRARY_KEY = 'fmeo_local_library';
+
+export const SUPPORTED_AUDIO_EXTENSIONS = ['mp3', 'm4a', 'flac', 'wav'];
+
+export interface LocalTrack {
+  id: string;
+  /** Stored relative to the music directory, whose absolute path can change between app updates on iOS. */
+  fileName: string;
+  coverFileName: string | null;
+  name: string;
+  artistName: string;
+  albumName: string;
+  sizeBytes: number;
+  importedAt: number;
+}
+
+function musicDirectory(): Directory {
+  return new Directory(Paths.document, 'music');
+}
+
+function coversDirectory(): Directory {
+  return new Directory(Paths.document, 'music', 'covers');
+}
+
+function ensureDirectories() {
+  for (const dir of [musicDirectory(), coversDirectory()]) {
+    if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+  }
+}
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+}
+
+function stripExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(0, dot) : fileName;
+}
+
+export function getLocalTrackUri(track: LocalTrack): string {
+  return new File(musicDirectory(), track.fileName).uri;
+}
+
+export function getLocalCoverUri(track: LocalTrack): string | null {
+  return track.coverFileName ? new File(coversDirectory(), track.coverFileName).uri : null;
+}
+
+function readTags(file: File) {
+  const handle = file.open();
+  try {
+    return parseAudioTags({
+      size: handle.size ?? file.size,
+      read: (offset, length) => {
+        handle.offset = offset;
+        return handle.readBytes(length);
+      },
+    });
+  } finally {
+    handle.close();
+  }
+}
+
+function saveCover(id: string, picture: AudioPicture): string | null {
+  const coverFileName = `${id}.${picture.mimeType === 'image/png' ? 'png' : 'jpg'}`;
+  try {
+    new File(coversDirectory(), coverFileName).write(picture.data);
+    return coverFileName;
+  } catch (err) {
+    console.warn('Failed to save cover art:', err);
+    return null;
+  }
+}
+
+export async function getLocalTracks(): Promise<LocalTrack[]> {
+  const stored = await AsyncStorage.getItem(LIBRARY_KEY);
+  return stored ? (JSON.parse(stored) as LocalTrack[]) : [];
+}
+
+async function saveLocalTracks(tracks: LocalTrack[]) {
+  await AsyncStorage.setItem(LIBRARY_KEY, JSON.stringify(tracks));
+}
+
+/**
+ * Copies a picked audio file into app documents, reads its embedded tags and
+ * cover art, and returns the library entry. Falls back to the file name when
+ * the file carries no title.
+ */
+function importFile(picked: File): LocalTrack {
+  const extension = getExtension(picked.name);
+  if (!SUPPORTED_AUDIO_EXTENSIONS.includes(extension)) {
+    throw new Error(`Unsupported file type: .${extension || '?'}`);
+  }
+
+  const id = `local_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const fileName = `${id}.${extension}`;
+  const stored = new File(musicDirectory(), fileName);
+  picked.copy(stored);
+
+  let tags: AudioTags = {};
+  try {
+    tags = readTags(stored);
+  } catch (err) {
+    console.warn('Failed to read tags for', picked.name, err);
+  }
+
+  return {
+    id,
+    fileName,
+    coverFileName: tags.picture ? saveCover(id, tags.picture) : null,
+    name: tags.title ?? stripExtension(picked.name),
+    artistName: tags.artist ?? 'Unknown Artist',
+    albumName: tags.album ?? 'Unknown Album',
+    sizeBytes: stored.size,
+    importedAt: Date.now(),
+  };
+}
+
+/**
+ * Opens the system file picker and imports the chosen audio files. Resolves
+ * with the tracks that were added; files that fail are logged and skipped.
+ */
+export async function importLocalAudio(): Promise<LocalTrack[]> {
+  let picked: Awaited<ReturnType<typeof File.pickFileAsync>>;
+  try {
+    picked = await File.pickFileAsync(undefined, 'audio/*');
+  } catch (err) {
+    // Both platforms reject when the picker is dismissed.
+    if (err instanceof Error && /cancel/i.test(err.message)) return [];
+    throw err;
+  }
+  const files = (Array.isArray(picked) ? picked : [picked]).map((f) => new File(f.uri));
+  ensureDirectories();
+
+  const imported: LocalTrack[] = [];
+  for (const file of files) {
+    try {
+      imported.push(importFile(file));
+      console.log('Imported local track:', file.name);
+    } catch (err) {
+      console.error('Failed to import', file.name, err);
+    }
+  }
+
+  if (files.length > 0 && imported.length === 0) {
+    throw new Error(`None of the selected files could be imported. Supported formats: ${SUPPORTED_AUDIO_EXTENSIONS.join(', ').toUpperCase()}`);
+  }
+
+  const existing = await getLocalTracks();
+  await saveLocalTracks([...imported, ...existing]);
+  return imported;
+}
+
+export async function deleteLocalTrack(id: string): Promise<void> {
+  const tracks = await getLocalTracks();
+  const track = tracks.find((t) => t.id === id);
+  if (!track) return;
+
+  const files = [new File(musicDirectory(), track.fileName)];
+  if (track.coverFileName) files.push(new File(coversDirectory(), track.coverFileName));
+  for (const file of files) {
+    try {
+      if (file.exists) file.delete();
+    } catch (err) {
+      console.warn('Failed to delete local file:', err);
+    }
+  }
+
+  deleteLyrics(id);
+
+  await saveLocalTracks(tracks.filter((t) => t.id !== id));
+  console.log('Deleted local track:', track.name);
+}
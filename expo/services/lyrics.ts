@@ -0,0 +1,102 @@
+import { Platform } from 'react-native';
+import { File, Directory, Paths } from 'expo-file-system';
+import { parseLrc, ParsedLyrics } from '@/utils/lrc';
+
+export const SUPPORTED_LYRICS_EXTENSIONS = ['lrc', 'txt'];
+
+/** The track fields lyrics providers can match on. */
+export interface LyricsTrack {
+  id: string;
+  name: string;
+  artistName: string;
+  albumName: string;
+  durationMs: number;
+}
+
+export interface LyricsProvider {
+  name: string;
+  /** Raw LRC (or plain) lyrics text, or null when this provider has none. */
+  getLyrics: (track: LyricsTrack) => Promise<string | null>;
+}
+
+function lyricsDirectory(): Directory {
+  return new Directory(Paths.document, 'lyrics');
+}
+
+function lyricsFile(trackId: string): File {
+  return new File(lyricsDirectory(), `${trackId}.lrc`);
+}
+
+/** Reads lyrics saved for a track with `importLyricsFile`. Native only. */
+export const localFileLyricsProvider: LyricsProvider = {
+  name: 'local-file',
+  async getLyrics(track) {
+    if (Platform.OS === 'web') return null;
+    const file = lyricsFile(track.id);
+    return file.exists ? file.text() : null;
+  },
+};
+
+export const DEFAULT_LYRICS_PROVIDERS: LyricsProvider[] = [localFileLyricsProvider];
+
+/**
+ * Builds a lookup that asks each provider in order and parses the first
+ * lyrics found. A provider that throws is logged and skipped.
+ */
+export function createLyricsChain(providers: LyricsProvider[]) {
+  return async function getLyrics(track: LyricsTrack): Promise<ParsedLyrics | null> {
+    for (const provider of providers) {
+      try {
+        const content = await provider.getLyrics(track);
+        if (!content?.trim()) continue;
+        const parsed = parseLrc(content);
+        if (parsed.lines.length === 0) continue;
+        return parsed;
+      } catch (err) {
+        console.warn(`Lyrics provider ${provider.name} failed for "${track.name}":`, err);
+      }
+    }
+    return null;
+  };
+}
+
+export const getLyrics = createLyricsChain(DEFAULT_LYRICS_PROVIDERS);
+
+/**
+ * Opens the file picker and stores the chosen .lrc file as `trackId`'s
+ * lyrics, replacing any existing ones. Resolves to false if the picker was
+ * dismissed.
+ */
+export async function importLyricsFile(trackId: string): Promise<boolean> {
+  let picked: Awaited<ReturnType<typeof File.pickFileAsync>>;
+  try {
+    picked = await File.pickFileAsync();
+  } catch (err) {
+    if (err instanceof Error && /cancel/i.test(err.message)) return false;
+    throw err;
+  }
+  const file = new File((Array.isArray(picked) ? picked[0] : picked).uri);
+  const extension = file.name.slice(file.name.lastIndexOf('.') + 1).toLowerCase();
+  if (!SUPPORTED_LYRICS_EXTENSIONS.includes(extension)) {
+    throw new Error(`Unsupported lyrics file: ${file.name}. Choose an .lrc or .txt file.`);
+  }
+
+  const content = await file.text();
+  if (parseLrc(content).lines.length === 0) throw new Error('That file has no lyrics in it.');
+
+  const dir = lyricsDirectory();
+  if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+  lyricsFile(trackId).write(content);
+  console.log('Imported lyrics for', trackId);
+  return true;
+}
+
+export function deleteLyrics(trackId: string) {
+  if (Platform.OS === 'web') return;
+  try {
+    const file = lyricsFile(trackId);
+    if (file.exists) file.delete();
+  } catch (err) {
+    console.warn('Failed to delete lyrics:', err);
+  }
+}
@@ -0,0 +1,111 @@
+import { MediaControl, Command, PlaybackState, MediaControlEvent } from 'expo-media-control';
+import { MediaSession, RemoteCommand } from '@/services/mediaSessionTypes';
+
+const SKIP_INTERVAL_S = 15;
+
+function toRemoteCommand(event: MediaControlEvent): RemoteCommand | null {
+  switch (event.command) {
+    case Command.PLAY:
+      return { type: 'play' };
+    case Command.PAUSE:
+      return { type: 'pause' };
+    case Command.NEXT_TRACK:
+      return { type: 'next' };
+    case Command.PREVIOUS_TRACK:
+      return { type: 'previous' };
+    case Command.SEEK:
+      return typeof event.data?.position === 'number'
+        ? { type: 'seek', positionMs: event.data.position * 1000 }
+        : null;
+    case Command.SKIP_FORWARD:
+      return { type: 'seekBy', offsetMs: (event.data?.interval ?? SKIP_INTERVAL_S) * 1000 };
+    case Command.SKIP_BACKWARD:
+      return { type: 'seekBy', offsetMs: -(event.data?.interval ?? SKIP_INTERVAL_S) * 1000 };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Publishes now-playing metadata to the iOS lock screen / Control Center and
+ * the Android media notification, and forwards their buttons as commands.
+ * Controls are enabled lazily with the first track so nothing shows before
+ * anything has played.
+ */
+export function createMediaSession(onCommand: (command: RemoteCommand) => void): MediaSession {
+  let enabled: Promise<void> | null = null;
+  let disposed = false;
+
+  const removeListener = MediaControl.addListener((event) => {
+    const command = toRemoteCommand(event);
+    if (command) onCommand(command);
+  });
+
+  function ensureEnabled(): Promise<void> {
+    if (!enabled) {
+      enabled = MediaControl.enableMediaControls({
+        capabilities: [
+          Command.PLAY,
+          Command.PAUSE,
+          Command.NEXT_TRACK,
+          Command.PREVIOUS_TRACK,
+          Command.SEEK,
+          Command.SKIP_FORWARD,
+          Command.SKIP_BACKWARD,
+        ],
+        compactCapabilities: [Command.PREVIOUS_TRACK, Command.PLAY, Command.NEXT_TRACK],
+        ios: { skipInterval: SKIP_INTERVAL_S },
+        android: { skipInterval: SKIP_INTERVAL_S },
+      }).catch((err) => {
+        enabled = null;
+        throw err;
+      });
+    }
+    return enabled;
+  }
+
+  function run(label: string, task: () => Promise<void>) {
+    task().catch((err) => console.warn(`Media controls ${label} failed:`, err));
+  }
+
+  return {
+    setNowPlaying(info) {
+      if (disposed) return;
+      if (!info) {
+        if (!enabled) return;
+        enabled = null;
+        run('disable', () => MediaControl.disableMediaControls());
+        return;
+      }
+      run('metadata', async () => {
+        await ensureEnabled();
+        await MediaControl.updateMetadata({
+          title: info.title,
+          artist: info.artist,
+          album: info.album,
+          artwork: info.artworkUri ? { uri: info.artworkUri } : undefined,
+          duration: info.durationMs / 1000,
+        });
+      });
+    },
+
+    setPlaybackState({ isPlaying, positionMs, rate }) {
+      if (disposed || !enabled) return;
+      run('state', async () => {
+        await enabled;
+        await MediaControl.updatePlaybackState(
+          isPlaying ? PlaybackState.PLAYING : PlaybackState.PAUSED,
+          Math.max(0, positionMs) / 1000,
+          isPlaying ? rate : 0,
+        );
+      });
+    },
+
+    dispose() {
+      disposed = true;
+      removeListener();
+      if (enabled) run('disable', () => MediaControl.disableMediaControls());
+      enabled = null;
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { MediaSession, RemoteCommand } from '@/services/mediaSessionTypes';
+
+const DEFAULT_SEEK_OFFSET_S = 10;
+
+/**
+ * Publishes now-playing metadata through the browser Media Session API, which
+ * feeds media keys, headset buttons and the OS media overlay.
+ */
+export function createMediaSession(onCommand: (command: RemoteCommand) => void): MediaSession {
+  const session = typeof navigator !== 'undefined' && 'mediaSession' in navigator
+    ? navigator.mediaSession
+    : null;
+
+  const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+    ['play', () => onCommand({ type: 'play' })],
+    ['pause', () => onCommand({ type: 'pause' })],
+    ['nexttrack', () => onCommand({ type: 'next' })],
+    ['previoustrack', () => onCommand({ type: 'previous' })],
+    ['seekto', (details) => {
+      if (details.seekTime !== undefined) onCommand({ type: 'seek', positionMs: details.seekTime * 1000 });
+    }],
+    ['seekforward', (details) => {
+      onCommand({ type: 'seekBy', offsetMs: (details.seekOffset ?? DEFAULT_SEEK_OFFSET_S) * 1000 });
+    }],
+    ['seekbackward', (details) => {
+      onCommand({ type: 'seekBy', offsetMs: -(details.seekOffset ?? DEFAULT_SEEK_OFFSET_S) * 1000 });
+    }],
+  ];
+
+  function setHandlers(enabled: boolean) {
+    if (!session) return;
+    for (const [action, handler] of handlers) {
+      try {
+        session.setActionHandler(action, enabled ? handler : null);
+      } catch {
+        // Browsers throw for actions they don't support.
+      }
+    }
+  }
+
+  setHandlers(true);
+
+  return {
+    setNowPlaying(info) {
+      if (!session) return;
+      if (!info) {
+        session.metadata = null;
+        session.playbackState = 'none';
+        return;
+      }
+      session.metadata = new MediaMetadata({
+        title: info.title,
+        artist: info.artist,
+        album: info.album,
+        artwork: info.artworkUri ? [{ src: info.artworkUri, sizes: '640x640' }] : [],
+      });
+    },
+
+    setPlaybackState({ isPlaying, positionMs, durationMs, rate }) {
+      if (!session) return;
+      session.playbackState = isPlaying ? 'playing' : 'paused';
+      if (durationMs <= 0) return;
+      try {
+        session.setPositionState({
+          duration: durationMs / 1000,
+          position: Math.min(durationMs, Math.max(0, positionMs)) / 1000,
+          playbackRate: rate,
+        });
+      } catch (err) {
+        console.warn('Media session position update failed:', err);
+      }
+    },
+
+    dispose() {
+      setHandlers(false);
+      if (session) session.metadata = null;
+    },
+  };
+}
@@ -0,0 +1,31 @@
+/** A command from the lock screen, notification shade, headset or browser media keys. */
+export type RemoteCommand =
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'seek'; positionMs: number }
+  | { type: 'seekBy'; offsetMs: number };
+
+export interface NowPlayingInfo {
+  title: string;
+  artist: string;
+  album: string;
+  artworkUri: string | null;
+  durationMs: number;
+}
+
+export interface NowPlayingState {
+  isPlaying: boolean;
+  positionMs: number;
+  durationMs: number;
+  rate: number;
+}
+
+export interface MediaSession {
+  /** Publishes track metadata to the OS; null clears the controls. */
+  setNowPlaying: (info: NowPlayingInfo | null) => void;
+  /** The OS extrapolates position from `rate`, so this only needs calling on changes and seeks. */
+  setPlaybackState: (state: NowPlayingState) => void;
+  dispose: () => void;
+}
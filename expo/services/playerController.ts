@@ -0,0 +1,250 @@
+import { createAudioEngine } from '@/services/audioEngine';
+import { EngineCapabilities, EngineStatus } from '@/services/audioEngineTypes';
+import { AudioSource } from '@/services/audioSources';
+
+export type PlaybackState = 'idle' | 'loading' | 'playing' | 'paused' | 'error';
+
+export type PlayerCommand =
+  | {
+      type: 'load';
+      trackId: string;
+      resolveSource: () => Promise<AudioSource | null>;
+      startPositionMs: number;
+      gain?: number;
+      onLoudnessMeasured?: (levelDb: number) => void;
+    }
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'toggle' }
+  | { type: 'seek'; positionMs: number }
+  | { type: 'replay' }
+  | { type: 'stop' };
+
+export interface PlayerSnapshot {
+  state: PlaybackState;
+  trackId: string | null;
+  error: string | null;
+}
+
+export interface PlayerControllerCallbacks {
+  onSnapshot: (snapshot: PlayerSnapshot) => void;
+  onStatus: (status: EngineStatus) => void;
+  onNearEnd: () => void;
+  onFinish: () => void;
+}
+
+export interface PlayerController {
+  /** Queues a command; resolves once it has run or been superseded. */
+  dispatch: (command: PlayerCommand) => Promise<void>;
+  preload: (source: AudioSource | null) => Promise<void>;
+  setCrossfadeDuration: (ms: number) => void;
+  setVolume: (level: number) => void;
+  setRate: (rate: number) => void;
+  setEqualizer: (gainsDb: number[]) => void;
+  readVisualizerData: (spectrum: Uint8Array, waveform: Uint8Array) => boolean;
+  capabilities: EngineCapabilities;
+  getSnapshot: () => PlayerSnapshot;
+  dispose: () => Promise<void>;
+}
+
+const TRANSITIONS: Record<PlaybackState, PlaybackState[]> = {
+  idle: ['loading'],
+  loading: ['loading', 'playing', 'paused', 'error', 'idle'],
+  playing: ['loading', 'paused', 'error', 'idle'],
+  paused: ['loading', 'playing', 'error', 'idle'],
+  error: ['loading', 'idle'],
+};
+
+export const INITIAL_SNAPSHOT: PlayerSnapshot = { state: 'idle', trackId: null, error: null };
+
+interface QueuedCommand {
+  command: PlayerCommand;
+  generation: number;
+  resolve: () => void;
+}
+
+/**
+ * Drives the audio engine through an explicit idle/loading/playing/paused/error
+ * machine. Commands run one at a time in dispatch order, except that a new
+ * `load` supersedes everything queued before it and cancels the load in
+ * flight, so the latest intent always wins and no tap is silently ignored.
+ */
+export function createPlayerController(callbacks: PlayerControllerCallbacks): PlayerController {
+  let snapshot: PlayerSnapshot = INITIAL_SNAPSHOT;
+  let pending: QueuedCommand[] = [];
+  let draining = false;
+  let generation = 0;
+  let cancelInFlight: (() => void) | null = null;
+
+  const engine = createAudioEngine({
+    onStatus: (status) => {
+      callbacks.onStatus(status);
+      if (snapshot.state === 'playing' && !status.isPlaying) {
+        setState('paused');
+      } else if (snapshot.state === 'paused' && status.isPlaying) {
+        setState('playing');
+      }
+    },
+    onNearEnd: () => callbacks.onNearEnd(),
+    onFinish: () => {
+      if (snapshot.state === 'playing') setState('paused');
+      callbacks.onFinish();
+    },
+  });
+
+  function setState(state: PlaybackState, patch: Partial<PlayerSnapshot> = {}) {
+    if (state !== snapshot.state && !TRANSITIONS[snapshot.state].includes(state)) {
+      console.warn(`Ignoring invalid player transition ${snapshot.state} -> ${state}`);
+      return;
+    }
+    snapshot = { ...snapshot, ...patch, state };
+    callbacks.onSnapshot(snapshot);
+  }
+
+  async function runLoad(command: Extract<PlayerCommand, { type: 'load' }>, commandGeneration: number) {
+    const isCancelled = () => commandGeneration !== generation;
+    setState('loading', { trackId: command.trackId, error: null });
+
+    const cancelled = new Promise<false>((resolve) => {
+      cancelInFlight = () => resolve(false);
+    });
+
+    try {
+      // Racing against cancellation lets the next load start without waiting
+      // for a superseded lookup or sound to finish.
+      const source = await Promise.race([command.resolveSource(), cancelled]);
+      if (isCancelled()) return;
+      if (!source) {
+        setState('error', { error: 'No playable source found' });
+        return;
+      }
+      const loaded = await Promise.race([
+        engine.load(source, {
+          startPositionMs: command.startPositionMs,
+          gain: command.gain,
+          isCancelled,
+          onLoudnessMeasured: command.onLoudnessMeasured,
+        }),
+        cancelled,
+      ]);
+      if (loaded && !isCancelled()) {
+        setState('playing');
+      }
+    } catch (err) {
+      if (isCancelled()) return;
+      console.error('Play error:', err);
+      setState('error', { error: err instanceof Error ? err.message : 'Playback failed' });
+    } finally {
+      cancelInFlight = null;
+    }
+  }
+
+  async function execute(command: PlayerCommand, commandGeneration: number) {
+    switch (command.type) {
+      case 'load':
+        await runLoad(command, commandGeneration);
+        return;
+      case 'play':
+        if (snapshot.state !== 'paused') return;
+        await engine.play();
+        setState('playing');
+        return;
+      case 'pause':
+        if (snapshot.state !== 'playing') return;
+        await engine.pause();
+        setState('paused');
+        return;
+      case 'toggle':
+        if (snapshot.state === 'playing') {
+          await engine.pause();
+          setState('paused');
+        } else if (snapshot.state === 'paused') {
+          await engine.play();
+          setState('playing');
+        }
+        return;
+      case 'seek':
+        if (snapshot.state !== 'playing' && snapshot.state !== 'paused') return;
+        await engine.seek(command.positionMs);
+        return;
+      case 'replay':
+        if (snapshot.state !== 'playing' && snapshot.state !== 'paused') return;
+        await engine.replay();
+        setState('playing');
+        return;
+      case 'stop':
+        await engine.unload();
+        setState('idle', { trackId: null, error: null });
+        return;
+    }
+  }
+
+  async function drain() {
+    if (draining) return;
+    draining = true;
+    while (pending.length > 0) {
+      const next = pending.shift()!;
+      try {
+        await execute(next.command, next.generation);
+      } catch (err) {
+        console.error(`Player command "${next.command.type}" failed:`, err);
+      }
+      next.resolve();
+    }
+    draining = false;
+  }
+
+  return {
+    dispatch(command) {
+      if (command.type === 'load') {
+        generation++;
+        cancelInFlight?.();
+        const superseded = pending;
+        pending = [];
+        superseded.forEach((queued) => queued.resolve());
+      }
+      return new Promise<void>((resolve) => {
+        pending.push({ command, generation, resolve });
+        void drain();
+      });
+    },
+
+    preload(source) {
+      return engine.preload(source);
+    },
+
+    setCrossfadeDuration(ms) {
+      engine.setCrossfadeDuration(ms);
+    },
+
+    setVolume(level) {
+      engine.setVolume(level);
+    },
+
+    setRate(rate) {
+      engine.setRate(rate);
+    },
+
+    setEqualizer(gainsDb) {
+      engine.setEqualizer(gainsDb);
+    },
+
+    readVisualizerData(spectrum, waveform) {
+      return engine.readVisualizerData(spectrum, waveform);
+    },
+
+    capabilities: engine.capabilities,
+
+    getSnapshot() {
+      return snapshot;
+    },
+
+    async dispose() {
+      generation++;
+      cancelInFlight?.();
+      pending.forEach((queued) => queued.resolve());
+      pending = [];
+      await engine.unload();
+    },
+  };
+}
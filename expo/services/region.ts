@@ -0,0 +1,77 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getLocales } from 'expo-localization';
+import { DEFAULT_MARKET, SPOTIFY_MARKETS } from '@/constants/markets';
+
+const REGION_KEY = 'fmeo_region';
+
+/** Where catalogue reads are made from: availability, previews and charts differ by market. */
+export interface SpotifyRegion {
+  /** ISO 3166-1 alpha-2 code. */
+  market: string;
+  /** Spotify's `locale` parameter, e.g. "fr_FR". */
+  locale: string;
+}
+
+function isSpotifyMarket(code: string | null | undefined): code is string {
+  return !!code && SPOTIFY_MARKETS.some((m) => m.code === code);
+}
+
+/** The device's region if Spotify is available there, otherwise the default market. */
+export function detectMarket(): string {
+  const regionCode = getLocales()[0]?.regionCode?.toUpperCase();
+  return isSpotifyMarket(regionCode) ? regionCode : DEFAULT_MARKET;
+}
+
+function getDeviceLanguage(): string {
+  return getLocales()[0]?.languageCode ?? 'en';
+}
+
+let override: string | null = null;
+let loadPromise: Promise<string | null> | null = null;
+
+/**
+ * The current region, from the user's choice or else the device locale.
+ * Read synchronously so the market in a request always matches the one in
+ * the query key that asked for it.
+ */
+export function getSpotifyRegion(): SpotifyRegion {
+  const market = override ?? detectMarket();
+  return { market, locale: getSpotifyLocale(market) };
+}
+
+/** Spotify locale for `market` in the device's language, e.g. `de_AT`. */
+export function getSpotifyLocale(market: string): string {
+  return `${getDeviceLanguage()}_${market}`;
+}
+
+/** Loads the user's chosen market once; later calls reuse the first load. */
+export function loadRegionOverride(): Promise<string | null> {
+  if (!loadPromise) {
+    loadPromise = AsyncStorage.getItem(REGION_KEY)
+      .then((stored) => {
+        // A choice made while loading is newer than what was stored.
+        if (isSpotifyMarket(stored) && override === null) override = stored;
+        return override;
+      })
+      .catch((err) => {
+        console.error('Failed to load region:', err);
+        return override;
+      });
+  }
+  return loadPromise;
+}
+
+/** Sets the market to use, or null to follow the device locale again. */
+export async function setRegionOverride(market: string | null): Promise<void> {
+  override = isSpotifyMarket(market) ? market : null;
+  try {
+    if (override) {
+      await AsyncStorage.setItem(REGION_KEY, override);
+    } else {
+      await AsyncStorage.removeItem(REGION_KEY);
+    }
+  } catch (err) {
+    console.error('Failed to save region:', err);
+  }
+  console.log('Spotify market set to', override ?? `${detectMarket()} (device)`);
+}
@@ -0,0 +1,55 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SavedLoop } from '@/utils/abLoop';
+
+const LOOPS_KEY = 'fmeo_saved_loops';
+
+const loopsByTrack = new Map<string, SavedLoop[]>();
+let loadPromise: Promise<void> | null = null;
+
+/** Loads saved loops from storage once; later calls reuse the first load. */
+export function loadSavedLoops(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = AsyncStorage.getItem(LOOPS_KEY)
+      .then((stored) => {
+        if (!stored) return;
+        const entries = Object.entries(JSON.parse(stored) as Record<string, SavedLoop[]>);
+        // Loops saved while loading are newer than what was stored.
+        entries.forEach(([trackId, loops]) => {
+          if (!loopsByTrack.has(trackId)) loopsByTrack.set(trackId, loops);
+        });
+        console.log('Loaded saved loops for', loopsByTrack.size, 'tracks');
+      })
+      .catch((err) => console.error('Failed to load saved loops:', err));
+  }
+  return loadPromise;
+}
+
+export function getSavedLoops(trackId: string): SavedLoop[] {
+  return loopsByTrack.get(trackId) ?? [];
+}
+
+function persist() {
+  AsyncStorage.setItem(LOOPS_KEY, JSON.stringify(Object.fromEntries(loopsByTrack)))
+    .catch((err) => console.error('Failed to save loops:', err));
+}
+
+/** Saves `loop` for the track, replacing any saved loop with the same points. */
+export function saveLoop(trackId: string, loop: SavedLoop): SavedLoop[] {
+  const others = getSavedLoops(trackId)
+    .filter((l) => l.startMs !== loop.startMs || l.endMs !== loop.endMs);
+  const next = [...others, loop].sort((a, b) => a.startMs - b.startMs);
+  loopsByTrack.set(trackId, next);
+  persist();
+  return next;
+}
+
+export function deleteSavedLoop(trackId: string, loopId: string): SavedLoop[] {
+  const next = getSavedLoops(trackId).filter((l) => l.id !== loopId);
+  if (next.length > 0) {
+    loopsByTrack.set(trackId, next);
+  } else {
+    loopsByTrack.delete(trackId);
+  }
+  persist();
+  return next;
+}
@@ -1,7 +1,8 @@
-import { SPOTIFY_CLIENT_ID, SPOTIFY_CLIENT_SECRET } from '@/constants/api';
+import { apiFetch } from '@/services/api';
+import { SpotifyAuthError, getUserAccessToken, expireUserAccessToken } from '@/services/spotifyAuth';
+import { getSpotifyRegion } from '@/services/region';
 
-let cachedToken: string | null = null;
-let tokenExpiry = 0;
+const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
 
 export interface SpotifyImage {
   url: string;
@@ -47,6 +48,7 @@ export interface SpotifyTrack {
   popularity: number;
   track_number: number;
   explicit: boolean;
+  external_ids?: { isrc?: string };
 }
 
 export interface SpotifyPlaylist {
@@ -58,103 +60,432 @@ export interface SpotifyPlaylist {
   tracks: { total: number };
 }
 
+export interface SpotifyUserProfile {
+  id: string;
+  display_name: string | null;
+  images: SpotifyImage[];
+  country?: string;
+  product?: string;
+}
+
 export interface SpotifyCategory {
   id: string;
   name: string;
   icons: SpotifyImage[];
 }
 
-async function getAccessToken(): Promise<string> {
-  if (cachedToken && Date.now() < tokenExpiry) {
-    return cachedToken;
+/**
+ * A failed Spotify request. `status` is 0 when no response arrived (e.g. the
+ * device is offline). `retryable` marks failures worth trying again later.
+ */
+export class SpotifyApiError extends Error {
+  status: number;
+  endpoint: string;
+  retryable: boolean;
+  /** How long Spotify asked to wait before the next request, from `Retry-After`. */
+  retryAfterMs: number | null;
+
+  constructor(message: string, status: number, endpoint: string, retryable: boolean, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'SpotifyApiError';
+    this.status = status;
+    this.endpoint = endpoint;
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
   }
+}
 
-  console.log('Fetching new Spotify access token...');
-  const credentials = btoa(`${SPOTIFY_CLIENT_ID}:${SPOTIFY_CLIENT_SECRET}`);
+export function isRetryableSpotifyError(err: unknown): boolean {
+  return err instanceof SpotifyApiError && err.retryable;
+}
 
-  const response = await fetch('https://accounts.spotify.com/api/token', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Basic ${credentials}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: 'grant_type=client_credentials',
-  });
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+// A longer Retry-After fails the request instead of leaving the screen spinning.
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+const MAX_CONCURRENT_REQUESTS = 4;
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Spotify token error:', errorText);
-    throw new Error('Failed to get Spotify access token');
+let activeRequests = 0;
+const waitingForSlot: (() => void)[] = [];
+// Set from a 429's Retry-After; every request holds off until then, not just the one that was limited.
+let rateLimitedUntil = 0;
+const inFlight = new Map<string, Promise<unknown>>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function acquireSlot(): Promise<void> {
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests += 1;
+    return;
+  }
+  // The releasing request hands its slot straight over.
+  await new Promise<void>((resolve) => waitingForSlot.push(resolve));
+}
+
+function releaseSlot() {
+  const next = waitingForSlot.shift();
+  if (next) {
+    next();
+  } else {
+    activeRequests -= 1;
   }
+}
+
+/** `Retry-After` is either a number of seconds or an HTTP date. */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
 
-  const data = await response.json();
-  cachedToken = data.access_token;
-  tokenExpiry = Date.now() + (data.expires_in - 60) * 1000;
-  console.log('Spotify token acquired');
-  return cachedToken!;
+/** Exponential backoff with full jitter, so parallel retries don't land together. */
+function getBackoffMs(attempt: number): number {
+  return Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
 }
 
-async function spotifyFetch<T>(endpoint: string): Promise<T> {
-  const token = await getAccessToken();
-  const response = await fetch(`https://api.spotify.com/v1${endpoint}`, {
+function fetchAsUser(endpoint: string, token: string): Promise<Response> {
+  return fetch(`${SPOTIFY_API_BASE}${endpoint}`, {
     headers: { 'Authorization': `Bearer ${token}` },
   });
+}
+
+/**
+ * Sends one request as the connected user when there is one. Otherwise
+ * catalogue reads go through the app's API route, which holds the app
+ * credentials.
+ */
+async function send(endpoint: string): Promise<Response> {
+  const userToken = await getUserAccessToken();
+  if (!userToken) return apiFetch(`/api/spotify${endpoint}`);
+
+  const response = await fetchAsUser(endpoint, userToken);
+  if (response.status !== 401) return response;
+  // Revoked or expired early; refresh once and retry.
+  expireUserAccessToken();
+  const refreshed = await getUserAccessToken();
+  return refreshed
+    ? fetchAsUser(endpoint, refreshed)
+    : apiFetch(`/api/spotify${endpoint}`);
+}
+
+async function requestOnce<T>(endpoint: string): Promise<T> {
+  const waitMs = rateLimitedUntil - Date.now();
+  if (waitMs > MAX_RETRY_AFTER_MS) {
+    throw new SpotifyApiError('Spotify rate limit reached', 429, endpoint, true, waitMs);
+  }
+  if (waitMs > 0) await sleep(waitMs);
+
+  await acquireSlot();
+  let response: Response;
+  try {
+    response = await send(endpoint);
+  } catch (err) {
+    if (err instanceof SpotifyAuthError) throw err;
+    console.warn(`Spotify request failed [${endpoint}]:`, err);
+    throw new SpotifyApiError('Could not reach Spotify', 0, endpoint, true);
+  } finally {
+    releaseSlot();
+  }
 
   if (!response.ok) {
-    const errorText = await response.text();
+    const retryAfterMs = response.status === 429 ? parseRetryAfter(response.headers.get('Retry-After')) : null;
+    if (retryAfterMs !== null) rateLimitedUntil = Math.max(rateLimitedUntil, Date.now() + retryAfterMs);
+    const errorText = await response.text().catch(() => '');
     console.error(`Spotify API error [${endpoint}]:`, response.status, errorText);
-    throw new Error(`Spotify API error: ${response.status}`);
+    throw new SpotifyApiError(
+      `Spotify API error: ${response.status}`,
+      response.status,
+      endpoint,
+      RETRYABLE_STATUSES.includes(response.status),
+      retryAfterMs,
+    );
   }
 
   return response.json();
 }
 
-export async function getNewReleases(limit = 20): Promise<SpotifyAlbum[]> {
-  const data = await spotifyFetch<{ albums: { items: SpotifyAlbum[] } }>(
-    `/browse/new-releases?limit=${limit}&country=US`
+async function requestWithRetry<T>(endpoint: string): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await requestOnce<T>(endpoint);
+    } catch (err) {
+      if (!isRetryableSpotifyError(err) || attempt >= MAX_ATTEMPTS) throw err;
+      const delayMs = (err as SpotifyApiError).retryAfterMs ?? getBackoffMs(attempt);
+      if (delayMs > MAX_RETRY_AFTER_MS) throw err;
+      console.log(`Retrying Spotify request [${endpoint}] in ${Math.round(delayMs)}ms (attempt ${attempt + 1}/${MAX_ATTEMPTS})`);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * GETs `endpoint`, retrying rate limits, server errors and network failures
+ * with backoff. Concurrent calls for the same endpoint share one request, and
+ * at most `MAX_CONCURRENT_REQUESTS` are sent at once.
+ */
+function spotifyFetch<T>(endpoint: string): Promise<T> {
+  const pending = inFlight.get(endpoint);
+  if (pending) return pending as Promise<T>;
+  const request = requestWithRetry<T>(endpoint).finally(() => {
+    inFlight.delete(endpoint);
+  });
+  inFlight.set(endpoint, request);
+  return request;
+}
+
+/** Spotify's paging object, as list endpoints return it. */
+interface SpotifyPagingObject<T> {
+  items: (T | null)[];
+  next: string | null;
+  total: number;
+}
+
+/**
+ * One page of a list. `next` is the endpoint of the page after it, whether
+ * Spotify pages that list by offset or by cursor, or null on the last page;
+ * pass it back as `cursor` to continue.
+ */
+export interface SpotifyPage<T> {
+  items: T[];
+  total: number;
+  next: string | null;
+}
+
+export interface SpotifyPagedResult<T> {
+  items: T[];
+  /** Total on Spotify's side, which can be more than was fetched. */
+  total: number;
+  /** True when paging stopped at an item matching `stopAt`. */
+  stopped: boolean;
+}
+
+export interface SpotifyPagingOptions<T> {
+  maxItems?: number;
+  /** Stops paging at the first matching item, which is left out of the result. */
+  stopAt?: (item: T) => boolean;
+}
+
+const PAGE_SIZE = 50;
+
+// Catalogue reads follow the region setting. Track and album endpoints call it
+// `market`; browse endpoints call it `country`.
+function marketParam(): string {
+  return `market=${getSpotifyRegion().market}`;
+}
+
+function countryParam(): string {
+  return `country=${getSpotifyRegion().market}`;
+}
+
+/**
+ * Fetches one page from `endpoint`. `select` picks the paging object out of
+ * the response, since some endpoints wrap it (e.g. `artists` or `tracks`).
+ */
+async function fetchPage<T, R>(
+  endpoint: string,
+  select: (data: R) => SpotifyPagingObject<T>,
+): Promise<SpotifyPage<T>> {
+  const page = select(await spotifyFetch<R>(endpoint));
+  return {
+    // Removed or unavailable entries come back as null.
+    items: page.items.filter((item): item is T => item !== null),
+    total: page.total,
+    next: page.next ? page.next.replace(SPOTIFY_API_BASE, '') : null,
+  };
+}
+
+/** Fetches `endpoint` and follows its `next` links until the list ends or `maxItems` is reached. */
+async function fetchAllPages<T, R>(
+  endpoint: string,
+  select: (data: R) => SpotifyPagingObject<T>,
+  { maxItems = Infinity, stopAt }: SpotifyPagingOptions<T> = {},
+): Promise<SpotifyPagedResult<T>> {
+  const items: T[] = [];
+  let next: string | null = endpoint;
+  let total = 0;
+  while (next && items.length < maxItems) {
+    const page: SpotifyPage<T> = await fetchPage(next, select);
+    total = page.total;
+    for (const item of page.items) {
+      if (stopAt?.(item)) return { items, total, stopped: true };
+      items.push(item);
+      if (items.length >= maxItems) break;
+    }
+    next = page.next;
+  }
+  return { items, total, stopped: false };
+}
+
+export async function getNewReleasesPage(cursor?: string): Promise<SpotifyPage<SpotifyAlbum>> {
+  return fetchPage<SpotifyAlbum, { albums: SpotifyPagingObject<SpotifyAlbum> }>(
+    cursor ?? `/browse/new-releases?limit=${PAGE_SIZE}&${countryParam()}`,
+    (data) => data.albums,
   );
-  return data.albums.items;
 }
 
 export async function getFeaturedPlaylists(limit = 20): Promise<SpotifyPlaylist[]> {
   const data = await spotifyFetch<{ playlists: { items: SpotifyPlaylist[] } }>(
-    `/browse/featured-playlists?limit=${limit}&country=US`
+    `/browse/featured-playlists?limit=${limit}&${countryParam()}`
   );
   return data.playlists.items;
 }
 
-export async function getCategories(limit = 20): Promise<SpotifyCategory[]> {
-  const data = await spotifyFetch<{ categories: { items: SpotifyCategory[] } }>(
-    `/browse/categories?limit=${limit}&country=US&locale=en_US`
+export async function getCategoriesPage(cursor?: string): Promise<SpotifyPage<SpotifyCategory>> {
+  return fetchPage<SpotifyCategory, { categories: SpotifyPagingObject<SpotifyCategory> }>(
+    cursor ?? `/browse/categories?limit=${PAGE_SIZE}&${countryParam()}&locale=${getSpotifyRegion().locale}`,
+    (data) => data.categories,
   );
-  return data.categories.items;
 }
 
 export async function getPlaylistTracks(playlistId: string, limit = 30): Promise<SpotifyTrack[]> {
   const data = await spotifyFetch<{ items: Array<{ track: SpotifyTrack }> }>(
-    `/playlists/${playlistId}/tracks?limit=${limit}&market=US`
+    `/playlists/${playlistId}/tracks?limit=${limit}&${marketParam()}`
   );
   return data.items.map((item) => item.track).filter(Boolean);
 }
 
+type PlaylistItemsResponse = SpotifyPagingObject<{ track: SpotifyTrack | null }>;
+
+// Episodes and unavailable tracks come back with a null `track`.
+const selectPlaylistTracks = (data: PlaylistItemsResponse): SpotifyPagingObject<SpotifyTrack> => ({
+  ...data,
+  items: data.items.map((item) => item?.track ?? null),
+});
+
+export async function getPlaylistTracksPage(playlistId: string, cursor?: string): Promise<SpotifyPage<SpotifyTrack>> {
+  return fetchPage(cursor ?? `/playlists/${playlistId}/tracks?limit=${PAGE_SIZE}&${marketParam()}`, selectPlaylistTracks);
+}
+
+/** Every track in a playlist (up to `maxItems`), for playing or downloading it as a whole. */
+export async function getAllPlaylistTracks(playlistId: string, maxItems = 1000): Promise<SpotifyTrack[]> {
+  const result = await fetchAllPages(
+    `/playlists/${playlistId}/tracks?limit=100&${marketParam()}`,
+    selectPlaylistTracks,
+    { maxItems },
+  );
+  return result.items;
+}
+
 export async function getAlbumTracks(albumId: string): Promise<{ album: SpotifyAlbum; tracks: SpotifyTrack[] }> {
-  const data = await spotifyFetch<SpotifyAlbum & { tracks: { items: SpotifyTrack[] } }>(
-    `/albums/${albumId}?market=US`
+  const data = await spotifyFetch<SpotifyAlbum & { tracks: SpotifyPagingObject<SpotifyTrack> }>(
+    `/albums/${albumId}?${marketParam()}`
   );
-  const tracks = data.tracks.items.map((t) => ({
+  let items = data.tracks.items.filter((t): t is SpotifyTrack => t !== null);
+  // The album embeds its first 50 tracks; longer ones continue at `tracks.next`.
+  if (data.tracks.next) {
+    const rest = await fetchAllPages(
+      data.tracks.next.replace(SPOTIFY_API_BASE, ''),
+      (page: SpotifyPagingObject<SpotifyTrack>) => page,
+    );
+    items = [...items, ...rest.items];
+  }
+  const tracks = items.map((t) => ({
     ...t,
     album: { id: data.id, name: data.name, images: data.images },
   }));
   return { album: data, tracks };
 }
 
+export interface SpotifySavedTrack {
+  added_at: string;
+  track: SpotifyTrack;
+}
+
+export interface SpotifySavedAlbum {
+  added_at: string;
+  album: SpotifyAlbum;
+}
+
+/** The user's Liked Songs, newest first; only works with a user token. */
+export async function getSavedTracks(
+  options?: SpotifyPagingOptions<SpotifySavedTrack>,
+): Promise<SpotifyPagedResult<SpotifySavedTrack>> {
+  const result = await fetchAllPages<SpotifySavedTrack, SpotifyPagingObject<SpotifySavedTrack>>(
+    `/me/tracks?limit=${PAGE_SIZE}&market=from_token`,
+    (data) => data,
+    options,
+  );
+  // Keep only the fields the app reads; the snapshot of a large library is stored on device.
+  const items = result.items
+    .filter((item) => item.track)
+    .map(({ added_at, track }) => ({
+      added_at,
+      track: {
+        id: track.id,
+        name: track.name,
+        artists: track.artists.map(({ id, name }) => ({ id, name })),
+        album: { id: track.album.id, name: track.album.name, images: track.album.images },
+        duration_ms: track.duration_ms,
+        preview_url: track.preview_url,
+        popularity: track.popularity,
+        track_number: track.track_number,
+        explicit: track.explicit,
+        external_ids: track.external_ids,
+      },
+    }));
+  return { ...result, items };
+}
+
+/** The user's saved albums, newest first; only works with a user token. */
+export async function getSavedAlbums(
+  options?: SpotifyPagingOptions<SpotifySavedAlbum>,
+): Promise<SpotifyPagedResult<SpotifySavedAlbum>> {
+  const result = await fetchAllPages<SpotifySavedAlbum, SpotifyPagingObject<SpotifySavedAlbum>>(
+    `/me/albums?limit=${PAGE_SIZE}&market=from_token`,
+    (data) => data,
+    options,
+  );
+  // Saved albums embed their first page of tracks; drop them, `getAlbumTracks` loads the full list.
+  const items = result.items.map(({ added_at, album }) => ({
+    added_at,
+    album: {
+      id: album.id,
+      name: album.name,
+      images: album.images,
+      artists: album.artists.map(({ id, name }) => ({ id, name })),
+      release_date: album.release_date,
+      total_tracks: album.total_tracks,
+      album_type: album.album_type,
+    },
+  }));
+  return { ...result, items };
+}
+
+/** Artists the user follows; only works with a user token. */
+export async function getFollowedArtists(
+  options?: SpotifyPagingOptions<SpotifyArtist>,
+): Promise<SpotifyPagedResult<SpotifyArtist>> {
+  return fetchAllPages<SpotifyArtist, { artists: SpotifyPagingObject<SpotifyArtist> }>(
+    `/me/following?type=artist&limit=${PAGE_SIZE}`,
+    (data) => data.artists,
+    options,
+  );
+}
+
+/** Playlists the user owns or follows; only works with a user token. */
+export async function getCurrentUserPlaylists(
+  options?: SpotifyPagingOptions<SpotifyPlaylist>,
+): Promise<SpotifyPagedResult<SpotifyPlaylist>> {
+  return fetchAllPages<SpotifyPlaylist, SpotifyPagingObject<SpotifyPlaylist>>(
+    `/me/playlists?limit=${PAGE_SIZE}`,
+    (data) => data,
+    options,
+  );
+}
+
 export async function getArtist(artistId: string): Promise<SpotifyArtist> {
   return spotifyFetch<SpotifyArtist>(`/artists/${artistId}`);
 }
 
 export async function getArtistTopTracks(artistId: string): Promise<SpotifyTrack[]> {
   const data = await spotifyFetch<{ tracks: SpotifyTrack[] }>(
-    `/artists/${artistId}/top-tracks?market=US`
+    `/artists/${artistId}/top-tracks?${marketParam()}`
   );
   return data.tracks;
 }
@@ -175,7 +506,7 @@ export async function search(
     artists?: { items: SpotifyArtist[] };
     albums?: { items: SpotifyAlbum[] };
     playlists?: { items: SpotifyPlaylist[] };
-  }>(`/search?q=${encodeURIComponent(query)}&type=${typeStr}&limit=${limit}&market=US`);
+  }>(`/search?q=${encodeURIComponent(query)}&type=${typeStr}&limit=${limit}&${marketParam()}`);
 
   return {
     tracks: data.tracks?.items ?? [],
@@ -185,9 +516,17 @@ export async function search(
   };
 }
 
+/** Track results for `query`, a page at a time; pass the previous page's `next` as `cursor` for more. */
+export async function searchTracksPage(query: string, cursor?: string): Promise<SpotifyPage<SpotifyTrack>> {
+  return fetchPage<SpotifyTrack, { tracks: SpotifyPagingObject<SpotifyTrack> }>(
+    cursor ?? `/search?q=${encodeURIComponent(query)}&type=track&limit=${PAGE_SIZE}&${marketParam()}`,
+    (data) => data.tracks,
+  );
+}
+
 export async function getTopTracksPlaylist(): Promise<SpotifyTrack[]> {
   const data = await spotifyFetch<{ playlists: { items: SpotifyPlaylist[] } }>(
-    `/browse/featured-playlists?limit=1&country=US`
+    `/browse/featured-playlists?limit=1&${countryParam()}`
   );
   if (data.playlists.items.length > 0) {
     return getPlaylistTracks(data.playlists.items[0].id, 20);
@@ -197,7 +536,12 @@ export async function getTopTracksPlaylist(): Promise<SpotifyTrack[]> {
 
 export async function getRecommendations(seedGenres: string[] = ['pop', 'hip-hop', 'r-n-b'], limit = 20): Promise<SpotifyTrack[]> {
   const data = await spotifyFetch<{ tracks: SpotifyTrack[] }>(
-    `/recommendations?seed_genres=${seedGenres.join(',')}&limit=${limit}&market=US`
+    `/recommendations?seed_genres=${seedGenres.join(',')}&limit=${limit}&${marketParam()}`
   );
   return data.tracks;
 }
+
+/** The connected user's profile; only works with a user token. */
+export async function getCurrentUserProfile(): Promise<SpotifyUserProfile> {
+  return spotifyFetch<SpotifyUserProfile>('/me');
+}
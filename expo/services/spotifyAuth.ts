@@ -0,0 +1,241 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import * as WebBrowser from 'expo-web-browser';
+import { createURL, parse } from 'expo-linking';
+import { SPOTIFY_CLIENT_ID } from '@/constants/api';
+
+const SESSION_KEY = 'fmeo_spotify_session';
+const AUTHORIZE_URL = 'https://accounts.spotify.com/authorize';
+const TOKEN_URL = 'https://accounts.spotify.com/api/token';
+// Refresh a little early so a token never expires mid-request.
+const REFRESH_MARGIN_MS = 60 * 1000;
+const VERIFIER_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const VERIFIER_LENGTH = 64;
+
+export const SPOTIFY_SCOPES = [
+  'user-read-private',
+  'user-library-read',
+  'playlist-read-private',
+  'playlist-read-collaborative',
+  'user-top-read',
+  'user-follow-read',
+];
+
+export interface SpotifyUserSession {
+  accessToken: string;
+  refreshToken: string;
+  /** Unix milliseconds. */
+  expiresAt: number;
+  scope: string;
+}
+
+/** A Spotify accounts error, carrying the OAuth `error` code from the response. */
+export class SpotifyAuthError extends Error {
+  code: string;
+
+  constructor(message: string, code: string) {
+    super(message);
+    this.name = 'SpotifyAuthError';
+    this.code = code;
+  }
+}
+
+/** The refresh token was revoked or rotated away; the user has to connect again. */
+export function isRevokedSessionError(err: unknown): boolean {
+  return err instanceof SpotifyAuthError && err.code === 'invalid_grant';
+}
+
+export function isSpotifyAuthConfigured(): boolean {
+  return !!SPOTIFY_CLIENT_ID;
+}
+
+// Tokens live in the keychain/keystore; the web has no equivalent, so it falls back to local storage.
+const secureStorage = Platform.OS === 'web'
+  ? {
+      get: (key: string) => AsyncStorage.getItem(key),
+      set: (key: string, value: string) => AsyncStorage.setItem(key, value),
+      remove: (key: string) => AsyncStorage.removeItem(key),
+    }
+  : {
+      get: (key: string) => SecureStore.getItemAsync(key),
+      set: (key: string, value: string) => SecureStore.setItemAsync(key, value),
+      remove: (key: string) => SecureStore.deleteItemAsync(key),
+    };
+
+let session: SpotifyUserSession | null = null;
+let loadPromise: Promise<SpotifyUserSession | null> | null = null;
+let refreshPromise: Promise<SpotifyUserSession> | null = null;
+const listeners = new Set<(session: SpotifyUserSession | null) => void>();
+
+/** Subscribes to connects, disconnects and revocations. Returns the unsubscribe function. */
+export function onSpotifySessionChange(listener: (session: SpotifyUserSession | null) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function setSession(next: SpotifyUserSession | null) {
+  const changed = (session === null) !== (next === null);
+  session = next;
+  try {
+    if (next) {
+      await secureStorage.set(SESSION_KEY, JSON.stringify(next));
+    } else {
+      await secureStorage.remove(SESSION_KEY);
+    }
+  } catch (err) {
+    console.error('Failed to store Spotify session:', err);
+  }
+  if (changed) listeners.forEach((listener) => listener(next));
+}
+
+/** Loads the stored session once; later calls reuse the first load. */
+export function loadSpotifySession(): Promise<SpotifyUserSession | null> {
+  if (!loadPromise) {
+    loadPromise = secureStorage.get(SESSION_KEY)
+      .then((stored) => {
+        // A connect that finished while loading is newer than what was stored.
+        if (stored && !session) session = JSON.parse(stored) as SpotifyUserSession;
+        return session;
+      })
+      .catch((err) => {
+        console.error('Failed to load Spotify session:', err);
+        return session;
+      });
+  }
+  return loadPromise;
+}
+
+function createCodeVerifier(): string {
+  // 256 is a multiple of the alphabet's 64 characters, so `% 64` stays unbiased.
+  return Array.from(Crypto.getRandomBytes(VERIFIER_LENGTH), (byte) => VERIFIER_ALPHABET[byte % 64]).join('');
+}
+
+async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, verifier, {
+    encoding: Crypto.CryptoEncoding.BASE64,
+  });
+  return digest.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function getSpotifyRedirectUri(): string {
+  return createURL('spotify-auth');
+}
+
+async function requestToken(params: Record<string, string>): Promise<SpotifyUserSession> {
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ client_id: SPOTIFY_CLIENT_ID, ...params }).toString(),
+  });
+  const data = await response.json().catch(() => ({})) as {
+    access_token?: string;
+    refresh_token?: string;
+    expires_in?: number;
+    scope?: string;
+    error?: string;
+    error_description?: string;
+  };
+  if (!response.ok || !data.access_token) {
+    console.error('Spotify token error:', response.status, data.error, data.error_description);
+    throw new SpotifyAuthError(data.error_description ?? 'Spotify sign-in failed', data.error ?? 'unknown');
+  }
+  return {
+    accessToken: data.access_token,
+    // Spotify may rotate the refresh token; keep the old one when it doesn't.
+    refreshToken: data.refresh_token ?? params.refresh_token ?? '',
+    expiresAt: Date.now() + (data.expires_in ?? 3600) * 1000,
+    scope: data.scope ?? '',
+  };
+}
+
+/**
+ * Runs the Authorization Code flow with PKCE in a browser sheet. Resolves to
+ * the new session, or null if the user closed the sheet without finishing.
+ */
+export async function authorizeSpotify(): Promise<SpotifyUserSession | null> {
+  const verifier = createCodeVerifier();
+  const state = Crypto.randomUUID();
+  const redirectUri = getSpotifyRedirectUri();
+  const query = new URLSearchParams({
+    client_id: SPOTIFY_CLIENT_ID,
+    response_type: 'code',
+    redirect_uri: redirectUri,
+    code_challenge_method: 'S256',
+    code_challenge: await createCodeChallenge(verifier),
+    scope: SPOTIFY_SCOPES.join(' '),
+    state,
+  });
+
+  const result = await WebBrowser.openAuthSessionAsync(`${AUTHORIZE_URL}?${query.toString()}`, redirectUri);
+  if (result.type !== 'success') return null;
+
+  const params = parse(result.url).queryParams ?? {};
+  const param = (name: string) => (typeof params[name] === 'string' ? params[name] : null);
+  if (param('state') !== state) throw new SpotifyAuthError('Spotify sign-in was interrupted', 'state_mismatch');
+  const error = param('error');
+  if (error === 'access_denied') return null;
+  const code = param('code');
+  if (error || !code) throw new SpotifyAuthError('Spotify sign-in failed', error ?? 'missing_code');
+
+  const next = await requestToken({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: verifier,
+  });
+  await setSession(next);
+  console.log('Connected Spotify account');
+  return next;
+}
+
+function refreshSession(current: SpotifyUserSession): Promise<SpotifyUserSession> {
+  if (!refreshPromise) {
+    console.log('Refreshing Spotify user token...');
+    refreshPromise = requestToken({ grant_type: 'refresh_token', refresh_token: current.refreshToken })
+      .then(async (next) => {
+        await setSession(next);
+        return next;
+      })
+      .catch(async (err) => {
+        if (isRevokedSessionError(err)) await setSession(null);
+        throw err;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
+
+/**
+ * A valid user access token, refreshed first if it is about to expire, or
+ * null when no account is connected (including when the refresh token has
+ * been revoked, which also disconnects).
+ */
+export async function getUserAccessToken(): Promise<string | null> {
+  await loadSpotifySession();
+  // Read after the load: the session changes with every refresh and disconnect.
+  const current = session;
+  if (!current) return null;
+  if (Date.now() < current.expiresAt - REFRESH_MARGIN_MS) return current.accessToken;
+  try {
+    return (await refreshSession(current)).accessToken;
+  } catch (err) {
+    if (isRevokedSessionError(err)) return null;
+    throw err;
+  }
+}
+
+/** Forces the next `getUserAccessToken` to refresh, e.g. after Spotify rejects the token. */
+export function expireUserAccessToken() {
+  if (session) session = { ...session, expiresAt: 0 };
+}
+
+export async function disconnectSpotify(): Promise<void> {
+  await setSession(null);
+  console.log('Disconnected Spotify account');
+}
@@ -0,0 +1,148 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  SpotifyArtist,
+  SpotifyPagedResult,
+  SpotifyPagingOptions,
+  SpotifyPlaylist,
+  SpotifySavedAlbum,
+  SpotifySavedTrack,
+  getCurrentUserPlaylists,
+  getFollowedArtists,
+  getSavedAlbums,
+  getSavedTracks,
+} from '@/services/spotify';
+
+const SNAPSHOT_KEY = 'fmeo_spotify_library';
+// Caps keep a sync to a few dozen requests and the stored snapshot small.
+const MAX_SAVED_TRACKS = 1000;
+const MAX_SAVED_ALBUMS = 300;
+const MAX_FOLLOWED_ARTISTS = 300;
+const MAX_PLAYLISTS = 300;
+
+/** The connected user's Spotify library as last synced, kept on device. */
+export interface SpotifyLibrarySnapshot {
+  userId: string;
+  savedTracks: SpotifySavedTrack[];
+  savedAlbums: SpotifySavedAlbum[];
+  /**
+   * Spotify's full counts, which exceed the lists once a library is over the
+   * cap. Missing from snapshots stored before they were tracked.
+   */
+  savedTrackTotal?: number;
+  savedAlbumTotal?: number;
+  artists: SpotifyArtist[];
+  playlists: SpotifyPlaylist[];
+  /** Unix milliseconds. */
+  refreshedAt: number;
+}
+
+// Bumped on clear so a sync that was in flight doesn't write the old user's library back.
+let generation = 0;
+
+/** The stored snapshot for `userId`, or null if there is none (or it belongs to another account). */
+export async function loadLibrarySnapshot(userId: string): Promise<SpotifyLibrarySnapshot | null> {
+  try {
+    const stored = await AsyncStorage.getItem(SNAPSHOT_KEY);
+    if (!stored) return null;
+    const snapshot = JSON.parse(stored) as SpotifyLibrarySnapshot;
+    return snapshot.userId === userId ? snapshot : null;
+  } catch (err) {
+    console.error('Failed to load Spotify library snapshot:', err);
+    return null;
+  }
+}
+
+export async function clearLibrarySnapshot(): Promise<void> {
+  generation += 1;
+  try {
+    await AsyncStorage.removeItem(SNAPSHOT_KEY);
+  } catch (err) {
+    console.error('Failed to clear Spotify library snapshot:', err);
+  }
+}
+
+interface SavedItems<T> {
+  items: T[];
+  total: number;
+}
+
+/**
+ * Brings a newest-first saved list up to date. Only the items added since
+ * `known` are fetched; if the counts then don't add up, something further
+ * down was removed and the list is fetched again in full.
+ *
+ * Past the cap `known` is only the newest slice of the library, so the check
+ * is against the total it was taken from rather than its length. A removal
+ * anywhere, even below the slice, still means a full fetch, since the counts
+ * can't tell where it was.
+ */
+async function syncSavedItems<T extends { added_at: string }>(
+  known: T[],
+  knownTotal: number | undefined,
+  idOf: (item: T) => string,
+  fetchItems: (options: SpotifyPagingOptions<T>) => Promise<SpotifyPagedResult<T>>,
+  maxItems: number,
+): Promise<SavedItems<T>> {
+  // A list under the cap is the whole library, so its length is the total.
+  const previousTotal = knownTotal ?? (known.length < maxItems ? known.length : null);
+  if (known.length > 0 && previousTotal !== null) {
+    const knownKeys = new Set(known.map((item) => `${idOf(item)}:${item.added_at}`));
+    const head = await fetchItems({ maxItems, stopAt: (item) => knownKeys.has(`${idOf(item)}:${item.added_at}`) });
+    if (!head.stopped) return { items: head.items, total: head.total };
+    // Items saved again move to the top with a new `added_at`.
+    const headIds = new Set(head.items.map(idOf));
+    const merged = [...head.items, ...known.filter((item) => !headIds.has(idOf(item)))];
+    const added = merged.length - known.length;
+    if (head.total === previousTotal + added) return { items: merged.slice(0, maxItems), total: head.total };
+  }
+  const full = await fetchItems({ maxItems });
+  return { items: full.items, total: full.total };
+}
+
+/**
+ * Syncs the user's saved tracks, saved albums, followed artists and
+ * playlists with Spotify and stores the result. Saved tracks and albums are
+ * refreshed incrementally from `previous`; artists and playlists in full.
+ */
+export async function refreshSpotifyLibrary(
+  userId: string,
+  previous: SpotifyLibrarySnapshot | null,
+): Promise<SpotifyLibrarySnapshot> {
+  const startedGeneration = generation;
+  const base = previous?.userId === userId ? previous : null;
+
+  const [savedTracks, savedAlbums, artists, playlists] = await Promise.all([
+    syncSavedItems(
+      base?.savedTracks ?? [], base?.savedTrackTotal, (item) => item.track.id, getSavedTracks, MAX_SAVED_TRACKS,
+    ),
+    syncSavedItems(
+      base?.savedAlbums ?? [], base?.savedAlbumTotal, (item) => item.album.id, getSavedAlbums, MAX_SAVED_ALBUMS,
+    ),
+    getFollowedArtists({ maxItems: MAX_FOLLOWED_ARTISTS }).then((result) => result.items),
+    getCurrentUserPlaylists({ maxItems: MAX_PLAYLISTS }).then((result) => result.items),
+  ]);
+
+  const snapshot: SpotifyLibrarySnapshot = {
+    userId,
+    savedTracks: savedTracks.items,
+    savedAlbums: savedAlbums.items,
+    savedTrackTotal: savedTracks.total,
+    savedAlbumTotal: savedAlbums.total,
+    artists,
+    playlists,
+    refreshedAt: Date.now(),
+  };
+  console.log(
+    'Synced Spotify library:', savedTracks.items.length, 'tracks,', savedAlbums.items.length, 'albums,',
+    artists.length, 'artists,', playlists.length, 'playlists',
+  );
+
+  if (generation === startedGeneration) {
+    try {
+      await AsyncStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshot));
+    } catch (err) {
+      console.error('Failed to store Spotify library snapshot:', err);
+    }
+  }
+  return snapshot;
+}
@@ -0,0 +1,42 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const GAINS_KEY = 'fmeo_track_gains';
+const MAX_CACHED_GAINS = 2000;
+
+const gains = new Map<string, number>();
+let loadPromise: Promise<void> | null = null;
+
+/** Loads cached per-track gains from storage once; later calls reuse the first load. */
+export function loadTrackGains(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = AsyncStorage.getItem(GAINS_KEY)
+      .then((stored) => {
+        if (!stored) return;
+        const entries = Object.entries(JSON.parse(stored) as Record<string, number>);
+        // Stored entries are older than anything measured while loading.
+        entries.forEach(([id, gain]) => {
+          if (!gains.has(id)) gains.set(id, gain);
+        });
+        console.log('Loaded track gains:', gains.size);
+      })
+      .catch((err) => console.error('Failed to load track gains:', err));
+  }
+  return loadPromise;
+}
+
+export function getTrackGain(trackId: string): number | null {
+  return gains.get(trackId) ?? null;
+}
+
+export function saveTrackGain(trackId: string, gain: number) {
+  gains.delete(trackId);
+  gains.set(trackId, gain);
+  // Maps iterate in insertion order, so the first keys are the oldest measurements.
+  while (gains.size > MAX_CACHED_GAINS) {
+    const oldest = gains.keys().next().value;
+    if (oldest === undefined) break;
+    gains.delete(oldest);
+  }
+  AsyncStorage.setItem(GAINS_KEY, JSON.stringify(Object.fromEntries(gains)))
+    .catch((err) => console.error('Failed to save track gains:', err));
+}
@@ -1,9 +1,8 @@
 import { Platform } from 'react-native';
+import { apiFetch, getApiConfig } from '@/services/api';
 
-const XUMM_API_KEY = process.env.EXPO_PUBLIC_XUMM_API_KEY || '';
-const XUMM_API_SECRET = process.env.XUMM_API_SECRET || '';
-
-const XUMM_BASE = 'https://xumm.app/api/v1/platform';
+// Payload calls go through the app's API routes, which hold the Xumm key pair.
+const XUMM_PAYLOAD_PATH = '/api/xumm/payload';
 
 export interface XummPayloadResponse {
   uuid: string;
@@ -72,25 +71,16 @@ export interface XummAccountInfo {
   index: string;
 }
 
-function authHeaders(): Record<string, string> {
-  if (!XUMM_API_KEY) {
-    throw new Error('Xumm API key is not configured. Please set EXPO_PUBLIC_XUMM_API_KEY.');
-  }
-  return {
-    'X-API-Key': XUMM_API_KEY,
-    'X-API-Secret': XUMM_API_SECRET,
-    'Content-Type': 'application/json',
-  };
-}
+const JSON_HEADERS = { 'Content-Type': 'application/json' };
 
 /**
  * Creates a SignIn payload on the Xumm platform.
  * Returns the payload UUID and QR/deep-link info so the user can sign via Xaman.
  */
 export async function createSignInPayload(): Promise<XummPayloadResponse> {
-  const response = await fetch(`${XUMM_BASE}/payload`, {
+  const response = await apiFetch(XUMM_PAYLOAD_PATH, {
     method: 'POST',
-    headers: authHeaders(),
+    headers: JSON_HEADERS,
     body: JSON.stringify({
       txjson: { TransactionType: 'SignIn' },
       options: {
@@ -117,10 +107,7 @@ export async function createSignInPayload(): Promise<XummPayloadResponse> {
  * Fetches the current status of a Xumm payload by UUID.
  */
 export async function getPayloadStatus(uuid: string): Promise<XummPayloadStatus> {
-  const response = await fetch(`${XUMM_BASE}/payload/${uuid}`, {
-    method: 'GET',
-    headers: authHeaders(),
-  });
+  const response = await apiFetch(`${XUMM_PAYLOAD_PATH}/${uuid}`, { method: 'GET' });
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -135,10 +122,7 @@ export async function getPayloadStatus(uuid: string): Promise<XummPayloadStatus>
  * Deletes a Xumm payload by UUID (e.g. if the user cancels).
  */
 export async function deletePayload(uuid: string): Promise<void> {
-  const response = await fetch(`${XUMM_BASE}/payload/${uuid}`, {
-    method: 'DELETE',
-    headers: authHeaders(),
-  });
+  const response = await apiFetch(`${XUMM_PAYLOAD_PATH}/${uuid}`, { method: 'DELETE' });
 
   if (!response.ok) {
     console.warn('Xumm delete payload warning:', response.status);
@@ -182,9 +166,9 @@ export async function createNFTMintPayload(
 ): Promise<XummPayloadResponse> {
   const hexUri = stringToHex(uri);
 
-  const response = await fetch(`${XUMM_BASE}/payload`, {
+  const response = await apiFetch(XUMM_PAYLOAD_PATH, {
     method: 'POST',
-    headers: authHeaders(),
+    headers: JSON_HEADERS,
     body: JSON.stringify({
       txjson: {
         TransactionType: 'NFTokenMint',
@@ -220,9 +204,9 @@ export async function createTokenPayload(
 ): Promise<XummPayloadResponse> {
   const currencyHex = stringToHex(currency).toUpperCase().padEnd(40, '0').slice(0, 40);
 
-  const response = await fetch(`${XUMM_BASE}/payload`, {
+  const response = await apiFetch(XUMM_PAYLOAD_PATH, {
     method: 'POST',
-    headers: authHeaders(),
+    headers: JSON_HEADERS,
     body: JSON.stringify({
       txjson: {
         TransactionType: 'Payment',
@@ -278,8 +262,13 @@ export function getXummSignUrl(uuid: string): string {
 }
 
 /**
- * Checks whether the Xumm API credentials are configured.
+ * Checks whether the server has Xumm API credentials configured.
  */
-export function isXummConfigured(): boolean {
-  return XUMM_API_KEY.length > 5;
+export async function isXummConfigured(): Promise<boolean> {
+  try {
+    return (await getApiConfig()).xumm;
+  } catch (err) {
+    console.warn('Failed to check Xumm configuration:', err);
+    return false;
+  }
 }
@@ -0,0 +1,47 @@
+import { formatTime } from '@/utils/format';
+
+/**
+ * An A-B loop over part of a track. `endMs` is null while only the start
+ * point has been set, and the loop isn't active until both points are.
+ */
+export interface ABLoop {
+  startMs: number;
+  endMs: number | null;
+}
+
+/** A loop with both points set, as saved per track. */
+export interface SavedLoop {
+  id: string;
+  name: string;
+  startMs: number;
+  endMs: number;
+}
+
+/** Shorter loops than this would re-seek faster than the engine reports position. */
+export const MIN_LOOP_MS = 1000;
+
+/**
+ * Orders the two points and keeps the loop at least `MIN_LOOP_MS` long and
+ * inside the track, shifting the start back if the end hits the track's end.
+ */
+export function normalizeLoop(aMs: number, bMs: number, durationMs: number): { startMs: number; endMs: number } {
+  const max = durationMs > 0 ? durationMs : Math.max(aMs, bMs);
+  let startMs = Math.max(0, Math.min(aMs, bMs));
+  const endMs = Math.min(max, Math.max(aMs, bMs, startMs + MIN_LOOP_MS));
+  if (endMs - startMs < MIN_LOOP_MS) startMs = Math.max(0, endMs - MIN_LOOP_MS);
+  return { startMs, endMs };
+}
+
+/**
+ * Milliseconds of wall-clock time until playback at `positionMs` reaches the
+ * loop end, allowing for the playback rate. Zero or less means the end has
+ * been reached (or skipped past) and playback should jump back to the start.
+ */
+export function getLoopWrapDelayMs(positionMs: number, endMs: number, rate: number): number {
+  return (endMs - positionMs) / (rate > 0 ? rate : 1);
+}
+
+/** Default name for a saved loop, e.g. "0:12 – 0:20". */
+export function formatLoopName(startMs: number, endMs: number): string {
+  return `${formatTime(startMs)} – ${formatTime(endMs)}`;
+}
@@ -0,0 +1,368 @@
+export interface AudioPicture {
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  picture?: AudioPicture;
+}
+
+/** Random access to a file's bytes, so large files never have to be read whole. */
+export interface ByteSource {
+  size: number;
+  read: (offset: number, length: number) => Uint8Array;
+}
+
+function bytesToByteSource(bytes: Uint8Array): ByteSource {
+  return {
+    size: bytes.length,
+    read: (offset, length) => bytes.subarray(offset, Math.min(bytes.length, offset + length)),
+  };
+}
+
+type TextEncoding = 'latin1' | 'utf16' | 'utf16be' | 'utf8';
+
+const ID3_ENCODINGS: TextEncoding[] = ['latin1', 'utf16', 'utf16be', 'utf8'];
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+function uint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+}
+
+function uint32LE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset + 3] << 24) >>> 0) + (bytes[offset + 2] << 16) + (bytes[offset + 1] << 8) + bytes[offset];
+}
+
+function syncsafe(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  let out = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const b = bytes[i++];
+    let code: number;
+    if (b < 0x80) {
+      code = b;
+    } else if (b >= 0xf0) {
+      code = ((b & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else if (b >= 0xe0) {
+      code = ((b & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else {
+      code = ((b & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    }
+    out += String.fromCodePoint(code);
+  }
+  return out;
+}
+
+function decodeUtf16(bytes: Uint8Array, bigEndian: boolean): string {
+  let start = 0;
+  let be = bigEndian;
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    be = false;
+    start = 2;
+  } else if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    be = true;
+    start = 2;
+  }
+  let out = '';
+  for (let i = start; i + 1 < bytes.length; i += 2) {
+    out += String.fromCharCode(be ? (bytes[i] << 8) | bytes[i + 1] : (bytes[i + 1] << 8) | bytes[i]);
+  }
+  return out;
+}
+
+function decodeText(bytes: Uint8Array, encoding: TextEncoding): string {
+  let text: string;
+  switch (encoding) {
+    case 'utf8':
+      text = decodeUtf8(bytes);
+      break;
+    case 'utf16':
+      text = decodeUtf16(bytes, false);
+      break;
+    case 'utf16be':
+      text = decodeUtf16(bytes, true);
+      break;
+    default:
+      text = String.fromCharCode(...bytes);
+  }
+  // Multi-value ID3v2.4 frames are NUL-separated; keep the first value.
+  return text.split('\0')[0].trim();
+}
+
+/** Index just past the NUL terminator that starts at or after `offset`. */
+function skipTerminated(bytes: Uint8Array, offset: number, encoding: TextEncoding): number {
+  const wide = encoding === 'utf16' || encoding === 'utf16be';
+  for (let i = offset; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i + (wide ? 2 : 1);
+  }
+  return bytes.length;
+}
+
+function removeUnsynchronisation(bytes: Uint8Array): Uint8Array {
+  const out: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    out.push(bytes[i]);
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return Uint8Array.from(out);
+}
+
+function pictureMimeType(format: string): string {
+  const lower = format.toLowerCase();
+  if (lower === 'png' || lower === 'image/png') return 'image/png';
+  return 'image/jpeg';
+}
+
+const ID3_FRAMES: Record<string, keyof Omit<AudioTags, 'picture'>> = {
+  TIT2: 'title',
+  TT2: 'title',
+  TPE1: 'artist',
+  TP1: 'artist',
+  TALB: 'album',
+  TAL: 'album',
+};
+
+function parseId3v2(source: ByteSource, offset: number): AudioTags {
+  const header = source.read(offset, 10);
+  if (header.length < 10 || ascii(header, 0, 3) !== 'ID3') return {};
+  const version = header[3];
+  const flags = header[5];
+  let body = source.read(offset + 10, syncsafe(header, 6));
+  if (flags & 0x80 && version < 4) body = removeUnsynchronisation(body);
+
+  let pos = 0;
+  if (flags & 0x40 && version >= 3) {
+    pos = version === 4 ? syncsafe(body, 0) : uint32BE(body, 0) + 4;
+  }
+
+  const tags: AudioTags = {};
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+
+  while (pos + headerLength <= body.length) {
+    const id = ascii(body, pos, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+    const size = version === 2
+      ? (body[pos + 3] << 16) | (body[pos + 4] << 8) | body[pos + 5]
+      : version === 4 ? syncsafe(body, pos + 4) : uint32BE(body, pos + 4);
+    const frameFlags = version === 4 ? body[pos + 9] : 0;
+    let frame = body.subarray(pos + headerLength, pos + headerLength + size);
+    pos += headerLength + size;
+    if (frame.length === 0) continue;
+    if (frameFlags & 0x02) frame = removeUnsynchronisation(frame);
+    if (frameFlags & 0x01) frame = frame.subarray(4);
+
+    const field = ID3_FRAMES[id];
+    if (field && !tags[field]) {
+      const value = decodeText(frame.subarray(1), ID3_ENCODINGS[frame[0]] ?? 'latin1');
+      if (value) tags[field] = value;
+    } else if ((id === 'APIC' || id === 'PIC') && !tags.picture) {
+      const encoding = ID3_ENCODINGS[frame[0]] ?? 'latin1';
+      let cursor: number;
+      let mimeType: string;
+      if (id === 'PIC') {
+        mimeType = pictureMimeType(ascii(frame, 1, 3));
+        cursor = 4;
+      } else {
+        const mimeEnd = skipTerminated(frame, 1, 'latin1');
+        mimeType = pictureMimeType(ascii(frame, 1, mimeEnd - 2));
+        cursor = mimeEnd;
+      }
+      cursor = skipTerminated(frame, cursor + 1, encoding);
+      const data = frame.subarray(cursor);
+      if (data.length > 0) tags.picture = { mimeType, data };
+    }
+  }
+  return tags;
+}
+
+function parseId3v1(source: ByteSource): AudioTags {
+  if (source.size < 128) return {};
+  const tag = source.read(source.size - 128, 128);
+  if (ascii(tag, 0, 3) !== 'TAG') return {};
+  const field = (start: number) => decodeText(tag.subarray(start, start + 30), 'latin1') || undefined;
+  return { title: field(3), artist: field(33), album: field(63) };
+}
+
+interface Atom {
+  type: string;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+function readAtoms(source: ByteSource, start: number, end: number): Atom[] {
+  const atoms: Atom[] = [];
+  let pos = start;
+  while (pos + 8 <= end) {
+    const header = source.read(pos, 16);
+    let size = uint32BE(header, 0);
+    let headerSize = 8;
+    if (size === 1) {
+      size = uint32BE(header, 8) * 0x100000000 + uint32BE(header, 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - pos;
+    }
+    if (size < headerSize) break;
+    atoms.push({ type: ascii(header, 4, 4), start: pos, dataStart: pos + headerSize, end: Math.min(end, pos + size) });
+    pos += size;
+  }
+  return atoms;
+}
+
+function findAtom(source: ByteSource, path: string[], start: number, end: number): Atom | null {
+  const [type, ...rest] = path;
+  const atom = readAtoms(source, start, end).find((a) => a.type === type);
+  if (!atom) return null;
+  if (rest.length === 0) return atom;
+  // `meta` is a full box with four bytes of version and flags before its children.
+  const childStart = atom.type === 'meta' ? atom.dataStart + 4 : atom.dataStart;
+  return findAtom(source, rest, childStart, atom.end);
+}
+
+const MP4_ITEMS: Record<string, keyof Omit<AudioTags, 'picture'>> = {
+  '©nam': 'title',
+  '©ART': 'artist',
+  aART: 'artist',
+  '©alb': 'album',
+};
+
+function parseMp4(source: ByteSource): AudioTags {
+  const ilst = findAtom(source, ['moov', 'udta', 'meta', 'ilst'], 0, source.size);
+  if (!ilst) return {};
+  const items = source.read(ilst.dataStart, ilst.end - ilst.dataStart);
+  const itemSource = bytesToByteSource(items);
+  const tags: AudioTags = {};
+
+  for (const item of readAtoms(itemSource, 0, items.length)) {
+    const data = readAtoms(itemSource, item.dataStart, item.end).find((a) => a.type === 'data');
+    if (!data || data.end - data.dataStart < 8) continue;
+    const dataType = uint32BE(items, data.dataStart) & 0xffffff;
+    const payload = items.subarray(data.dataStart + 8, data.end);
+
+    const field = MP4_ITEMS[item.type];
+    if (field && !tags[field]) {
+      const value = decodeText(payload, 'utf8');
+      if (value) tags[field] = value;
+    } else if (item.type === 'covr' && !tags.picture && payload.length > 0) {
+      tags.picture = { mimeType: dataType === 14 ? 'image/png' : 'image/jpeg', data: payload };
+    }
+  }
+  return tags;
+}
+
+const VORBIS_FIELDS: Record<string, keyof Omit<AudioTags, 'picture'>> = {
+  TITLE: 'title',
+  ARTIST: 'artist',
+  ALBUM: 'album',
+};
+
+function parseFlac(source: ByteSource): AudioTags {
+  const tags: AudioTags = {};
+  let pos = 4;
+  let isLast = false;
+
+  while (!isLast && pos + 4 <= source.size) {
+    const header = source.read(pos, 4);
+    isLast = (header[0] & 0x80) !== 0;
+    const blockType = header[0] & 0x7f;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    const blockStart = pos + 4;
+    pos = blockStart + length;
+
+    if (blockType === 4) {
+      const block = source.read(blockStart, length);
+      let cursor = 4 + uint32LE(block, 0);
+      const count = uint32LE(block, cursor);
+      cursor += 4;
+      for (let i = 0; i < count && cursor + 4 <= block.length; i++) {
+        const commentLength = uint32LE(block, cursor);
+        const comment = decodeUtf8(block.subarray(cursor + 4, cursor + 4 + commentLength));
+        cursor += 4 + commentLength;
+        const separator = comment.indexOf('=');
+        const field = VORBIS_FIELDS[comment.slice(0, separator).toUpperCase()];
+        if (field && !tags[field]) tags[field] = comment.slice(separator + 1).trim() || undefined;
+      }
+    } else if (blockType === 6 && !tags.picture) {
+      const block = source.read(blockStart, length);
+      const mimeLength = uint32BE(block, 4);
+      const mimeType = pictureMimeType(ascii(block, 8, mimeLength));
+      let cursor = 8 + mimeLength;
+      cursor += 4 + uint32BE(block, cursor) + 16;
+      const dataLength = uint32BE(block, cursor);
+      tags.picture = { mimeType, data: block.subarray(cursor + 4, cursor + 4 + dataLength) };
+    }
+  }
+  return tags;
+}
+
+const RIFF_INFO_FIELDS: Record<string, keyof Omit<AudioTags, 'picture'>> = {
+  INAM: 'title',
+  IART: 'artist',
+  IPRD: 'album',
+};
+
+function parseWav(source: ByteSource): AudioTags {
+  let tags: AudioTags = {};
+  let pos = 12;
+
+  while (pos + 8 <= source.size) {
+    const header = source.read(pos, 12);
+    const type = ascii(header, 0, 4);
+    const size = uint32LE(header, 4);
+    const dataStart = pos + 8;
+
+    if (type === 'LIST' && ascii(header, 8, 4) === 'INFO') {
+      const list = source.read(dataStart + 4, size - 4);
+      let cursor = 0;
+      while (cursor + 8 <= list.length) {
+        const id = ascii(list, cursor, 4);
+        const length = uint32LE(list, cursor + 4);
+        const field = RIFF_INFO_FIELDS[id];
+        if (field && !tags[field]) {
+          tags[field] = decodeText(list.subarray(cursor + 8, cursor + 8 + length), 'utf8') || undefined;
+        }
+        cursor += 8 + length + (length % 2);
+      }
+    } else if (type === 'id3 ' || type === 'ID3 ') {
+      tags = { ...parseId3v2(source, dataStart), ...stripEmpty(tags) };
+    }
+    // RIFF chunks are padded to an even length.
+    pos = dataStart + size + (size % 2);
+  }
+  return tags;
+}
+
+function stripEmpty(tags: AudioTags): AudioTags {
+  return Object.fromEntries(Object.entries(tags).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Reads title, artist, album and cover art from ID3v1/v2 (MP3), MP4/M4A
+ * atoms, FLAC Vorbis comments and RIFF INFO chunks (WAV). Fields the file
+ * doesn't carry are left undefined; unrecognised formats return `{}`.
+ */
+export function parseAudioTags(source: ByteSource): AudioTags {
+  const head = source.read(0, 12);
+  if (head.length < 12) return {};
+
+  if (ascii(head, 0, 4) === 'fLaC') return stripEmpty(parseFlac(source));
+  if (ascii(head, 4, 4) === 'ftyp') return stripEmpty(parseMp4(source));
+  if (ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 4) === 'WAVE') return stripEmpty(parseWav(source));
+  if (ascii(head, 0, 3) === 'ID3') {
+    // A v1 tag at the end still fills in anything the v2 tag left out.
+    return { ...stripEmpty(parseId3v1(source)), ...stripEmpty(parseId3v2(source, 0)) };
+  }
+  return stripEmpty(parseId3v1(source));
+}
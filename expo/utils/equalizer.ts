@@ -0,0 +1,36 @@
+export interface EqBand {
+  frequency: number;
+  type: 'lowshelf' | 'peaking' | 'highshelf';
+  label: string;
+}
+
+export const EQ_BANDS: EqBand[] = [
+  { frequency: 60, type: 'lowshelf', label: '60' },
+  { frequency: 230, type: 'peaking', label: '230' },
+  { frequency: 910, type: 'peaking', label: '910' },
+  { frequency: 3600, type: 'peaking', label: '3.6k' },
+  { frequency: 14000, type: 'highshelf', label: '14k' },
+];
+
+export const EQ_MAX_GAIN_DB = 12;
+
+export type EqPresetName = 'flat' | 'bassBoost' | 'vocal' | 'trebleBoost' | 'electronic' | 'acoustic';
+
+export const EQ_PRESETS: { name: EqPresetName; label: string; gainsDb: number[] }[] = [
+  { name: 'flat', label: 'Flat', gainsDb: [0, 0, 0, 0, 0] },
+  { name: 'bassBoost', label: 'Bass Boost', gainsDb: [6, 4, 0, 0, 0] },
+  { name: 'vocal', label: 'Vocal', gainsDb: [-2, 0, 3, 4, 1] },
+  { name: 'trebleBoost', label: 'Treble Boost', gainsDb: [0, 0, 0, 3, 6] },
+  { name: 'electronic', label: 'Electronic', gainsDb: [5, 2, -1, 2, 4] },
+  { name: 'acoustic', label: 'Acoustic', gainsDb: [3, 1, 1, 2, 2] },
+];
+
+export function clampEqGain(gainDb: number): number {
+  return Math.min(EQ_MAX_GAIN_DB, Math.max(-EQ_MAX_GAIN_DB, Math.round(gainDb)));
+}
+
+/** The preset whose gains match exactly, or null for a custom curve. */
+export function findEqPreset(gainsDb: number[]): EqPresetName | null {
+  const match = EQ_PRESETS.find((p) => p.gainsDb.every((g, i) => g === gainsDb[i]));
+  return match?.name ?? null;
+}
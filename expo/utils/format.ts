@@ -0,0 +1,39 @@
+/**
+ * Formats a millisecond duration as m:ss (e.g. 95000 -> "1:35").
+ */
+export function formatTime(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Formats a past timestamp relative to `now` (e.g. "Just now", "5m ago", "3h ago", "2d ago"),
+ * falling back to a short date after a week.
+ */
+export function formatRelativeTime(timestamp: number, now: number = Date.now()): string {
+  const minutes = Math.floor((now - timestamp) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Formats a byte count with binary units (e.g. 1536 -> "1.5 KB", 262144000 -> "250 MB").
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value >= 10 ? Math.round(value) : value.toFixed(1)} ${units[unit]}`;
+}
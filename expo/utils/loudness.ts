@@ -0,0 +1,38 @@
+/** Level previews are normalized towards, in dBFS RMS. */
+export const TARGET_LOUDNESS_DB = -16;
+
+// expo-av volume tops out at 1, so gain can only bring loud tracks down.
+const MIN_GAIN = 0.1;
+const MAX_GAIN = 1;
+
+export interface LoudnessMeter {
+  addFrames: (frames: ArrayLike<number>) => void;
+  /** RMS level in dBFS of everything added so far, or null when nothing was heard. */
+  getLevelDb: () => number | null;
+}
+
+export function createLoudnessMeter(): LoudnessMeter {
+  let sumSquares = 0;
+  let count = 0;
+  return {
+    addFrames(frames) {
+      for (let i = 0; i < frames.length; i++) {
+        sumSquares += frames[i] * frames[i];
+      }
+      count += frames.length;
+    },
+    getLevelDb() {
+      if (count === 0 || sumSquares === 0) return null;
+      return 20 * Math.log10(Math.sqrt(sumSquares / count));
+    },
+  };
+}
+
+/**
+ * Linear gain that moves a track measured at `levelDb` towards
+ * `TARGET_LOUDNESS_DB`, clamped to what the player can apply.
+ */
+export function gainForLevel(levelDb: number): number {
+  const gain = Math.pow(10, (TARGET_LOUDNESS_DB - levelDb) / 20);
+  return Math.min(MAX_GAIN, Math.max(MIN_GAIN, gain));
+}
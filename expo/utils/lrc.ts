@@ -0,0 +1,130 @@
+export interface LyricWord {
+  timeMs: number;
+  text: string;
+}
+
+export interface LyricLine {
+  timeMs: number;
+  text: string;
+  /** Word timings from enhanced LRC (`<mm:ss.xx>` tags); absent for line-level files. */
+  words?: LyricWord[];
+}
+
+export interface LyricsMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+}
+
+export interface ParsedLyrics {
+  /** False when the file has no timestamps; lines then carry `timeMs` 0 and only display. */
+  synced: boolean;
+  lines: LyricLine[];
+  metadata: LyricsMetadata;
+}
+
+const LINE_TIME_TAG = /\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const WORD_TIME_TAG = /<(\d+):(\d{1,2})(?:[.:](\d{1,3}))?>/g;
+const METADATA_TAG = /^\[([a-z]+):(.*)\]$/i;
+
+function toMs(minutes: string, seconds: string, fraction: string | undefined): number {
+  // "xx" is hundredths and "xxx" milliseconds; both read as milliseconds once right-padded.
+  const ms = fraction ? Number(fraction.padEnd(3, '0')) : 0;
+  return Number(minutes) * 60000 + Number(seconds) * 1000 + ms;
+}
+
+function parseWords(body: string, lineTimeMs: number, offsetMs: number): LyricWord[] | undefined {
+  WORD_TIME_TAG.lastIndex = 0;
+  if (!WORD_TIME_TAG.test(body)) return undefined;
+
+  const words: LyricWord[] = [];
+  const parts = body.split(WORD_TIME_TAG);
+  // split() with capture groups yields [text, min, sec, frac, text, min, sec, frac, text, ...].
+  if (parts[0].trim()) words.push({ timeMs: lineTimeMs, text: parts[0] });
+  for (let i = 1; i + 3 < parts.length; i += 4) {
+    const text = parts[i + 3] ?? '';
+    if (!text) continue;
+    words.push({ timeMs: Math.max(0, toMs(parts[i], parts[i + 1], parts[i + 2]) - offsetMs), text });
+  }
+  return words.length > 0 ? words : undefined;
+}
+
+/**
+ * Parses LRC text, including enhanced LRC word timings, lines carrying
+ * several timestamps (repeated choruses) and the `[offset:]` tag. Files
+ * without any timestamps come back unsynced, one line per text line.
+ */
+export function parseLrc(content: string): ParsedLyrics {
+  const metadata: LyricsMetadata = {};
+  const lines: LyricLine[] = [];
+  const plain: string[] = [];
+  let offsetMs = 0;
+
+  const rawLines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+  // Offset applies to the whole file, wherever the tag appears.
+  for (const raw of rawLines) {
+    const tag = raw.trim().match(METADATA_TAG);
+    if (tag && tag[1].toLowerCase() === 'offset') offsetMs = Number(tag[2].trim()) || 0;
+  }
+
+  for (const raw of rawLines) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    LINE_TIME_TAG.lastIndex = 0;
+    const times: number[] = [];
+    let match: RegExpExecArray | null;
+    let bodyStart = 0;
+    // Timestamps are only meaningful as a prefix: `[00:12.00][01:30.00]Chorus`.
+    while ((match = LINE_TIME_TAG.exec(line)) && match.index === bodyStart) {
+      times.push(toMs(match[1], match[2], match[3]));
+      bodyStart = LINE_TIME_TAG.lastIndex;
+    }
+
+    if (times.length === 0) {
+      const tag = line.match(METADATA_TAG);
+      if (tag) {
+        const key = tag[1].toLowerCase();
+        const value = tag[2].trim();
+        if (key === 'ti') metadata.title = value;
+        else if (key === 'ar') metadata.artist = value;
+        else if (key === 'al') metadata.album = value;
+        continue;
+      }
+      plain.push(line);
+      continue;
+    }
+
+    const body = line.slice(bodyStart);
+    for (const time of times) {
+      const timeMs = Math.max(0, time - offsetMs);
+      const words = parseWords(body, timeMs, offsetMs);
+      const text = words ? words.map((w) => w.text).join('').trim() : body.trim();
+      lines.push(words ? { timeMs, text, words } : { timeMs, text });
+    }
+  }
+
+  if (lines.length === 0) {
+    return { synced: false, lines: plain.map((text) => ({ timeMs: 0, text })), metadata };
+  }
+  lines.sort((a, b) => a.timeMs - b.timeMs);
+  return { synced: true, lines, metadata };
+}
+
+/** Index of the line being sung at `positionMs`, or -1 before the first line. */
+export function findActiveLineIndex(lines: LyricLine[], positionMs: number): number {
+  let low = 0;
+  let high = lines.length - 1;
+  let result = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (lines[mid].timeMs <= positionMs) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return result;
+}
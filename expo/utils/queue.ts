@@ -0,0 +1,49 @@
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export const REPEAT_MODES: RepeatMode[] = ['off', 'all', 'one'];
+
+/**
+ * Returns a shuffled copy of `items` with the item at `pinnedIndex` moved to
+ * the front, so toggling shuffle never interrupts the track that is playing.
+ */
+export function shuffleWithPinned<T>(items: T[], pinnedIndex: number): T[] {
+  const rest = items.filter((_, i) => i !== pinnedIndex);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  const pinned = items[pinnedIndex];
+  return pinned !== undefined ? [pinned, ...rest] : rest;
+}
+
+/**
+ * Index of the track after `index`, or -1 when playback should stop.
+ * Replaying the same track for 'one' is up to the caller, so it wraps like 'all' here.
+ */
+export function getNextIndex(index: number, length: number, repeatMode: RepeatMode): number {
+  if (length === 0) return -1;
+  if (index + 1 < length) return index + 1;
+  return repeatMode === 'off' ? -1 : 0;
+}
+
+/**
+ * Index of the track before `index`, or -1 when already at the start and not repeating.
+ */
+export function getPreviousIndex(index: number, length: number, repeatMode: RepeatMode): number {
+  if (length === 0) return -1;
+  if (index > 0) return index - 1;
+  return repeatMode === 'off' ? -1 : length - 1;
+}
+
+/**
+ * Returns a copy of `items` with the element at `from` moved to `to`.
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from < 0 || from >= items.length || to < 0 || to >= items.length || from === to) {
+    return items;
+  }
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
@@ -0,0 +1,14 @@
+/** Last.fm ignores tracks of 30 seconds or less. */
+export const MIN_SCROBBLE_DURATION_MS = 30000;
+/** Four minutes of listening always counts, however long the track. */
+export const MAX_SCROBBLE_THRESHOLD_MS = 240000;
+
+/**
+ * How long a track must be listened to before it counts as a scrobble: half
+ * its length or four minutes, whichever comes first. Null for tracks too
+ * short (or of unknown length) to scrobble.
+ */
+export function getScrobbleThresholdMs(durationMs: number): number | null {
+  if (durationMs <= MIN_SCROBBLE_DURATION_MS) return null;
+  return Math.min(durationMs / 2, MAX_SCROBBLE_THRESHOLD_MS);
+}
@@ -0,0 +1,20 @@
+export type SleepTimer =
+  | { mode: 'minutes'; minutes: number; endsAt: number }
+  | { mode: 'endOfTrack' }
+  | { mode: 'endOfQueue' };
+
+export type SleepTimerOption = number | 'endOfTrack' | 'endOfQueue';
+
+export const SLEEP_TIMER_MINUTES = [15, 30, 45, 60];
+
+/** Playback fades out over this window before the timer stops it. */
+export const SLEEP_FADE_MS = 30000;
+
+/**
+ * Volume multiplier for a timer with `remainingMs` left: full volume until the
+ * fade window, then a linear ramp down to silence.
+ */
+export function getSleepFadeVolume(remainingMs: number): number {
+  if (remainingMs >= SLEEP_FADE_MS) return 1;
+  return Math.max(0, remainingMs / SLEEP_FADE_MS);
+}